@@ -4,14 +4,16 @@ import { runEsbuild, runEsbuildMultiEntry } from './runEsbuild.mjs';
 import type { EsbuildBundlerOptions } from './types.mjs';
 
 const DEFAULT_CONFIG_ENHANCER: EsbuildBundlerOptions = config => config;
+// Fixtures can be JS, TypeScript or TSX files
+const FIXTURE_SUFFIX_REGEX = /\.fixture\.(js|ts|tsx)$/;
 
 export function createEsbuildBundler(configEnhancerCallback = DEFAULT_CONFIG_ENHANCER): BundlerAdapter {
   return {
     buildFixture: async function (options) {
       const { fixturePath, quiet } = options;
-      const outputPath = fixturePath.replace(/\.fixture.js$/, '.output.js');
+      const outputPath = fixturePath.replace(FIXTURE_SUFFIX_REGEX, '.output.js');
 
-      await runEsbuild({
+      const { chunks, modules } = await runEsbuild({
         enhanceConfig: configEnhancerCallback,
         fixturePath,
         outputPath,
@@ -20,6 +22,8 @@ export function createEsbuildBundler(configEnhancerCallback = DEFAULT_CONFIG_ENH
 
       return {
         outputPath,
+        chunks,
+        modules,
       };
     },
 
@@ -29,18 +33,20 @@ export function createEsbuildBundler(configEnhancerCallback = DEFAULT_CONFIG_ENH
       const fixturesWithPaths = fixtures.map(({ fixturePath, name }) => ({
         fixturePath,
         name,
-        outputPath: fixturePath.replace(/\.fixture.js$/, '.output.js'),
+        outputPath: fixturePath.replace(FIXTURE_SUFFIX_REGEX, '.output.js'),
       }));
 
-      await runEsbuildMultiEntry({
+      const results = await runEsbuildMultiEntry({
         enhanceConfig: configEnhancerCallback,
         fixtures: fixturesWithPaths,
         quiet,
       });
 
-      return fixturesWithPaths.map(({ name, outputPath }) => ({
+      return fixturesWithPaths.map(({ name, outputPath }, index) => ({
         name,
         outputPath,
+        chunks: results[index].chunks,
+        modules: results[index].modules,
       }));
     },
 
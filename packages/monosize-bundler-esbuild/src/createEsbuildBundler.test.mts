@@ -1,16 +1,19 @@
 import fs from 'node:fs/promises';
+import path from 'node:path';
 import tmp from 'tmp';
 import { beforeEach, describe, expect, it, vitest } from 'vitest';
 
+import type { BuildOutputChunk } from 'monosize';
+
 import { createEsbuildBundler } from './createEsbuildBundler.mjs';
 
-async function setup(fixtureContent: string): Promise<string> {
-  const { fixtures } = await setupMultiple([{ name: 'test', content: fixtureContent }]);
+async function setup(fixtureContent: string, extension = 'js'): Promise<string> {
+  const { fixtures } = await setupMultiple([{ name: 'test', content: fixtureContent, extension }]);
   return fixtures[0].path;
 }
 
 async function setupMultiple(
-  fixtures: Array<{ name: string; content: string }>,
+  fixtures: Array<{ name: string; content: string; extension?: string }>,
 ): Promise<{ dir: string; fixtures: Array<{ name: string; path: string }> }> {
   const packageDir = tmp.dirSync({
     prefix: 'buildFixtures',
@@ -27,10 +30,10 @@ async function setupMultiple(
   });
 
   const fixtureResults = await Promise.all(
-    fixtures.map(async ({ name, content }) => {
+    fixtures.map(async ({ name, content, extension = 'js' }) => {
       const fixture = tmp.fileSync({
         dir: fixtureDir.name,
-        name: `${name}.fixture.js`,
+        name: `${name}.fixture.${extension}`,
       });
       await fs.writeFile(fixture.name, content);
       const realPath = await fs.realpath(fixture.name);
@@ -63,11 +66,113 @@ describe('buildFixture', () => {
 
     expect(buildResult.outputPath).toMatch(/monosize[\\|/]test\.output\.js/);
     expect(await fs.readFile(buildResult.outputPath, 'utf-8')).toMatchInlineSnapshot(`
-      "(()=>{var o="Hello world";console.log(o);})();
+      "var o="Hello world";console.log(o);
+      "
+    `);
+  });
+
+  it('builds TypeScript fixtures', async () => {
+    const fixturePath = await setup(
+      `
+    /** @jsx h */
+    const h = (type: string, props: Record<string, string>) => ({ type, props });
+    const title: string = 'Hello';
+
+    console.log(<div title={title} />);
+    `,
+      'tsx',
+    );
+    const buildResult = await esbuildBundler.buildFixture({
+      debug: false,
+      fixturePath,
+      quiet: true,
+    });
+
+    expect(buildResult.outputPath).toMatch(/monosize[\\|/]test\.output\.js/);
+    expect(await fs.readFile(buildResult.outputPath, 'utf-8')).toMatchInlineSnapshot(`
+      "var n=(t,i)=>({type:t,props:i}),o="Hello";console.log(n("div",{title:o}));
+      "
+    `);
+  });
+
+  it('returns async chunks separately', async () => {
+    const fixturePath = await setup(`
+    import('./lazy.js').then(m => console.log(m.foo));
+    `);
+    await fs.writeFile(fixturePath.replace('test.fixture.js', 'lazy.js'), `export const foo = 'foo';`);
+
+    const buildResult = await esbuildBundler.buildFixture({
+      debug: false,
+      fixturePath,
+      quiet: true,
+    });
+
+    expect(buildResult.chunks).toEqual([
+      { path: buildResult.outputPath, type: 'initial' },
+      { path: expect.stringMatching(/monosize[\\|/]lazy-\w+\.js/), type: 'async' },
+    ]);
+    const asyncChunk = buildResult.chunks?.[1];
+
+    if (!asyncChunk) {
+      throw new Error('An async chunk is not emitted');
+    }
+
+    expect(await fs.readFile(asyncChunk.path, 'utf-8')).toMatchInlineSnapshot(`
+      "var o="foo";export{o as foo};
       "
     `);
   });
 
+  it('returns CSS & assets as chunks', async () => {
+    const fixturePath = await setup(`
+    import './styles.css';
+    import icon from './icon.svg';
+
+    console.log(icon);
+    `);
+    await fs.writeFile(fixturePath.replace('test.fixture.js', 'styles.css'), `.foo { background: url(./bg.png) }`);
+    await fs.writeFile(fixturePath.replace('test.fixture.js', 'icon.svg'), `<svg></svg>`);
+    await fs.writeFile(fixturePath.replace('test.fixture.js', 'bg.png'), 'png');
+
+    const buildResult = await esbuildBundler.buildFixture({
+      debug: false,
+      fixturePath,
+      quiet: true,
+    });
+
+    expect(buildResult.chunks).toHaveLength(4);
+    expect(buildResult.chunks).toEqual(
+      expect.arrayContaining([
+        { path: buildResult.outputPath, type: 'initial' },
+        { path: expect.stringMatching(/monosize[\\|/]test\.output\.css/), type: 'initial' },
+        { path: expect.stringMatching(/monosize[\\|/]icon-\w+\.svg/), type: 'initial' },
+        { path: expect.stringMatching(/monosize[\\|/]bg-\w+\.png/), type: 'initial' },
+      ]),
+    );
+  });
+
+  it('returns modules of initial chunks with their sizes', async () => {
+    const fixturePath = await setup(`
+    import { foo } from './foo.js';
+    import('./lazy.js').then(m => console.log(m.bar));
+
+    console.log(foo);
+    `);
+    await fs.writeFile(fixturePath.replace('test.fixture.js', 'foo.js'), `export const foo = 'foo';`);
+    await fs.writeFile(fixturePath.replace('test.fixture.js', 'lazy.js'), `export const bar = 'bar';`);
+
+    const buildResult = await esbuildBundler.buildFixture({
+      debug: false,
+      fixturePath,
+      quiet: true,
+    });
+
+    expect(buildResult.modules).toEqual([
+      { path: fixturePath.replace('test.fixture.js', 'foo.js'), size: expect.any(Number) },
+      { path: fixturePath, size: expect.any(Number) },
+    ]);
+  });
+
   it('should throw on compilation errors', async () => {
     const fixturePath = await setup(`import something from 'unknown-pkg'`);
 
@@ -121,7 +226,7 @@ describe('buildFixtures', () => {
       },
     ]);
 
-    const buildResults = await esbuildBundler.buildFixtures!({
+    const buildResults = await esbuildBundler.buildFixtures({
       fixtures: fixtures.map(f => ({ fixturePath: f.path, name: f.name })),
       debug: false,
       quiet: true,
@@ -133,21 +238,21 @@ describe('buildFixtures', () => {
     expect(buildResults[0].name).toBe('fixture1');
     expect(buildResults[0].outputPath).toMatch(/monosize[\\|/]fixture1\.output\.js/);
     expect(await fs.readFile(buildResults[0].outputPath, 'utf-8')).toMatchInlineSnapshot(`
-      "(()=>{var o={foo:"foo",bar:"bar"};function n(){return o.foo}console.log(n);})();
+      "var o={foo:"foo",bar:"bar"};function n(){return o.foo}console.log(n);
       "
     `);
 
     expect(buildResults[1].name).toBe('fixture2');
     expect(buildResults[1].outputPath).toMatch(/monosize[\\|/]fixture2\.output\.js/);
     expect(await fs.readFile(buildResults[1].outputPath, 'utf-8')).toMatchInlineSnapshot(`
-      "(()=>{var o="Hello2";console.log(o);})();
+      "var o="Hello2";console.log(o);
       "
     `);
 
     expect(buildResults[2].name).toBe('fixture3');
     expect(buildResults[2].outputPath).toMatch(/monosize[\\|/]fixture3\.output\.js/);
     expect(await fs.readFile(buildResults[2].outputPath, 'utf-8')).toMatchInlineSnapshot(`
-      "(()=>{var o="Hello3";console.log(o);})();
+      "var o="Hello3";console.log(o);
       "
     `);
   });
@@ -165,7 +270,7 @@ describe('buildFixtures', () => {
     ]);
 
     await expect(
-      esbuildBundler.buildFixtures!({
+      esbuildBundler.buildFixtures({
         fixtures: fixtures.map(f => ({ fixturePath: f.path, name: f.name })),
         debug: false,
         quiet: true,
@@ -233,7 +338,7 @@ describe('buildFixtures', () => {
 
     // Build using batch mode (buildFixtures)
     const { fixtures: batchFixtures } = await setupMultiple(fixtureContents);
-    const batchResults = await esbuildBundler.buildFixtures!({
+    const batchResults = await esbuildBundler.buildFixtures({
       fixtures: batchFixtures.map(f => ({ fixturePath: f.path, name: f.name })),
       debug: false,
       quiet: true,
@@ -253,4 +358,40 @@ describe('buildFixtures', () => {
     // Validate outputs are identical
     expect(batchOutputs).toEqual(loopOutputs);
   });
+
+  it('measures fixtures that import the same module independently of a batch', async () => {
+    const { dir, fixtures } = await setupMultiple([
+      { name: 'a', content: `import { shared } from './shared.js'; console.log(shared, 'a');` },
+      { name: 'b', content: `import { shared } from './shared.js'; console.log(shared, 'b');` },
+    ]);
+    await fs.writeFile(path.join(dir, 'shared.js'), `export const shared = { foo: 'foo', bar: 'bar', baz: 'baz' };`);
+
+    async function getInitialSize(result: { outputPath: string; chunks?: BuildOutputChunk[] }): Promise<number> {
+      const { chunks = [{ path: result.outputPath, type: 'initial' }] } = result;
+      const initialChunks = chunks.filter(chunk => chunk.type === 'initial');
+      const contents = await Promise.all(initialChunks.map(chunk => fs.readFile(chunk.path)));
+
+      return contents.reduce((size, content) => size + content.byteLength, 0);
+    }
+
+    const sequentialSizes: number[] = [];
+
+    for (const fixture of fixtures) {
+      const result = await esbuildBundler.buildFixture({ fixturePath: fixture.path, debug: false, quiet: true });
+      sequentialSizes.push(await getInitialSize(result));
+    }
+
+    const batchResults = await esbuildBundler.buildFixtures({
+      fixtures: fixtures.map(f => ({ fixturePath: f.path, name: f.name })),
+      debug: false,
+      quiet: true,
+    });
+    const batchSizes = await Promise.all(batchResults.map(getInitialSize));
+
+    expect(batchResults.map(result => result.chunks)).toEqual([
+      [{ path: batchResults[0].outputPath, type: 'initial' }],
+      [{ path: batchResults[1].outputPath, type: 'initial' }],
+    ]);
+    expect(batchSizes).toEqual(sequentialSizes);
+  });
 });
@@ -1,81 +1,164 @@
-import fs from 'node:fs/promises';
 import path from 'node:path';
-import { build, type BuildOptions } from 'esbuild';
+import { build, type BuildOptions, type Metafile } from 'esbuild';
+import type { BuildOutputChunk, BuildOutputModule } from 'monosize';
 
 import { EsbuildBundlerOptions } from './types.mjs';
 
-function createEsbuildConfig(fixturePath: string): BuildOptions {
+const ASSET_LOADERS: BuildOptions['loader'] = Object.fromEntries(
+  ['.svg', '.png', '.jpg', '.jpeg', '.gif', '.webp', '.woff', '.woff2', '.ttf', '.eot'].map(extension => [
+    extension,
+    'file',
+  ]),
+);
+
+/**
+ * Creates the base esbuild configuration of a build of a fixture, fixtures are always built separately.
+ */
+function createEsbuildConfig(entryPoints: Record<string, string>, outputDir: string): BuildOptions {
   return {
     logLevel: 'silent',
 
-    entryPoints: [fixturePath],
+    entryPoints,
 
     minify: true,
     bundle: true,
 
-    write: false,
+    // Code splitting is required to emit dynamic imports as separate chunks, it's supported only with ESM output
+    format: 'esm',
+    splitting: true,
+    metafile: true,
+
+    outdir: outputDir,
+    outExtension: { '.js': '.js' },
+
+    // Emits static assets referenced from JS & CSS as separate files, so they are measured as other assets
+    loader: ASSET_LOADERS,
   };
 }
 
-type RunEsbuildOptions = {
-  enhanceConfig: EsbuildBundlerOptions;
+function getEntryName(outputPath: string): string {
+  return path.basename(outputPath, path.extname(outputPath));
+}
 
-  fixturePath: string;
-  outputPath: string;
+/**
+ * Walks through imports of output files starting from an entry point and classifies chunks as initial (statically
+ * imported) or async (dynamically imported). CSS bundles & files of assets belong to chunks that reference them.
+ */
+export function getChunksFromMetafile(metafile: Metafile, outputPath: string, workingDir: string): BuildOutputChunk[] {
+  const outputs = new Map(
+    Object.entries(metafile.outputs).map(([outputFile, output]) => [path.resolve(workingDir, outputFile), output]),
+  );
 
-  quiet: boolean;
-};
+  const initialChunks = new Set<string>();
+  const asyncChunks = new Set<string>();
 
-export async function runEsbuild(options: RunEsbuildOptions): Promise<null> {
-  const { enhanceConfig, fixturePath, outputPath } = options;
-  const esbuildConfig = enhanceConfig(createEsbuildConfig(fixturePath));
+  function walk(chunkPath: string, chunks: Set<string>) {
+    const output = outputs.get(chunkPath);
+
+    if (!output || initialChunks.has(chunkPath) || chunks.has(chunkPath)) {
+      return;
+    }
+
+    chunks.add(chunkPath);
 
-  const result = await build(esbuildConfig);
-  const { outputFiles } = result;
+    if (output.cssBundle) {
+      walk(path.resolve(workingDir, output.cssBundle), chunks);
+    }
 
-  if (!outputFiles || outputFiles.length !== 1) {
-    throw new Error('Expected exactly one output file');
+    output.imports
+      .filter(chunkImport => !chunkImport.external)
+      .forEach(chunkImport => {
+        walk(path.resolve(workingDir, chunkImport.path), chunkImport.kind === 'dynamic-import' ? asyncChunks : chunks);
+      });
   }
 
-  await fs.writeFile(outputPath, outputFiles[0].contents);
+  walk(path.resolve(outputPath), initialChunks);
 
-  return null;
+  return [
+    ...[...initialChunks].map(chunkPath => ({ path: chunkPath, type: 'initial' as const })),
+    ...[...asyncChunks]
+      .filter(chunkPath => !initialChunks.has(chunkPath))
+      .map(chunkPath => ({ path: chunkPath, type: 'async' as const })),
+  ];
 }
 
-type RunEsbuildMultiEntryOptions = {
+/**
+ * Returns input files of initial chunks with their sizes in the output.
+ */
+export function getModulesFromMetafile(
+  metafile: Metafile,
+  chunks: BuildOutputChunk[],
+  workingDir: string,
+): BuildOutputModule[] {
+  const outputs = new Map(
+    Object.entries(metafile.outputs).map(([outputFile, output]) => [path.resolve(workingDir, outputFile), output]),
+  );
+
+  return chunks
+    .filter(chunk => chunk.type === 'initial')
+    .flatMap(chunk => Object.entries(outputs.get(chunk.path)?.inputs ?? {}))
+    .filter(([, input]) => input.bytesInOutput > 0)
+    .map(([inputFile, input]) => ({ path: path.resolve(workingDir, inputFile), size: input.bytesInOutput }));
+}
+
+async function compileEsbuildConfig(
+  config: BuildOptions,
+  outputPaths: string[],
+): Promise<Array<{ outputPath: string; chunks: BuildOutputChunk[]; modules: BuildOutputModule[] }>> {
+  const { metafile } = await build(config);
+
+  if (!metafile) {
+    throw new Error('Expected esbuild to produce a metafile, please check that "metafile" option is not disabled');
+  }
+
+  const workingDir = config.absWorkingDir ?? process.cwd();
+
+  return outputPaths.map(outputPath => {
+    const chunks = getChunksFromMetafile(metafile, outputPath, workingDir);
+
+    return { outputPath, chunks, modules: getModulesFromMetafile(metafile, chunks, workingDir) };
+  });
+}
+
+type RunEsbuildOptions = {
   enhanceConfig: EsbuildBundlerOptions;
 
-  fixtures: Array<{ fixturePath: string; outputPath: string }>;
+  fixturePath: string;
+  outputPath: string;
 
   quiet: boolean;
 };
 
-export async function runEsbuildMultiEntry(options: RunEsbuildMultiEntryOptions): Promise<null> {
-  const { enhanceConfig, fixtures } = options;
-
-  // All fixtures should output to the same directory
-  const outputDir = path.dirname(fixtures[0].outputPath);
-
-  // Build entry object with keys derived from output filenames
-  const entryPoints = fixtures.reduce<Record<string, string>>((acc, { fixturePath, outputPath }) => {
-    const entryName = path.basename(outputPath, path.extname(outputPath));
-    acc[entryName] = fixturePath;
-    return acc;
-  }, {});
+export async function runEsbuild(
+  options: RunEsbuildOptions,
+): Promise<{ outputPath: string; chunks: BuildOutputChunk[]; modules: BuildOutputModule[] }> {
+  const { enhanceConfig, fixturePath, outputPath } = options;
 
-  const esbuildConfig = enhanceConfig({
-    logLevel: 'silent',
+  const esbuildConfig = enhanceConfig(
+    createEsbuildConfig({ [getEntryName(outputPath)]: fixturePath }, path.dirname(outputPath)),
+  );
+  const [result] = await compileEsbuildConfig(esbuildConfig, [outputPath]);
 
-    entryPoints,
+  return result;
+}
 
-    minify: true,
-    bundle: true,
+type RunEsbuildMultiEntryOptions = {
+  enhanceConfig: EsbuildBundlerOptions;
 
-    outdir: outputDir,
-    outExtension: { '.js': '.js' },
-  });
+  fixtures: Array<{ fixturePath: string; outputPath: string }>;
 
-  await build(esbuildConfig);
+  quiet: boolean;
+};
 
-  return null;
+export async function runEsbuildMultiEntry(
+  options: RunEsbuildMultiEntryOptions,
+): Promise<Array<{ outputPath: string; chunks: BuildOutputChunk[]; modules: BuildOutputModule[] }>> {
+  const { enhanceConfig, fixtures, quiet } = options;
+
+  // With code splitting, a single build with multiple entry points moves modules shared between fixtures to shared
+  // chunks, sizes of fixtures would depend on other fixtures in a batch. Each fixture is built separately instead,
+  // builds run concurrently.
+  return Promise.all(
+    fixtures.map(({ fixturePath, outputPath }) => runEsbuild({ enhanceConfig, fixturePath, outputPath, quiet })),
+  );
 }
@@ -1,16 +1,23 @@
 import path from 'node:path';
-import { createRsbuild, type EnvironmentConfig, type RsbuildConfig, logger } from '@rsbuild/core';
-import type { BundlerAdapter, BundlerAdapterFactoryConfig } from 'monosize';
+import { createRsbuild, type EnvironmentConfig, type Rspack, type RsbuildConfig, logger } from '@rsbuild/core';
+import type { BuildOutputChunk, BuildOutputModule, BundlerAdapter, BundlerAdapterFactoryConfig } from 'monosize';
 
 const DEFAULT_CONFIG_ENHANCER: BundlerAdapterFactoryConfig<RsbuildConfig> = config => config;
+// Fixtures can be JS, TypeScript or TSX files
+const FIXTURE_SUFFIX_REGEX = /\.fixture\.(js|ts|tsx)$/;
+
+function getEntryName(outputPath: string): string {
+  return path.basename(outputPath, path.extname(outputPath));
+}
 
 function createBaseEnvironmentConfig(params: {
   entry: Record<string, string>;
   outputDir: string;
   filename: string;
+  asyncDir: string;
   minify: boolean;
 }): EnvironmentConfig {
-  const { entry, outputDir, filename, minify } = params;
+  const { entry, outputDir, filename, asyncDir, minify } = params;
 
   return {
     source: {
@@ -24,20 +31,27 @@ function createBaseEnvironmentConfig(params: {
       },
       target: 'web',
 
-      emitAssets: false,
+      // Static assets (fonts, images, etc.) are emitted to be measured as other assets
+      emitAssets: true,
 
       filename: {
         js: filename,
+        css: filename.replace(/\.js$/, '.css'),
       },
       distPath: {
         root: outputDir,
         js: './',
+        css: './',
+        // Async chunks are placed to a separate directory to avoid collisions between environments
+        jsAsync: asyncDir,
+        cssAsync: asyncDir,
       },
 
       minify,
     },
 
     performance: {
+      // Modules are not split to separate chunks, but dynamic imports still produce async chunks
       chunkSplit: {
         strategy: 'all-in-one',
       },
@@ -53,9 +67,10 @@ export function createEnvironmentConfig(params: {
   const { fixturePath, outputPath, debugOutputPath } = params;
 
   const defaultEnv = createBaseEnvironmentConfig({
-    entry: { index: fixturePath },
+    entry: { [getEntryName(outputPath)]: fixturePath },
     outputDir: path.dirname(outputPath),
-    filename: path.basename(outputPath),
+    filename: '[name].js',
+    asyncDir: 'async',
     minify: true,
   });
 
@@ -66,9 +81,10 @@ export function createEnvironmentConfig(params: {
   return {
     default: defaultEnv,
     debug: createBaseEnvironmentConfig({
-      entry: { index: fixturePath },
+      entry: { [getEntryName(debugOutputPath)]: fixturePath },
       outputDir: path.dirname(debugOutputPath),
-      filename: path.basename(debugOutputPath),
+      filename: '[name].js',
+      asyncDir: 'async-debug',
       minify: false,
     }),
   };
@@ -83,8 +99,7 @@ export function createMultiEntryEnvironmentConfig(params: {
   const outputDir = path.dirname(fixtures[0].outputPath);
 
   const entry = fixtures.reduce<Record<string, string>>((acc, { fixturePath, outputPath }) => {
-    const entryName = path.basename(outputPath, path.extname(outputPath));
-    acc[entryName] = fixturePath;
+    acc[getEntryName(outputPath)] = fixturePath;
     return acc;
   }, {});
 
@@ -92,6 +107,7 @@ export function createMultiEntryEnvironmentConfig(params: {
     entry,
     outputDir,
     filename: '[name].js',
+    asyncDir: 'async',
     minify: true,
   });
 
@@ -101,8 +117,7 @@ export function createMultiEntryEnvironmentConfig(params: {
 
   const debugEntry = fixtures.reduce<Record<string, string>>((acc, { fixturePath, debugOutputPath }) => {
     if (debugOutputPath) {
-      const entryName = path.basename(debugOutputPath, path.extname(debugOutputPath));
-      acc[entryName] = fixturePath;
+      acc[getEntryName(debugOutputPath)] = fixturePath;
     }
     return acc;
   }, {});
@@ -113,11 +128,129 @@ export function createMultiEntryEnvironmentConfig(params: {
       entry: debugEntry,
       outputDir,
       filename: '[name].js',
+      asyncDir: 'async-debug',
       minify: false,
     }),
   };
 }
 
+/**
+ * Serializes stats of all compilations of a build, Rsbuild runs a compilation per environment. Serialization is
+ * expensive, it should be done once per build.
+ */
+function getCompilationsStats(stats: Rspack.Stats | Rspack.MultiStats | undefined): Rspack.StatsCompilation[] {
+  return (stats && 'stats' in stats ? stats.stats : [stats]).map(
+    compilationStats =>
+      compilationStats?.toJson({
+        all: false,
+        chunks: true,
+        chunkRelations: true,
+        chunkModules: true,
+        chunkModulesSpace: Infinity,
+        // Modules that are concatenated or grouped are listed separately
+        nestedModules: true,
+        nestedModulesSpace: Infinity,
+        dependentModules: true,
+        orphanModules: true,
+        runtimeModules: true,
+        entrypoints: true,
+        ids: true,
+        outputPath: true,
+      }) ?? {},
+  );
+}
+
+/**
+ * Returns stats of a compilation that contains an entry point.
+ */
+function findCompilationStats(compilations: Rspack.StatsCompilation[], entryName: string): Rspack.StatsCompilation {
+  const compilation = compilations.find(({ entrypoints = {} }) => entrypoints[entryName]);
+
+  if (!compilation) {
+    throw new Error(`Entry point "${entryName}" is not found in Rspack stats`);
+  }
+
+  return compilation;
+}
+
+// Helpers below are duplicated in "monosize-bundler-webpack" (Rspack stats use the same format), keep them in sync
+
+/**
+ * Walks through chunk relations starting from an entry point and classifies chunks as initial (loaded with the entry
+ * point) or async (loaded on demand via `import()`).
+ */
+function getEntryChunks(
+  stats: Rspack.StatsCompilation,
+  entryName: string,
+): { initialChunks: Set<Rspack.StatsChunk>; asyncChunks: Set<Rspack.StatsChunk> } {
+  const { chunks = [], entrypoints = {} } = stats;
+  const entrypoint = entrypoints[entryName];
+
+  if (!entrypoint) {
+    throw new Error(`Entry point "${entryName}" is not found in Rspack stats`);
+  }
+
+  const chunksById = new Map(chunks.map(chunk => [chunk.id, chunk]));
+
+  const initialChunks = new Set<Rspack.StatsChunk>(
+    (entrypoint.chunks ?? []).flatMap(chunkId => chunksById.get(chunkId) ?? []),
+  );
+  const asyncChunks = new Set<Rspack.StatsChunk>();
+
+  function walk(chunk: Rspack.StatsChunk) {
+    (chunk.children ?? []).forEach(childId => {
+      const child = chunksById.get(childId);
+
+      if (child && !initialChunks.has(child) && !asyncChunks.has(child)) {
+        asyncChunks.add(child);
+        walk(child);
+      }
+    });
+  }
+
+  initialChunks.forEach(walk);
+
+  return { initialChunks, asyncChunks };
+}
+
+/**
+ * Returns files of initial & async chunks of an entry point. CSS files & assets belong to chunks that emit them.
+ */
+export function getChunksFromStats(stats: Rspack.StatsCompilation, entryName: string): BuildOutputChunk[] {
+  const { outputPath = '' } = stats;
+  const { initialChunks, asyncChunks } = getEntryChunks(stats, entryName);
+
+  const toOutputChunks = (chunksSet: Set<Rspack.StatsChunk>, type: BuildOutputChunk['type']) =>
+    [...chunksSet].flatMap(chunk =>
+      [...(chunk.files ?? []), ...(chunk.auxiliaryFiles ?? [])]
+        .filter(file => !file.endsWith('.map'))
+        .map(file => ({ path: path.resolve(outputPath, file), type })),
+    );
+
+  return [...toOutputChunks(initialChunks, 'initial'), ...toOutputChunks(asyncChunks, 'async')];
+}
+
+/**
+ * Returns modules of initial chunks of an entry point. Concatenated modules are split to original modules, sizes are
+ * sizes of sources as Rspack does not report sizes of modules in the output.
+ */
+export function getModulesFromStats(stats: Rspack.StatsCompilation, entryName: string): BuildOutputModule[] {
+  const { initialChunks } = getEntryChunks(stats, entryName);
+
+  const toOutputModules = (modules: Rspack.StatsModule[]): BuildOutputModule[] =>
+    modules.flatMap(module => {
+      if (module.modules) {
+        return toOutputModules(module.modules);
+      }
+
+      const modulePath = module.nameForCondition ?? module.name;
+
+      return modulePath && module.size ? [{ path: modulePath, size: module.size }] : [];
+    });
+
+  return [...initialChunks].flatMap(chunk => toOutputModules(chunk.modules ?? []));
+}
+
 export function createRspackBundler(configEnhancerCallback = DEFAULT_CONFIG_ENHANCER): BundlerAdapter {
   return {
     buildFixture: async function (options) {
@@ -130,8 +263,8 @@ export function createRspackBundler(configEnhancerCallback = DEFAULT_CONFIG_ENHA
       const artifactsDir = path.join(rootDir, 'dist');
       const fixtureName = path.basename(fixturePath);
 
-      const outputPath = path.join(artifactsDir, fixtureName.replace(/\.fixture\.js$/, '.output.js'));
-      const debugOutputPath = path.join(artifactsDir, fixtureName.replace(/\.fixture.js$/, '.debug.js'));
+      const outputPath = path.join(artifactsDir, fixtureName.replace(FIXTURE_SUFFIX_REGEX, '.output.js'));
+      const debugOutputPath = path.join(artifactsDir, fixtureName.replace(FIXTURE_SUFFIX_REGEX, '.debug.js'));
 
       const rsbuild = await createRsbuild({
         loadEnv: false,
@@ -148,11 +281,17 @@ export function createRspackBundler(configEnhancerCallback = DEFAULT_CONFIG_ENHA
         }),
       });
       const buildResult = await rsbuild.build({ watch: false });
+      const entryName = getEntryName(outputPath);
+      const stats = findCompilationStats(getCompilationsStats(buildResult.stats), entryName);
+      const chunks = getChunksFromStats(stats, entryName);
+      const modules = getModulesFromStats(stats, entryName);
 
       await buildResult.close();
 
       return {
         outputPath,
+        chunks,
+        modules,
         ...(debug && { debugOutputPath }),
       };
     },
@@ -172,8 +311,8 @@ export function createRspackBundler(configEnhancerCallback = DEFAULT_CONFIG_ENHA
         return {
           fixturePath,
           name,
-          outputPath: path.join(artifactsDir, fixtureName.replace(/\.fixture\.js$/, '.output.js')),
-          debugOutputPath: path.join(artifactsDir, fixtureName.replace(/\.fixture.js$/, '.debug.js')),
+          outputPath: path.join(artifactsDir, fixtureName.replace(FIXTURE_SUFFIX_REGEX, '.output.js')),
+          debugOutputPath: path.join(artifactsDir, fixtureName.replace(FIXTURE_SUFFIX_REGEX, '.debug.js')),
         };
       });
 
@@ -195,11 +334,20 @@ export function createRspackBundler(configEnhancerCallback = DEFAULT_CONFIG_ENHA
       });
 
       const buildResult = await rsbuild.build({ watch: false });
+      const compilations = getCompilationsStats(buildResult.stats);
+      const outputs = fixturesWithPaths.map(({ outputPath }) => {
+        const entryName = getEntryName(outputPath);
+        const stats = findCompilationStats(compilations, entryName);
+
+        return { chunks: getChunksFromStats(stats, entryName), modules: getModulesFromStats(stats, entryName) };
+      });
+
       await buildResult.close();
 
-      return fixturesWithPaths.map(({ name, outputPath, debugOutputPath }) => ({
+      return fixturesWithPaths.map(({ name, outputPath, debugOutputPath }, index) => ({
         name,
         outputPath,
+        ...outputs[index],
         ...(debug && {
           debugOutputPath,
         }),
@@ -5,7 +5,7 @@ import { beforeEach, describe, expect, it, vitest } from 'vitest';
 
 import { createEnvironmentConfig, createRspackBundler } from './createRspackBundler.mjs';
 
-async function setup(content: string): Promise<string> {
+async function setup(content: string, extension = 'js'): Promise<string> {
   const packageDir = tmp.dirSync({
     prefix: 'buildFixture',
     unsafeCleanup: true,
@@ -21,7 +21,7 @@ async function setup(content: string): Promise<string> {
   });
   const fixtureFile = tmp.fileSync({
     dir: fixtureDir.name,
-    name: 'test.fixture.js',
+    name: `test.fixture.${extension}`,
   });
 
   await fs.promises.writeFile(fixtureFile.name, content);
@@ -47,16 +47,20 @@ describe('createEnvironmentConfig', () => {
         "default": {
           "output": {
             "distPath": {
+              "css": "./",
+              "cssAsync": "async",
               "js": "./",
+              "jsAsync": "async",
               "root": "/workspace/dist",
             },
-            "emitAssets": false,
+            "emitAssets": true,
             "externals": {
               "react": "React",
               "react-dom": "ReactDOM",
             },
             "filename": {
-              "js": "my-fixture.js",
+              "css": "[name].css",
+              "js": "[name].js",
             },
             "minify": true,
             "target": "web",
@@ -68,7 +72,7 @@ describe('createEnvironmentConfig', () => {
           },
           "source": {
             "entry": {
-              "index": "/workspace/fixtures/my-fixture.js",
+              "my-fixture": "/workspace/fixtures/my-fixture.js",
             },
           },
         },
@@ -118,6 +122,107 @@ describe('buildFixture', () => {
     expect(output).toMatchSnapshot();
   });
 
+  it('builds TypeScript fixtures', async () => {
+    const fixturePath = await setup(
+      `
+    /** @jsx h */
+    const h = (type: string, props: Record<string, string>) => ({ type, props });
+    const title: string = 'Hello';
+
+    console.log(<div title={title} />);
+    `,
+      'tsx',
+    );
+    const result = await rspackBundler.buildFixture({
+      debug: false,
+      fixturePath,
+      quiet: true,
+    });
+    const output = await prepareOutput(result.outputPath);
+
+    expect(result.outputPath).toMatch(/monosize[\\|/]dist[\\|/]test\.output\.js/);
+    expect(output).toMatchSnapshot();
+  });
+
+  it('returns async chunks separately', async () => {
+    const fixturePath = await setup(`import('./lazy.js').then(m => console.log(m.foo));`);
+    await fs.promises.writeFile(fixturePath.replace('test.fixture.js', 'lazy.js'), `export const foo = 'foo';`);
+
+    const result = await rspackBundler.buildFixture({
+      debug: false,
+      fixturePath,
+      quiet: true,
+    });
+
+    expect(result.chunks).toEqual([
+      { path: result.outputPath, type: 'initial' },
+      { path: expect.stringMatching(/monosize[\\|/]dist[\\|/]async[\\|/]\d+\.js/), type: 'async' },
+    ]);
+    const asyncChunk = result.chunks?.[1];
+
+    if (!asyncChunk) {
+      throw new Error('An async chunk is not emitted');
+    }
+
+    expect(await prepareOutput(asyncChunk.path)).toMatchSnapshot();
+  });
+
+  it('returns CSS & assets as chunks', async () => {
+    const fixturePath = await setup(`import './styles.css'; console.log('styles');`);
+    await fs.promises.writeFile(
+      fixturePath.replace('test.fixture.js', 'styles.css'),
+      `.foo { background: url(./font.woff2) }`,
+    );
+    // Assets smaller than 4 kB are inlined by default
+    await fs.promises.writeFile(fixturePath.replace('test.fixture.js', 'font.woff2'), 'font'.repeat(2000));
+
+    const result = await rspackBundler.buildFixture({
+      debug: false,
+      fixturePath,
+      quiet: true,
+    });
+
+    expect(result.chunks).toHaveLength(3);
+    expect(result.chunks).toEqual(
+      expect.arrayContaining([
+        { path: result.outputPath, type: 'initial' },
+        { path: expect.stringMatching(/monosize[\\|/]dist[\\|/]test\.output\.css/), type: 'initial' },
+        { path: expect.stringMatching(/\.woff2$/), type: 'initial' },
+      ]),
+    );
+  });
+
+  it('returns modules of initial chunks with their sizes', async () => {
+    const fixturePath = await setup(`
+      import { foo } from './foo.js';
+      import('./lazy.js').then(m => console.log(m.bar));
+
+      console.log(foo);
+    `);
+    // Rspack inlines constant exports, a non-constant value keeps the module in the output
+    await fs.promises.writeFile(
+      fixturePath.replace('test.fixture.js', 'foo.js'),
+      `export const foo = 'foo' + Math.random();`,
+    );
+    await fs.promises.writeFile(fixturePath.replace('test.fixture.js', 'lazy.js'), `export const bar = 'bar';`);
+
+    const result = await rspackBundler.buildFixture({
+      debug: false,
+      fixturePath,
+      quiet: true,
+    });
+
+    expect(result.modules).toEqual(
+      expect.arrayContaining([
+        { path: fixturePath, size: expect.any(Number) },
+        { path: fixturePath.replace('test.fixture.js', 'foo.js'), size: expect.any(Number) },
+      ]),
+    );
+    expect(result.modules).not.toContainEqual(
+      expect.objectContaining({ path: fixturePath.replace('test.fixture.js', 'lazy.js') }),
+    );
+  });
+
   it('should throw on compilation errors', async () => {
     const fixturePath = await setup(`console..log(hello);`);
 
@@ -339,8 +444,14 @@ describe('buildFixtures', () => {
     expect(buildResults[1].debugOutputPath).toMatch(/monosize[\\|/]dist[\\|/]fixture2\.debug\.js/);
 
     // Verify debug files exist and contain the expected content
-    const debugOutput1 = await prepareOutput(buildResults[0].debugOutputPath!);
-    const debugOutput2 = await prepareOutput(buildResults[1].debugOutputPath!);
+    const [debugOutputPath1, debugOutputPath2] = buildResults.map(result => result.debugOutputPath);
+
+    if (!debugOutputPath1 || !debugOutputPath2) {
+      throw new Error('Debug outputs are not emitted');
+    }
+
+    const debugOutput1 = await prepareOutput(debugOutputPath1);
+    const debugOutput2 = await prepareOutput(debugOutputPath2);
 
     expect(debugOutput1).toMatchSnapshot();
     expect(debugOutput2).toMatchSnapshot();
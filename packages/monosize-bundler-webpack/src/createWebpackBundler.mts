@@ -1,20 +1,45 @@
-import type { BundlerAdapter } from 'monosize';
+import type { BuildOutputChunk, BundlerAdapter } from 'monosize';
 
 import { runTerser } from './runTerser.mjs';
 import { runWebpack, runWebpackMultiEntry } from './runWebpack.mjs';
 import type { WebpackBundlerOptions } from './types.mjs';
 
 const DEFAULT_CONFIG_ENHANCER: WebpackBundlerOptions = config => config;
+// Fixtures can be JS, TypeScript or TSX files
+const FIXTURE_SUFFIX_REGEX = /\.fixture\.(js|ts|tsx)$/;
+
+/**
+ * In debug mode webpack produces unminified output, Terser is used to minify async chunks in the same way as entry
+ * points.
+ */
+async function minifyAsyncChunks(fixturePath: string, chunks: BuildOutputChunk[], quiet: boolean) {
+  // Async chunks can be shared between entry points in batch mode, only JS files are minified with Terser
+  const asyncChunkPaths = new Set(
+    chunks.filter(chunk => chunk.type === 'async' && chunk.path.endsWith('.js')).map(chunk => chunk.path),
+  );
+
+  await Promise.all(
+    [...asyncChunkPaths].map(chunkPath =>
+      runTerser({
+        fixturePath,
+        sourcePath: chunkPath,
+        outputPath: chunkPath,
+        debugOutputPath: chunkPath.replace(/\.js$/, '.debug.js'),
+        quiet,
+      }),
+    ),
+  );
+}
 
 export function createWebpackBundler(configEnhancerCallback = DEFAULT_CONFIG_ENHANCER): BundlerAdapter {
   return {
     buildFixture: async function (options) {
       const { debug, fixturePath, quiet } = options;
 
-      const outputPath = fixturePath.replace(/\.fixture.js$/, '.output.js');
-      const debugOutputPath = fixturePath.replace(/\.fixture.js$/, '.debug.js');
+      const outputPath = fixturePath.replace(FIXTURE_SUFFIX_REGEX, '.output.js');
+      const debugOutputPath = fixturePath.replace(FIXTURE_SUFFIX_REGEX, '.debug.js');
 
-      await runWebpack({
+      const { chunks, modules } = await runWebpack({
         enhanceConfig: configEnhancerCallback,
         fixturePath,
         outputPath,
@@ -30,10 +55,13 @@ export function createWebpackBundler(configEnhancerCallback = DEFAULT_CONFIG_ENH
           debugOutputPath,
           quiet,
         });
+        await minifyAsyncChunks(fixturePath, chunks, quiet);
       }
 
       return {
         outputPath,
+        chunks,
+        modules,
         ...(debug && {
           debugOutputPath,
         }),
@@ -47,12 +75,12 @@ export function createWebpackBundler(configEnhancerCallback = DEFAULT_CONFIG_ENH
       const fixturesWithPaths = fixtures.map(({ fixturePath, name }) => ({
         fixturePath,
         name,
-        outputPath: fixturePath.replace(/\.fixture.js$/, '.output.js'),
-        debugOutputPath: fixturePath.replace(/\.fixture.js$/, '.debug.js'),
+        outputPath: fixturePath.replace(FIXTURE_SUFFIX_REGEX, '.output.js'),
+        debugOutputPath: fixturePath.replace(FIXTURE_SUFFIX_REGEX, '.debug.js'),
       }));
 
       // Build all fixtures in batch mode
-      await runWebpackMultiEntry({
+      const results = await runWebpackMultiEntry({
         enhanceConfig: configEnhancerCallback,
         fixtures: fixturesWithPaths,
         debug,
@@ -72,11 +100,18 @@ export function createWebpackBundler(configEnhancerCallback = DEFAULT_CONFIG_ENH
             });
           }),
         );
+        await minifyAsyncChunks(
+          fixturesWithPaths[0].fixturePath,
+          results.flatMap(({ chunks }) => chunks),
+          quiet,
+        );
       }
 
-      return fixturesWithPaths.map(({ name, outputPath, debugOutputPath }) => ({
+      return fixturesWithPaths.map(({ name, outputPath, debugOutputPath }, index) => ({
         name,
         outputPath,
+        chunks: results[index].chunks,
+        modules: results[index].modules,
         ...(debug && {
           debugOutputPath,
         }),
@@ -4,13 +4,13 @@ import { beforeEach, describe, expect, it, vitest } from 'vitest';
 
 import { createWebpackBundler } from './createWebpackBundler.mjs';
 
-async function setup(fixtureContent: string): Promise<string> {
-  const { fixtures } = await setupMultiple([{ name: 'test', content: fixtureContent }]);
+async function setup(fixtureContent: string, extension = 'js'): Promise<string> {
+  const { fixtures } = await setupMultiple([{ name: 'test', content: fixtureContent, extension }]);
   return fixtures[0].path;
 }
 
 async function setupMultiple(
-  fixtures: Array<{ name: string; content: string }>,
+  fixtures: Array<{ name: string; content: string; extension?: string }>,
 ): Promise<{ dir: string; fixtures: Array<{ name: string; path: string }> }> {
   const packageDir = tmp.dirSync({
     prefix: 'buildFixtures',
@@ -27,10 +27,10 @@ async function setupMultiple(
   });
 
   const fixtureResults = await Promise.all(
-    fixtures.map(async ({ name, content }) => {
+    fixtures.map(async ({ name, content, extension = 'js' }) => {
       const fixture = tmp.fileSync({
         dir: fixtureDir.name,
-        name: `${name}.fixture.js`,
+        name: `${name}.fixture.${extension}`,
       });
       await fs.promises.writeFile(fixture.name, content);
       return { name, path: fixture.name };
@@ -72,6 +72,102 @@ describe('buildFixture', () => {
     );
   });
 
+  it('builds TypeScript fixtures', async () => {
+    const fixturePath = await setup(
+      `
+    /** @jsx h */
+    const h = (type: string, props: Record<string, string>) => ({ type, props });
+    const title: string = 'Hello';
+
+    console.log(<div title={title} />);
+    `,
+      'tsx',
+    );
+    const buildResult = await webpackBundler.buildFixture({
+      debug: false,
+      fixturePath,
+      quiet: true,
+    });
+
+    expect(buildResult.outputPath).toMatch(/monosize[\\|/]test\.output\.js/);
+    expect(await fs.promises.readFile(buildResult.outputPath, 'utf-8')).toMatchInlineSnapshot(
+      `"(()=>{const o=(o,l)=>({type:o,props:l});console.log(o("div",{title:"Hello"}))})();"`,
+    );
+  });
+
+  it('returns async chunks separately', async () => {
+    const fixturePath = await setup(`
+      import('./lazy.js').then(m => console.log(m.foo));
+    `);
+    await fs.promises.writeFile(fixturePath.replace('test.fixture.js', 'lazy.js'), `export const foo = 'foo';`);
+
+    const buildResult = await webpackBundler.buildFixture({
+      debug: false,
+      fixturePath,
+      quiet: true,
+    });
+
+    expect(buildResult.chunks).toEqual([
+      { path: buildResult.outputPath, type: 'initial' },
+      { path: expect.stringMatching(/monosize[\\|/]\d+\.test\.output\.js/), type: 'async' },
+    ]);
+    const asyncChunk = buildResult.chunks?.[1];
+
+    if (!asyncChunk) {
+      throw new Error('An async chunk is not emitted');
+    }
+
+    expect(await fs.promises.readFile(asyncChunk.path, 'utf-8')).toMatchInlineSnapshot(
+      `""use strict";(self.webpackChunk=self.webpackChunk||[]).push([[620],{620:(s,e,o)=>{o.r(e),o.d(e,{foo:()=>c});const c="foo"}}]);"`,
+    );
+  });
+
+  it('returns assets as chunks', async () => {
+    const fixturePath = await setup(`
+      console.log(new URL('./icon.svg', import.meta.url));
+    `);
+    await fs.promises.writeFile(fixturePath.replace('test.fixture.js', 'icon.svg'), `<svg></svg>`);
+
+    const buildResult = await webpackBundler.buildFixture({
+      debug: false,
+      fixturePath,
+      quiet: true,
+    });
+
+    expect(buildResult.chunks).toEqual([
+      { path: buildResult.outputPath, type: 'initial' },
+      { path: expect.stringMatching(/monosize[\\|/]\w+\.svg/), type: 'initial' },
+    ]);
+  });
+
+  it('returns modules of initial chunks with their sizes', async () => {
+    const fixturePath = await setup(`
+      import { foo } from './foo.js';
+      import('./lazy.js').then(m => console.log(m.bar));
+
+      console.log(foo);
+    `);
+    await fs.promises.writeFile(fixturePath.replace('test.fixture.js', 'foo.js'), `export const foo = 'foo';`);
+    await fs.promises.writeFile(fixturePath.replace('test.fixture.js', 'lazy.js'), `export const bar = 'bar';`);
+
+    const buildResult = await webpackBundler.buildFixture({
+      debug: false,
+      fixturePath,
+      quiet: true,
+    });
+
+    expect(buildResult.modules).toEqual(
+      expect.arrayContaining([
+        { path: fixturePath, size: expect.any(Number) },
+        { path: fixturePath.replace('test.fixture.js', 'foo.js'), size: expect.any(Number) },
+        { path: 'webpack/runtime/jsonp chunk loading', size: expect.any(Number) },
+      ]),
+    );
+    expect(buildResult.modules).not.toContainEqual(
+      expect.objectContaining({ path: fixturePath.replace('test.fixture.js', 'lazy.js') }),
+    );
+  });
+
   it('should throw on compilation errors', async () => {
     const fixturePath = await setup(`import something from 'unknown-pkg'`);
     await expect(
@@ -128,8 +224,12 @@ describe('buildFixture', () => {
       expect(buildResult.outputPath).toMatch(/monosize[\\|/]test\.output\.js/);
       expect(buildResult.debugOutputPath).toMatch(/monosize[\\|/]test\.debug\.js/);
 
+      if (!buildResult.debugOutputPath) {
+        throw new Error('A debug output is not emitted');
+      }
+
       const output = await fs.promises.readFile(buildResult.outputPath, 'utf-8');
-      const debugOutput = await fs.promises.readFile(buildResult.debugOutputPath!, 'utf-8');
+      const debugOutput = await fs.promises.readFile(buildResult.debugOutputPath, 'utf-8');
 
       expect(output).toMatchInlineSnapshot(`"(()=>{const o="foo";console.log((function(){return o}))})();"`);
 
@@ -188,7 +288,7 @@ describe('buildFixtures', () => {
       },
     ]);
 
-    const buildResults = await webpackBundler.buildFixtures!({
+    const buildResults = await webpackBundler.buildFixtures({
       fixtures: fixtures.map(f => ({ fixturePath: f.path, name: f.name })),
       debug: false,
       quiet: true,
@@ -246,7 +346,7 @@ describe('buildFixtures', () => {
       },
     ]);
 
-    const buildResults = await webpackBundler.buildFixtures!({
+    const buildResults = await webpackBundler.buildFixtures({
       fixtures: fixtures.map(f => ({ fixturePath: f.path, name: f.name })),
       debug: true,
       quiet: true,
@@ -259,8 +359,14 @@ describe('buildFixtures', () => {
     expect(buildResults[1].debugOutputPath).toMatch(/monosize[\\|/]fixture2\.debug\.js/);
 
     // Verify debug files exist and contain the expected content
-    const debugOutput1 = await fs.promises.readFile(buildResults[0].debugOutputPath!, 'utf-8');
-    const debugOutput2 = await fs.promises.readFile(buildResults[1].debugOutputPath!, 'utf-8');
+    const [debugOutputPath1, debugOutputPath2] = buildResults.map(result => result.debugOutputPath);
+
+    if (!debugOutputPath1 || !debugOutputPath2) {
+      throw new Error('Debug outputs are not emitted');
+    }
+
+    const debugOutput1 = await fs.promises.readFile(debugOutputPath1, 'utf-8');
+    const debugOutput2 = await fs.promises.readFile(debugOutputPath2, 'utf-8');
 
     expect(debugOutput1).toMatchInlineSnapshot(`
       "/******/ (() => {
@@ -297,7 +403,7 @@ describe('buildFixtures', () => {
     ]);
 
     await expect(
-      webpackBundler.buildFixtures!({
+      webpackBundler.buildFixtures({
         fixtures: fixtures.map(f => ({ fixturePath: f.path, name: f.name })),
         debug: false,
         quiet: true,
@@ -365,7 +471,7 @@ describe('buildFixtures', () => {
 
     // Build using batch mode (buildFixtures)
     const { fixtures: batchFixtures } = await setupMultiple(fixtureContents);
-    const batchResults = await webpackBundler.buildFixtures!({
+    const batchResults = await webpackBundler.buildFixtures({
       fixtures: batchFixtures.map(f => ({ fixturePath: f.path, name: f.name })),
       debug: false,
       quiet: true,
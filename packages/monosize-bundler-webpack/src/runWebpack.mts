@@ -1,7 +1,9 @@
+import type { BuildOutputChunk, BuildOutputModule } from 'monosize';
+import { createRequire } from 'node:module';
 import path from 'node:path';
 import TerserWebpackPlugin from 'terser-webpack-plugin';
 import webpack from 'webpack';
-import type { Configuration as WebpackConfiguration } from 'webpack';
+import type { Configuration as WebpackConfiguration, StatsChunk, StatsCompilation, StatsModule } from 'webpack';
 
 import { WebpackBundlerOptions } from './types.mjs';
 
@@ -22,6 +24,20 @@ function createBaseWebpackConfig(debug: boolean): Partial<WebpackConfiguration>
       'react-dom': 'ReactDOM',
     },
 
+    module: {
+      rules: [
+        {
+          // TypeScript fixtures are transpiled with esbuild, only types & JSX are transformed
+          test: /\.fixture\.tsx?$/,
+          // Loaders are resolved from a context of a build by default, i.e. from a package with fixtures
+          loader: createRequire(import.meta.url).resolve('esbuild-loader'),
+          options: {
+            target: 'esnext',
+          },
+        },
+      ],
+    },
+
     performance: {
       hints: false,
     },
@@ -53,6 +69,10 @@ function createBaseWebpackConfig(debug: boolean): Partial<WebpackConfiguration>
   };
 }
 
+function getEntryName(outputPath: string): string {
+  return path.basename(outputPath, path.extname(outputPath));
+}
+
 function createWebpackConfig(fixturePath: string, outputPath: string, debug: boolean): WebpackConfiguration {
   return {
     ...createBaseWebpackConfig(debug),
@@ -74,14 +94,10 @@ function createMultiEntryWebpackConfig(
   debug: boolean,
 ): WebpackConfiguration {
   // Build entry object with keys derived from output filenames
-  const entry = fixtures.reduce<Record<string, string>>(
-    (acc, { fixturePath, outputPath }) => {
-      const entryName = path.basename(outputPath, path.extname(outputPath));
-      acc[entryName] = fixturePath;
-      return acc;
-    },
-    {},
-  );
+  const entry = fixtures.reduce<Record<string, string>>((acc, { fixturePath, outputPath }) => {
+    acc[getEntryName(outputPath)] = fixturePath;
+    return acc;
+  }, {});
 
   // All fixtures should output to the same directory
   const outputDir = path.dirname(fixtures[0].outputPath);
@@ -101,10 +117,88 @@ function createMultiEntryWebpackConfig(
   } as WebpackConfiguration;
 }
 
+// Helpers below are duplicated in "monosize-bundler-rspack" (Rspack stats use the same format), keep them in sync
+
+/**
+ * Walks through chunk relations starting from an entry point and classifies chunks as initial (loaded with the entry
+ * point) or async (loaded on demand via `import()`).
+ */
+function getEntryChunks(
+  stats: StatsCompilation,
+  entryName: string,
+): { initialChunks: Set<StatsChunk>; asyncChunks: Set<StatsChunk> } {
+  const { chunks = [], entrypoints = {} } = stats;
+  const entrypoint = entrypoints[entryName];
+
+  if (!entrypoint) {
+    throw new Error(`Entry point "${entryName}" is not found in webpack stats`);
+  }
+
+  const chunksById = new Map(chunks.map(chunk => [chunk.id, chunk]));
+
+  const initialChunks = new Set<StatsChunk>(
+    (entrypoint.chunks ?? []).flatMap(chunkId => chunksById.get(chunkId) ?? []),
+  );
+  const asyncChunks = new Set<StatsChunk>();
+
+  function walk(chunk: StatsChunk) {
+    (chunk.children ?? []).forEach(childId => {
+      const child = chunksById.get(childId);
+
+      if (child && !initialChunks.has(child) && !asyncChunks.has(child)) {
+        asyncChunks.add(child);
+        walk(child);
+      }
+    });
+  }
+
+  initialChunks.forEach(walk);
+
+  return { initialChunks, asyncChunks };
+}
+
+/**
+ * Returns files of initial & async chunks of an entry point. CSS files & assets belong to chunks that emit them.
+ */
+export function getChunksFromStats(stats: StatsCompilation, entryName: string): BuildOutputChunk[] {
+  const { outputPath = '' } = stats;
+  const { initialChunks, asyncChunks } = getEntryChunks(stats, entryName);
+
+  const toOutputChunks = (chunksSet: Set<StatsChunk>, type: BuildOutputChunk['type']) =>
+    [...chunksSet].flatMap(chunk =>
+      [...(chunk.files ?? []), ...(chunk.auxiliaryFiles ?? [])]
+        .filter(file => !file.endsWith('.map'))
+        .map(file => ({ path: path.resolve(outputPath, file), type })),
+    );
+
+  return [...toOutputChunks(initialChunks, 'initial'), ...toOutputChunks(asyncChunks, 'async')];
+}
+
+/**
+ * Returns modules of initial chunks of an entry point. Concatenated modules are split to original modules, sizes are
+ * sizes of sources as webpack does not report sizes of modules in the output.
+ */
+export function getModulesFromStats(stats: StatsCompilation, entryName: string): BuildOutputModule[] {
+  const { initialChunks } = getEntryChunks(stats, entryName);
+
+  const toOutputModules = (modules: StatsModule[]): BuildOutputModule[] =>
+    modules.flatMap(module => {
+      if (module.modules) {
+        return toOutputModules(module.modules);
+      }
+
+      const modulePath = module.nameForCondition ?? module.name;
+
+      return modulePath && module.size ? [{ path: modulePath, size: module.size }] : [];
+    });
+
+  return [...initialChunks].flatMap(chunk => toOutputModules(chunk.modules ?? []));
+}
+
 /**
  * Shared function to compile a webpack configuration.
  */
-async function compileWebpackConfig(config: WebpackConfiguration): Promise<null> {
+async function compileWebpackConfig(config: WebpackConfiguration): Promise<StatsCompilation> {
   return new Promise((resolve, reject) => {
     const compiler = webpack(config);
 
@@ -116,7 +210,24 @@ async function compileWebpackConfig(config: WebpackConfiguration): Promise<null>
         reject(result.compilation.errors.join('\n'));
       }
 
-      resolve(null);
+      resolve(
+        result?.toJson({
+          all: false,
+          chunks: true,
+          chunkRelations: true,
+          chunkModules: true,
+          chunkModulesSpace: Infinity,
+          // Modules that are concatenated or grouped are listed separately
+          nestedModules: true,
+          nestedModulesSpace: Infinity,
+          dependentModules: true,
+          orphanModules: true,
+          runtimeModules: true,
+          entrypoints: true,
+          ids: true,
+          outputPath: true,
+        }) ?? {},
+      );
     });
   });
 }
@@ -131,10 +242,15 @@ type RunWebpackOptions = {
   quiet: boolean;
 };
 
-export async function runWebpack(options: RunWebpackOptions): Promise<null> {
+export async function runWebpack(
+  options: RunWebpackOptions,
+): Promise<{ chunks: BuildOutputChunk[]; modules: BuildOutputModule[] }> {
   const { enhanceConfig, fixturePath, outputPath, debug } = options;
   const webpackConfig = enhanceConfig(createWebpackConfig(fixturePath, outputPath, debug));
-  return compileWebpackConfig(webpackConfig);
+  const stats = await compileWebpackConfig(webpackConfig);
+
+  // A single entry point is named "main" by webpack
+  return { chunks: getChunksFromStats(stats, 'main'), modules: getModulesFromStats(stats, 'main') };
 }
 
 type RunWebpackMultiEntryOptions = {
@@ -146,8 +262,15 @@ type RunWebpackMultiEntryOptions = {
   quiet: boolean;
 };
 
-export async function runWebpackMultiEntry(options: RunWebpackMultiEntryOptions): Promise<null> {
+export async function runWebpackMultiEntry(
+  options: RunWebpackMultiEntryOptions,
+): Promise<Array<{ chunks: BuildOutputChunk[]; modules: BuildOutputModule[] }>> {
   const { enhanceConfig, fixtures, debug } = options;
   const webpackConfig = enhanceConfig(createMultiEntryWebpackConfig(fixtures, debug));
-  return compileWebpackConfig(webpackConfig);
+  const stats = await compileWebpackConfig(webpackConfig);
+
+  return fixtures.map(({ outputPath }) => ({
+    chunks: getChunksFromStats(stats, getEntryName(outputPath)),
+    modules: getModulesFromStats(stats, getEntryName(outputPath)),
+  }));
 }
@@ -7,6 +7,7 @@ export const sampleReport: BundleSizeReport = [
     path: 'foo.fixture.js',
     minifiedSize: 1000,
     gzippedSize: 100,
+    brotliSize: 80,
   },
   {
     packageName: '@scope/bar-package',
@@ -14,6 +15,7 @@ export const sampleReport: BundleSizeReport = [
     path: 'bar.fixture.js',
     minifiedSize: 1000,
     gzippedSize: 100,
+    brotliSize: 80,
   },
 ];
 
@@ -23,4 +25,5 @@ export const bigReport: BundleSizeReport = new Array(200).fill(null).map((_, ind
   path: `foo-${index}.fixture.js`,
   minifiedSize: 1000,
   gzippedSize: 100,
+  brotliSize: 80,
 }));
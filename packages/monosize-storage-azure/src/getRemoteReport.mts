@@ -3,18 +3,36 @@ import type { BundleSizeReportEntry, StorageAdapter } from 'monosize';
 
 import type { AzureStorageConfig } from './types.mjs';
 
-const MAX_HTTP_ATTEMPT_COUNT = 5;
+export const MAX_HTTP_ATTEMPT_COUNT = 5;
+
+export type RemoteReportEntity = Omit<BundleSizeReportEntry, 'totalSizes' | 'assetSizes' | 'duplicatePackages'> & {
+  commitSHA: string;
+  totalSizes?: string;
+  assetSizes?: string;
+  duplicatePackages?: string;
+};
+
+/**
+ * Converts an entity returned by the endpoint to a report entry, nested properties are stored as JSON strings.
+ */
+export function parseRemoteReportEntity(entity: RemoteReportEntity): BundleSizeReportEntry {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { commitSHA, totalSizes, assetSizes, duplicatePackages, ...rest } = entity;
+
+  return {
+    ...rest,
+    ...(totalSizes && { totalSizes: JSON.parse(totalSizes) }),
+    ...(assetSizes && { assetSizes: JSON.parse(assetSizes) }),
+    ...(duplicatePackages && { duplicatePackages: JSON.parse(duplicatePackages) }),
+  };
+}
 
 export function createGetRemoteReport(config: AzureStorageConfig) {
   async function getRemoteReport(branch: string, attempt = 1): ReturnType<StorageAdapter['getRemoteReport']> {
     try {
       const response = await fetch(`${config.endpoint}?branch=${branch}`);
-      const result = (await response.json()) as Array<BundleSizeReportEntry & { commitSHA: string }>;
-
-      const remoteReport = result.map(entity => {
-        const { commitSHA, ...rest } = entity;
-        return rest;
-      });
+      const result = (await response.json()) as RemoteReportEntity[];
+      const remoteReport = result.map(parseRemoteReportEntity);
       const { commitSHA } = result[result.length - 1];
 
       return { commitSHA, remoteReport };
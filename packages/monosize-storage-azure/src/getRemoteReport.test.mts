@@ -35,6 +35,31 @@ describe('getRemoteReport', () => {
     expect(remoteReport).toEqual(sampleReport);
   });
 
+  it('parses nested properties of entries', async () => {
+    const totalSizes = { minifiedSize: 2000, gzippedSize: 200, brotliSize: 160 };
+    const assetSizes = { css: { minifiedSize: 500, gzippedSize: 50, brotliSize: 40 } };
+    const duplicatePackages = [{ name: 'react', copies: [{ path: 'node_modules/react', version: '18.0.0' }] }];
+    const value: Partial<Response> = {
+      json: () => {
+        return Promise.resolve([
+          {
+            ...sampleReport[0],
+            totalSizes: JSON.stringify(totalSizes),
+            assetSizes: JSON.stringify(assetSizes),
+            duplicatePackages: JSON.stringify(duplicatePackages),
+            commitSHA: 'sha',
+          },
+        ]);
+      },
+    };
+    fetch.mockImplementation(() => Promise.resolve(value));
+
+    const getRemoteReport = createGetRemoteReport(testConfig);
+    const { remoteReport } = await getRemoteReport('main');
+
+    expect(remoteReport).toEqual([{ ...sampleReport[0], totalSizes, assetSizes, duplicatePackages }]);
+  });
+
   it('retries to fetch a report', async () => {
     const value: Partial<Response> = {
       json: () => {
@@ -0,0 +1,40 @@
+import pc from 'picocolors';
+import type { StorageAdapter } from 'monosize';
+
+import { MAX_HTTP_ATTEMPT_COUNT, parseRemoteReportEntity, type RemoteReportEntity } from './getRemoteReport.mjs';
+import type { AzureStorageConfig } from './types.mjs';
+
+export function createGetReportForCommit(config: AzureStorageConfig) {
+  async function getReportForCommit(
+    commitSHA: string,
+    attempt = 1,
+  ): ReturnType<NonNullable<StorageAdapter['getReportForCommit']>> {
+    try {
+      const response = await fetch(`${config.endpoint}?commit=${commitSHA}`);
+      const result = (await response.json()) as RemoteReportEntity[];
+
+      // An endpoint that doesn't support reports of commits could respond with a report of another commit
+      if (result.length === 0 || result.some(entity => entity.commitSHA !== commitSHA)) {
+        return { commitSHA: '', remoteReport: [] };
+      }
+
+      return { commitSHA, remoteReport: result.map(parseRemoteReportEntity) };
+    } catch (err) {
+      console.log([pc.yellow('[w]'), (err as Error).toString()].join(' '));
+      console.log([pc.yellow('[w]'), 'Failed to fetch report from the remote. Retrying...'].join(' '));
+
+      if (attempt >= MAX_HTTP_ATTEMPT_COUNT) {
+        console.error(
+          [pc.red('[e]'), 'Exceeded 5 attempts to fetch reports, please check previously reported warnings...'].join(
+            ' ',
+          ),
+        );
+        throw err;
+      }
+
+      return getReportForCommit(commitSHA, attempt + 1);
+    }
+  }
+
+  return getReportForCommit;
+}
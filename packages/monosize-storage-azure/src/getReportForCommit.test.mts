@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it, vitest } from 'vitest';
+
+import { createGetReportForCommit } from './getReportForCommit.mjs';
+import type { AzureStorageConfig } from './types.mjs';
+import { sampleReport } from './__fixture__/sampleReports.mjs';
+
+const fetch = vitest.hoisted(() => vitest.fn());
+global.fetch = fetch;
+
+const testConfig: AzureStorageConfig = {
+  endpoint: 'https://localhost',
+};
+
+function noop() {
+  /* does nothing */
+}
+
+function mockResponse(result: unknown) {
+  const value: Partial<Response> = {
+    json: () => {
+      return Promise.resolve(result);
+    },
+  };
+
+  return Promise.resolve(value);
+}
+
+describe('getReportForCommit', () => {
+  beforeEach(() => {
+    vitest.resetAllMocks();
+  });
+
+  it('fetches a report of a commit', async () => {
+    fetch.mockImplementation(() => mockResponse(sampleReport.map(entry => ({ ...entry, commitSHA: 'sha' }))));
+
+    const getReportForCommit = createGetReportForCommit(testConfig);
+    const { commitSHA, remoteReport } = await getReportForCommit('sha');
+
+    expect(fetch).toHaveBeenCalledWith('https://localhost?commit=sha');
+    expect(commitSHA).toBe('sha');
+    expect(remoteReport).toEqual(sampleReport);
+  });
+
+  it('returns an empty report if there is no report for a commit', async () => {
+    fetch.mockImplementation(() => mockResponse([]));
+
+    const getReportForCommit = createGetReportForCommit(testConfig);
+
+    expect(await getReportForCommit('sha')).toEqual({ commitSHA: '', remoteReport: [] });
+  });
+
+  it('returns an empty report if a report of another commit is returned', async () => {
+    fetch.mockImplementation(() => mockResponse(sampleReport.map(entry => ({ ...entry, commitSHA: 'other-sha' }))));
+
+    const getReportForCommit = createGetReportForCommit(testConfig);
+
+    expect(await getReportForCommit('sha')).toEqual({ commitSHA: '', remoteReport: [] });
+  });
+
+  it('retries to fetch a report', async () => {
+    fetch
+      .mockImplementationOnce(() => Promise.reject(new Error('A fetch error')))
+      .mockImplementation(() => mockResponse(sampleReport.map(entry => ({ ...entry, commitSHA: 'sha' }))));
+
+    vitest.spyOn(console, 'log').mockImplementation(noop);
+
+    const getReportForCommit = createGetReportForCommit(testConfig);
+    const { remoteReport } = await getReportForCommit('sha');
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(remoteReport).toEqual(sampleReport);
+  });
+});
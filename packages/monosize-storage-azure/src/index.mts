@@ -1,12 +1,14 @@
 import type { StorageAdapter } from 'monosize';
 
 import { createGetRemoteReport } from './getRemoteReport.mjs';
+import { createGetReportForCommit } from './getReportForCommit.mjs';
 import { createUploadReportToRemote } from './uploadReportToRemote.mjs';
 import type { AzureStorageConfig } from './types.mjs';
 
 function createAzureStorage(config: AzureStorageConfig): StorageAdapter {
   return {
     getRemoteReport: createGetRemoteReport(config),
+    getReportForCommit: createGetReportForCommit(config),
     uploadReportToRemote: createUploadReportToRemote(config),
   };
 }
@@ -13,4 +13,9 @@ export type AzureStorageConfig = {
    * @default 'latest' table name
    */
   tableName?: string;
+  /**
+   * Time in seconds to keep reports of commits, older reports are deleted on uploads.
+   * @default 90 days
+   */
+  commitReportsTTL?: number;
 };
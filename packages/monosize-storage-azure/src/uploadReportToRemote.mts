@@ -1,10 +1,11 @@
-import { odata, TableTransaction } from '@azure/data-tables';
+import { odata, TableTransaction, type TableClient } from '@azure/data-tables';
 import { BundleSizeReportEntry, BundleSizeReport, StorageAdapter } from 'monosize';
 import pc from 'picocolors';
 import { createTableClient } from './createTableClient.mjs';
 import type { AzureStorageConfig } from './types.mjs';
 
 export const ENTRIES_PER_CHUNK = 90;
+export const DEFAULT_COMMIT_REPORTS_TTL = 90 * 24 * 60 * 60;
 
 export function createRowKey(entry: BundleSizeReportEntry): string {
   // Azure does not support slashes in "rowKey"
@@ -16,8 +17,70 @@ export function splitArrayToChunks<T>(arr: T[], size: number): T[][] {
   return [...Array(Math.ceil(arr.length / size))].map((_, i) => arr.slice(i * size, (i + 1) * size));
 }
 
+export function createCommitPartitionKey(commitSHA: string): string {
+  return `commit-${commitSHA}`;
+}
+
+function createEntity(entry: BundleSizeReportEntry, partitionKey: string, commitSHA: string) {
+  // Sizes are stored as separate properties, their set depends on metrics defined in a config
+  // Sizes of modules are not stored as they could exceed limits of Azure Tables on sizes of properties & batches
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { name, packageName, path, totalSizes, assetSizes, duplicatePackages, modules, ...sizes } = entry;
+
+  return {
+    partitionKey,
+    rowKey: createRowKey(entry),
+
+    name,
+    packageName,
+    path,
+
+    ...sizes,
+    // Azure Tables don't support nested objects
+    ...(totalSizes && { totalSizes: JSON.stringify(totalSizes) }),
+    ...(assetSizes && { assetSizes: JSON.stringify(assetSizes) }),
+    ...(duplicatePackages && { duplicatePackages: JSON.stringify(duplicatePackages) }),
+
+    commitSHA,
+  };
+}
+
+/**
+ * Azure Tables don't expire entities, returns transactions that delete reports of commits older than a TTL. A
+ * transaction can't contain entities of different partitions, so there is a transaction per commit.
+ */
+async function getExpiredCommitReportsTransactions(
+  client: TableClient,
+  options: { commitSHA: string; ttl: number },
+): Promise<TableTransaction[]> {
+  const { commitSHA, ttl } = options;
+  const transactions = new Map<string, TableTransaction>();
+  const currentPartitionKey = createCommitPartitionKey(commitSHA);
+  const expiredBefore = new Date(Date.now() - ttl * 1000);
+  const entitiesIterator = client.listEntities({
+    queryOptions: {
+      // "." follows "-" in ordering of strings, i.e. the range contains all partitions with the "commit-" prefix
+      filter: odata`PartitionKey ge ${'commit-'} and PartitionKey lt ${'commit.'} and PartitionKey ne ${currentPartitionKey} and Timestamp lt ${expiredBefore}`,
+    },
+  });
+
+  for await (const entity of entitiesIterator) {
+    const partitionKey = entity.partitionKey as string;
+    const transaction = transactions.get(partitionKey) ?? new TableTransaction();
+
+    transaction.deleteEntity(partitionKey, entity.rowKey as string);
+    transactions.set(partitionKey, transaction);
+  }
+
+  return [...transactions.values()];
+}
+
 export function createUploadReportToRemote(config: AzureStorageConfig) {
-  const { authType = 'AzureNamedKeyCredential', tableName = 'latest' } = config;
+  const {
+    authType = 'AzureNamedKeyCredential',
+    tableName = 'latest',
+    commitReportsTTL = DEFAULT_COMMIT_REPORTS_TTL,
+  } = config;
 
   async function uploadReportToRemote(
     branch: string,
@@ -57,25 +120,25 @@ export function createUploadReportToRemote(config: AzureStorageConfig) {
     }
 
     localReport.forEach(entry => {
-      transaction.upsertEntity(
-        {
-          partitionKey: branch,
-          rowKey: createRowKey(entry),
-
-          name: entry.name,
-          packageName: entry.packageName,
-          path: entry.path,
+      transaction.upsertEntity(createEntity(entry, branch, commitSHA), 'Replace');
+    });
 
-          minifiedSize: entry.minifiedSize,
-          gzippedSize: entry.gzippedSize,
+    // Reports of commits are stored in separate partitions, a transaction can't contain entities of different partitions
+    const commitTransaction = new TableTransaction();
 
-          commitSHA,
-        },
-        'Replace',
-      );
+    localReport.forEach(entry => {
+      commitTransaction.upsertEntity(createEntity(entry, createCommitPartitionKey(commitSHA), commitSHA), 'Replace');
     });
 
-    const chunks = splitArrayToChunks(transaction.actions, ENTRIES_PER_CHUNK);
+    const expiredTransactions = await getExpiredCommitReportsTransactions(client, { commitSHA, ttl: commitReportsTTL });
+
+    const chunks = [
+      ...splitArrayToChunks(transaction.actions, ENTRIES_PER_CHUNK),
+      ...splitArrayToChunks(commitTransaction.actions, ENTRIES_PER_CHUNK),
+      ...expiredTransactions.flatMap(expiredTransaction =>
+        splitArrayToChunks(expiredTransaction.actions, ENTRIES_PER_CHUNK),
+      ),
+    ];
 
     for (const chunk of chunks) {
       await client.submitTransaction(chunk);
@@ -1,9 +1,11 @@
 import { beforeEach, beforeAll, describe, expect, it, vitest, type Mock } from 'vitest';
 import {
+  createCommitPartitionKey,
   createRowKey,
   ENTRIES_PER_CHUNK,
   splitArrayToChunks,
   createUploadReportToRemote,
+  DEFAULT_COMMIT_REPORTS_TTL,
 } from './uploadReportToRemote.mjs';
 
 import { sampleReport, bigReport } from './__fixture__/sampleReports.mjs';
@@ -11,7 +13,10 @@ import { BundleSizeReportEntry } from 'monosize';
 import type { AzureStorageConfig } from './types.mjs';
 
 const getRemoteReport = vitest.hoisted(
-  () => vitest.fn() as Mock<Array<BundleSizeReportEntry & { partitionKey: string; rowKey: string }>>,
+  () =>
+    vitest.fn() as Mock<
+      (options: unknown) => Array<BundleSizeReportEntry & { partitionKey: string; rowKey: string }> | undefined
+    >,
 );
 const submitTransaction = vitest.hoisted(() => vitest.fn());
 
@@ -21,8 +26,9 @@ const testConfig: AzureStorageConfig = {
 };
 
 vitest.mock('@azure/data-tables', async () => {
-  const listEntities = () => {
-    const data = getRemoteReport();
+  const listEntities = (options: unknown) => {
+    // Entities of branches are listed first, then expired reports of commits
+    const data = [...(getRemoteReport(options) ?? [])];
 
     return {
       [Symbol.asyncIterator]: () => ({
@@ -96,7 +102,7 @@ describe('uploadReportToRemote', () => {
     const uploadReportToRemote = createUploadReportToRemote(testConfig);
     await uploadReportToRemote(branchName, commitSHA, localReport);
 
-    expect(submitTransaction).toHaveBeenCalledTimes(1);
+    expect(submitTransaction).toHaveBeenCalledTimes(2);
     expect(submitTransaction).toHaveBeenCalledWith([
       ['delete', { partitionKey: 'main', rowKey: createRowKey(sampleReport[1]) }],
       [
@@ -107,6 +113,98 @@ describe('uploadReportToRemote', () => {
     ]);
   });
 
+  it('uploads a report of a commit to a separate partition', async () => {
+    getRemoteReport.mockReturnValueOnce([]);
+    const uploadReportToRemote = createUploadReportToRemote(testConfig);
+    await uploadReportToRemote(branchName, commitSHA, sampleReport);
+
+    expect(createCommitPartitionKey(commitSHA)).toBe('commit-commit-sha');
+    expect(submitTransaction).toHaveBeenCalledTimes(2);
+    expect(submitTransaction).toHaveBeenLastCalledWith(
+      sampleReport.map(entry => [
+        'upsert',
+        { ...entry, commitSHA, partitionKey: 'commit-commit-sha', rowKey: createRowKey(entry) },
+        'Replace',
+      ]),
+    );
+  });
+
+  it('deletes expired reports of commits', async () => {
+    vitest.useFakeTimers({ now: new Date('2024-06-01T00:00:00Z') });
+
+    const expiredReports = [
+      { ...sampleReport[0], partitionKey: 'commit-old-sha-1', rowKey: createRowKey(sampleReport[0]) },
+      { ...sampleReport[1], partitionKey: 'commit-old-sha-1', rowKey: createRowKey(sampleReport[1]) },
+      { ...sampleReport[0], partitionKey: 'commit-old-sha-2', rowKey: createRowKey(sampleReport[0]) },
+    ];
+
+    getRemoteReport.mockReturnValueOnce([]).mockReturnValueOnce(expiredReports);
+    const uploadReportToRemote = createUploadReportToRemote({ ...testConfig, commitReportsTTL: 24 * 60 * 60 });
+    await uploadReportToRemote(branchName, commitSHA, sampleReport);
+
+    vitest.useRealTimers();
+
+    expect(DEFAULT_COMMIT_REPORTS_TTL).toBe(90 * 24 * 60 * 60);
+    expect(getRemoteReport).toHaveBeenLastCalledWith({
+      queryOptions: {
+        filter:
+          "PartitionKey ge 'commit-' and PartitionKey lt 'commit.' and PartitionKey ne 'commit-commit-sha' and Timestamp lt datetime'2024-05-31T00:00:00.000Z'",
+      },
+    });
+    // A transaction can't contain entities of different partitions
+    expect(submitTransaction).toHaveBeenCalledTimes(4);
+    expect(submitTransaction).toHaveBeenNthCalledWith(3, [
+      ['delete', { partitionKey: 'commit-old-sha-1', rowKey: createRowKey(sampleReport[0]) }],
+      ['delete', { partitionKey: 'commit-old-sha-1', rowKey: createRowKey(sampleReport[1]) }],
+    ]);
+    expect(submitTransaction).toHaveBeenNthCalledWith(4, [
+      ['delete', { partitionKey: 'commit-old-sha-2', rowKey: createRowKey(sampleReport[0]) }],
+    ]);
+  });
+
+  it('serializes nested properties of entries', async () => {
+    const totalSizes = { minifiedSize: 2000, gzippedSize: 200, brotliSize: 160 };
+    const assetSizes = { css: { minifiedSize: 500, gzippedSize: 50, brotliSize: 40 } };
+    const duplicatePackages = [{ name: 'react', copies: [{ path: 'node_modules/react', version: '18.0.0' }] }];
+    const localReport = [{ ...sampleReport[0], totalSizes, assetSizes, duplicatePackages }];
+
+    getRemoteReport.mockReturnValueOnce([]);
+    const uploadReportToRemote = createUploadReportToRemote(testConfig);
+    await uploadReportToRemote(branchName, commitSHA, localReport);
+
+    expect(submitTransaction).toHaveBeenCalledWith([
+      [
+        'upsert',
+        {
+          ...sampleReport[0],
+          totalSizes: JSON.stringify(totalSizes),
+          assetSizes: JSON.stringify(assetSizes),
+          duplicatePackages: JSON.stringify(duplicatePackages),
+          commitSHA,
+          partitionKey: 'main',
+          rowKey: createRowKey(sampleReport[0]),
+        },
+        'Replace',
+      ],
+    ]);
+  });
+
+  it('does not store sizes of modules', async () => {
+    const localReport = [{ ...sampleReport[0], modules: { 'src/index.js': 1000 } }];
+
+    getRemoteReport.mockReturnValueOnce([]);
+    const uploadReportToRemote = createUploadReportToRemote(testConfig);
+    await uploadReportToRemote(branchName, commitSHA, localReport);
+
+    expect(submitTransaction).toHaveBeenCalledWith([
+      [
+        'upsert',
+        { ...sampleReport[0], commitSHA, partitionKey: 'main', rowKey: createRowKey(sampleReport[0]) },
+        'Replace',
+      ],
+    ]);
+  });
+
   it('performs chunked transactions if local report is too big', async () => {
     const remoteReport = bigReport.slice(0, 1).map(entry => ({
       ...entry,
@@ -120,7 +218,8 @@ describe('uploadReportToRemote', () => {
     const uploadReportToRemote = createUploadReportToRemote(testConfig);
     await uploadReportToRemote(branchName, commitSHA, localReport);
 
-    expect(submitTransaction).toHaveBeenCalledTimes(Math.ceil(localReport.length / ENTRIES_PER_CHUNK));
+    // Reports of a branch & of a commit are uploaded in separate transactions
+    expect(submitTransaction).toHaveBeenCalledTimes(Math.ceil(localReport.length / ENTRIES_PER_CHUNK) * 2);
     expect(submitTransaction).toHaveBeenCalledWith(
       bigReport
         .slice(0, ENTRIES_PER_CHUNK)
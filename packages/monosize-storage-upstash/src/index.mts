@@ -4,8 +4,19 @@ import type { BundleSizeReport, StorageAdapter } from 'monosize';
 type UpstashStorageConfig = {
   url: string;
   readonlyToken: string;
+  /**
+   * A time in seconds for which reports of commits are kept, defaults to 90 days. Reports of branches are overwritten
+   * on every upload and never expire.
+   */
+  commitReportsTTL?: number;
 };
 
+export const DEFAULT_COMMIT_REPORTS_TTL = 90 * 24 * 60 * 60;
+
+function getCommitKey(commitSHA: string): string {
+  return `commit:${commitSHA}`;
+}
+
 function createUpstashStorage(config: UpstashStorageConfig): StorageAdapter {
   const getRemoteReport: StorageAdapter['getRemoteReport'] = async (branch: string) => {
     const redis = new Redis({
@@ -28,6 +39,24 @@ function createUpstashStorage(config: UpstashStorageConfig): StorageAdapter {
     };
   };
 
+  const getReportForCommit: NonNullable<StorageAdapter['getReportForCommit']> = async (commitSHA: string) => {
+    const redis = new Redis({
+      url: config.url,
+      token: config.readonlyToken,
+    });
+
+    const result = await redis.get<{ commitSHA: string; data: BundleSizeReport } | null>(getCommitKey(commitSHA));
+
+    if (result === null) {
+      return { commitSHA: '', remoteReport: [] };
+    }
+
+    return {
+      commitSHA: result.commitSHA,
+      remoteReport: result.data,
+    };
+  };
+
   const uploadReportToRemote: StorageAdapter['uploadReportToRemote'] = async (branch, commitSHA, localReport) => {
     if (typeof process.env['UPSTASH_WRITE_TOKEN'] !== 'string') {
       throw new Error('monosize-storage-upstash: "UPSTASH_WRITE_TOKEN" is not defined in your process.env');
@@ -39,15 +68,20 @@ function createUpstashStorage(config: UpstashStorageConfig): StorageAdapter {
     });
     const data = JSON.stringify({
       commitSHA,
-      data: localReport,
+      // Sizes of modules are not stored as they could exceed limits of Upstash on sizes of requests & values
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      data: localReport.map(({ modules, ...entry }) => entry),
     });
 
     // TODO: repeat queries
     await redis.set(branch, data);
+    // Reports of commits are kept to compare against a specific commit, not only against the latest one of a branch
+    await redis.set(getCommitKey(commitSHA), data, { ex: config.commitReportsTTL ?? DEFAULT_COMMIT_REPORTS_TTL });
   };
 
   return {
     getRemoteReport,
+    getReportForCommit,
     uploadReportToRemote,
   };
 }
@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it, vitest } from 'vitest';
+import type { BundleSizeReport } from 'monosize';
+
+import createUpstashStorage, { DEFAULT_COMMIT_REPORTS_TTL } from './index.mjs';
+
+const get = vitest.hoisted(() => vitest.fn());
+const set = vitest.hoisted(() => vitest.fn());
+
+vitest.mock('@upstash/redis', () => ({
+  Redis: vitest.fn(() => ({ get, set })),
+}));
+
+const testConfig = { url: 'https://localhost', readonlyToken: 'readonly-token' };
+const sampleReport: BundleSizeReport = [
+  { packageName: 'foo', name: 'Foo', path: 'foo.fixture.js', minifiedSize: 1000, gzippedSize: 100 },
+];
+
+describe('createUpstashStorage', () => {
+  beforeEach(() => {
+    vitest.clearAllMocks();
+    vitest.stubEnv('UPSTASH_WRITE_TOKEN', 'write-token');
+  });
+
+  describe('getReportForCommit', () => {
+    it('fetches a report of a commit', async () => {
+      get.mockResolvedValue({ commitSHA: 'sha', data: sampleReport });
+
+      const { getReportForCommit } = createUpstashStorage(testConfig);
+
+      expect(await getReportForCommit?.('sha')).toEqual({ commitSHA: 'sha', remoteReport: sampleReport });
+      expect(get).toHaveBeenCalledWith('commit:sha');
+    });
+
+    it('returns an empty report if there is no report for a commit', async () => {
+      get.mockResolvedValue(null);
+
+      const { getReportForCommit } = createUpstashStorage(testConfig);
+
+      expect(await getReportForCommit?.('sha')).toEqual({ commitSHA: '', remoteReport: [] });
+    });
+  });
+
+  describe('uploadReportToRemote', () => {
+    it('uploads a report of a branch & of a commit', async () => {
+      const { uploadReportToRemote } = createUpstashStorage(testConfig);
+      const data = JSON.stringify({ commitSHA: 'sha', data: sampleReport });
+
+      await uploadReportToRemote('main', 'sha', sampleReport);
+
+      expect(set).toHaveBeenCalledTimes(2);
+      expect(set).toHaveBeenCalledWith('main', data);
+      expect(set).toHaveBeenCalledWith('commit:sha', data, { ex: DEFAULT_COMMIT_REPORTS_TTL });
+    });
+
+    it('does not upload sizes of modules', async () => {
+      const { uploadReportToRemote } = createUpstashStorage(testConfig);
+
+      await uploadReportToRemote('main', 'sha', [{ ...sampleReport[0], modules: { 'src/foo.js': 500 } }]);
+
+      expect(set).toHaveBeenCalledTimes(2);
+      set.mock.calls.forEach(([, data]) => {
+        expect(JSON.parse(data)).toEqual({ commitSHA: 'sha', data: sampleReport });
+      });
+    });
+
+    it('uses a custom TTL for reports of commits', async () => {
+      const { uploadReportToRemote } = createUpstashStorage({ ...testConfig, commitReportsTTL: 60 });
+
+      await uploadReportToRemote('main', 'sha', sampleReport);
+
+      expect(set).toHaveBeenCalledWith('commit:sha', expect.any(String), { ex: 60 });
+    });
+
+    it('throws if a write token is not defined', async () => {
+      vitest.stubEnv('UPSTASH_WRITE_TOKEN', undefined);
+
+      const { uploadReportToRemote } = createUpstashStorage(testConfig);
+
+      await expect(uploadReportToRemote('main', 'sha', sampleReport)).rejects.toThrow(
+        'monosize-storage-upstash: "UPSTASH_WRITE_TOKEN" is not defined in your process.env',
+      );
+      expect(set).not.toHaveBeenCalled();
+    });
+  });
+});
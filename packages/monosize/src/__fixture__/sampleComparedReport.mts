@@ -8,6 +8,7 @@ export const sampleComparedReport: ComparedReport = [
     path: 'foo.fixture.js',
     minifiedSize: 1000,
     gzippedSize: 100,
+    brotliSize: 80,
     diff: EMPTY_DIFF,
   },
   {
@@ -16,12 +17,16 @@ export const sampleComparedReport: ComparedReport = [
     path: 'bar.fixture.js',
     minifiedSize: 1000,
     gzippedSize: 100,
+    brotliSize: 80,
     diff: {
       empty: false,
       exceedsThreshold: false,
 
-      minified: { delta: 0, percent: '0%' },
-      gzip: { delta: 0, percent: '0%' },
+      metrics: {
+        minified: { delta: 0, percent: '0%' },
+        gzip: { delta: 0, percent: '0%' },
+        brotli: { delta: 0, percent: '0%' },
+      },
     },
   },
   {
@@ -30,12 +35,16 @@ export const sampleComparedReport: ComparedReport = [
     path: 'baz.fixture.js',
     minifiedSize: 1000,
     gzippedSize: 100,
+    brotliSize: 80,
     diff: {
       empty: false,
       exceedsThreshold: false,
 
-      minified: { delta: 1000, percent: '100%' },
-      gzip: { delta: 100, percent: '100%' },
+      metrics: {
+        minified: { delta: 1000, percent: '100%' },
+        gzip: { delta: 100, percent: '100%' },
+        brotli: { delta: 80, percent: '100%' },
+      },
     },
   },
 ];
@@ -47,12 +56,16 @@ export const reportWithExceededThreshold: ComparedReport = [
     path: 'bar.fixture.js',
     minifiedSize: 1000,
     gzippedSize: 100,
+    brotliSize: 80,
     diff: {
       empty: false,
       exceedsThreshold: false,
 
-      minified: { delta: 0, percent: '0%' },
-      gzip: { delta: 0, percent: '0%' },
+      metrics: {
+        minified: { delta: 0, percent: '0%' },
+        gzip: { delta: 0, percent: '0%' },
+        brotli: { delta: 0, percent: '0%' },
+      },
     },
   },
   {
@@ -61,12 +74,274 @@ export const reportWithExceededThreshold: ComparedReport = [
     path: 'baz.fixture.js',
     minifiedSize: 1000,
     gzippedSize: 100,
+    brotliSize: 80,
     diff: {
       empty: false,
       exceedsThreshold: true,
+      thresholdSeverity: 'error',
+      thresholdMetrics: ['minified'],
 
-      minified: { delta: 1000, percent: '100%' },
-      gzip: { delta: 100, percent: '100%' },
+      metrics: {
+        minified: { delta: 1000, percent: '100%' },
+        gzip: { delta: 100, percent: '100%' },
+        brotli: { delta: 80, percent: '100%' },
+      },
+    },
+  },
+];
+
+export const reportWithExceededWarningThreshold: ComparedReport = [
+  {
+    packageName: 'baz-package',
+    name: 'An entry with diff',
+    path: 'baz.fixture.js',
+    minifiedSize: 1000,
+    gzippedSize: 100,
+    brotliSize: 80,
+    diff: {
+      empty: false,
+      exceedsThreshold: false,
+      thresholdSeverity: 'warn',
+      thresholdMetrics: ['gzip'],
+
+      metrics: {
+        minified: { delta: 10, percent: '1%' },
+        gzip: { delta: 10, percent: '11.1%' },
+        brotli: { delta: 0, percent: '0%' },
+      },
+    },
+  },
+];
+
+export const reportWithThresholdOverrides: ComparedReport = [
+  {
+    packageName: 'baz-package',
+    name: 'An entry with diff',
+    path: 'baz.fixture.js',
+    minifiedSize: 1000,
+    gzippedSize: 100,
+    brotliSize: 80,
+    threshold: '1%',
+    diff: {
+      empty: false,
+      exceedsThreshold: true,
+      thresholdSeverity: 'error',
+      thresholdOverrides: { error: '1%', warn: 'gzip > 100 B' },
+      thresholdMetrics: ['minified'],
+
+      metrics: {
+        minified: { delta: 10, percent: '1%' },
+        gzip: { delta: 0, percent: '0%' },
+        brotli: { delta: 0, percent: '0%' },
+      },
+    },
+  },
+];
+
+export const reportWithAcknowledgedEntries: ComparedReport = [
+  {
+    packageName: 'baz-package',
+    name: 'An entry with diff',
+    path: 'baz.fixture.js',
+    minifiedSize: 1000,
+    gzippedSize: 100,
+    brotliSize: 80,
+    diff: {
+      empty: false,
+      exceedsThreshold: false,
+      acknowledged: 'A new feature',
+
+      metrics: {
+        minified: { delta: 200, percent: '25%' },
+        gzip: { delta: 10, percent: '11.1%' },
+        brotli: { delta: 0, percent: '0%' },
+      },
+    },
+  },
+];
+
+export const reportWithRemovedEntries: ComparedReport = [
+  {
+    packageName: 'baz-package',
+    name: 'An entry with diff',
+    path: 'baz.fixture.js',
+    minifiedSize: 1000,
+    gzippedSize: 100,
+    brotliSize: 80,
+    diff: {
+      empty: false,
+      exceedsThreshold: false,
+
+      metrics: {
+        minified: { delta: 100, percent: '11.1%' },
+        gzip: { delta: 10, percent: '11.1%' },
+        brotli: { delta: 0, percent: '0%' },
+      },
+    },
+  },
+  {
+    packageName: 'foo-package',
+    name: 'Removed entry',
+    path: 'foo.fixture.js',
+    minifiedSize: 1000,
+    gzippedSize: 100,
+    brotliSize: 80,
+    diff: {
+      empty: false,
+      removed: true,
+      exceedsThreshold: false,
+
+      metrics: {},
+    },
+  },
+];
+
+export const reportWithAsyncChunks: ComparedReport = [
+  {
+    packageName: 'baz-package',
+    name: 'An entry with async chunks',
+    path: 'baz.fixture.js',
+    minifiedSize: 1000,
+    gzippedSize: 100,
+    brotliSize: 80,
+    totalSizes: {
+      minifiedSize: 3000,
+      gzippedSize: 300,
+      brotliSize: 240,
+    },
+    diff: {
+      empty: false,
+      exceedsThreshold: false,
+
+      metrics: {
+        minified: { delta: 0, percent: '0%' },
+        gzip: { delta: 0, percent: '0%' },
+        brotli: { delta: 0, percent: '0%' },
+      },
+      total: {
+        minified: { delta: 1000, percent: '50%' },
+        gzip: { delta: 100, percent: '50%' },
+        brotli: { delta: 80, percent: '50%' },
+      },
+    },
+  },
+];
+
+export const reportWithAssets: ComparedReport = [
+  {
+    packageName: 'baz-package',
+    name: 'An entry with assets',
+    path: 'baz.fixture.js',
+    minifiedSize: 1500,
+    gzippedSize: 150,
+    brotliSize: 120,
+    assetSizes: {
+      js: { minifiedSize: 1000, gzippedSize: 100, brotliSize: 80 },
+      css: { minifiedSize: 500, gzippedSize: 50, brotliSize: 40 },
+    },
+    diff: {
+      empty: false,
+      exceedsThreshold: true,
+
+      metrics: {
+        minified: { delta: 500, percent: '50%' },
+        gzip: { delta: 50, percent: '50%' },
+        brotli: { delta: 40, percent: '50%' },
+      },
+      assets: {
+        js: {
+          exceedsThreshold: false,
+          metrics: {
+            minified: { delta: 0, percent: '0%' },
+            gzip: { delta: 0, percent: '0%' },
+            brotli: { delta: 0, percent: '0%' },
+          },
+        },
+        css: {
+          exceedsThreshold: true,
+          thresholdSeverity: 'error',
+          thresholdMetrics: ['minified', 'gzip'],
+          metrics: {
+            minified: { delta: 500, percent: '0%' },
+            gzip: { delta: 50, percent: '0%' },
+            brotli: { delta: 40, percent: '0%' },
+          },
+        },
+      },
+    },
+  },
+];
+
+export const reportWithModuleChanges: ComparedReport = [
+  {
+    packageName: 'baz-package',
+    name: 'An entry with module changes',
+    path: 'baz.fixture.js',
+    minifiedSize: 1500,
+    gzippedSize: 150,
+    brotliSize: 120,
+    modules: { 'src/a.js': 900, 'src/c.js': 600 },
+    diff: {
+      empty: false,
+      exceedsThreshold: false,
+
+      metrics: {
+        minified: { delta: 500, percent: '50%' },
+        gzip: { delta: 50, percent: '50%' },
+        brotli: { delta: 40, percent: '50%' },
+      },
+      modules: [
+        { path: 'src/c.js', status: 'added', delta: 600 },
+        { path: 'src/b.js', status: 'removed', delta: -300 },
+        { path: 'src/a.js', status: 'changed', delta: 200 },
+      ],
+    },
+  },
+];
+
+export const reportWithDuplicatePackages: ComparedReport = [
+  {
+    packageName: 'baz-package',
+    name: 'An entry with duplicate packages',
+    path: 'baz.fixture.js',
+    minifiedSize: 1000,
+    gzippedSize: 100,
+    brotliSize: 80,
+    duplicatePackages: [
+      {
+        name: '@floating-ui/dom',
+        copies: [
+          { path: 'node_modules/@floating-ui/dom', version: '1.6.0' },
+          { path: 'node_modules/pkg/node_modules/@floating-ui/dom', version: '1.5.0' },
+        ],
+      },
+    ],
+    diff: {
+      empty: false,
+      exceedsThreshold: false,
+
+      metrics: {
+        minified: { delta: 0, percent: '0%' },
+        gzip: { delta: 0, percent: '0%' },
+        brotli: { delta: 0, percent: '0%' },
+      },
+      newDuplicatePackages: ['@floating-ui/dom'],
+    },
+  },
+];
+
+export const reportWithExceededBudgets: ComparedReport = [
+  {
+    packageName: 'baz-package',
+    name: 'A new entry over budget',
+    path: 'baz.fixture.js',
+    minifiedSize: 300000,
+    gzippedSize: 60000,
+    brotliSize: 50000,
+    budgets: { maxGzip: '50 kB' },
+    diff: {
+      ...EMPTY_DIFF,
+      budgetViolations: [{ metric: 'gzip', budget: 51200, size: 60000 }],
     },
   },
 ];
@@ -7,6 +7,7 @@ export const sampleReport: BundleSizeReport = [
     path: 'foo.fixture.js',
     minifiedSize: 1000,
     gzippedSize: 100,
+    brotliSize: 80,
   },
   {
     packageName: 'bar-package',
@@ -14,6 +15,7 @@ export const sampleReport: BundleSizeReport = [
     path: 'bar.fixture.js',
     minifiedSize: 1000,
     gzippedSize: 100,
+    brotliSize: 80,
   },
   {
     packageName: 'baz-package',
@@ -21,5 +23,6 @@ export const sampleReport: BundleSizeReport = [
     path: 'baz.fixture.js',
     minifiedSize: 1000,
     gzippedSize: 100,
+    brotliSize: 80,
   },
 ];
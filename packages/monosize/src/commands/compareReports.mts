@@ -3,28 +3,81 @@ import { CommandModule } from 'yargs';
 import { CliOptions } from '../index.mjs';
 import { cliReporter } from '../reporters/cliReporter.mjs';
 import { markdownReporter } from '../reporters/markdownReporter.mjs';
+import type { DeltaFormat } from '../reporters/shared.mjs';
+import { buildBaselineReport } from '../utils/buildBaselineReport.mjs';
 import { collectLocalReport } from '../utils/collectLocalReport.mjs';
 import { compareResultsInReports } from '../utils/compareResultsInReports.mjs';
+import {
+  findMergeBaseReport,
+  getMergeBase,
+  MAX_MERGE_BASE_DISTANCE,
+  type MergeBaseReport,
+  resolveCommit,
+} from '../utils/findMergeBaseReport.mjs';
+import { readBaselineReport } from '../utils/readBaselineReport.mjs';
+import { resolveMetrics, resolveThresholdMetrics } from '../utils/metrics.mjs';
+import { parseNoiseFloor } from '../utils/noiseFloor.mjs';
 import { readConfig } from '../utils/readConfig.mjs';
-import type { DiffByMetric } from '../utils/calculateDiff.mjs';
+import { isSizeOverrideExpired, readSizeOverrides, type SizeOverride } from '../utils/sizeOverrides.mjs';
+import { getThresholdExpressions, parseThresholdRules, type ThresholdRules } from '../utils/thresholdRules.mjs';
 import { logger, timestamp } from '../logger.mjs';
-import { parseThreshold } from '../utils/helpers.mjs';
+import type { AssetType, BundleSizeReport, StorageAdapter } from '../types.mjs';
 
 export type CompareReportsOptions = CliOptions & {
   branch: string;
+  baseline?: string;
+  commit?: string;
+  'merge-base'?: boolean;
+  'build-baseline'?: boolean;
+  fixtures?: string;
   'report-files-glob'?: string;
   output: 'cli' | 'markdown';
-  deltaFormat: keyof DiffByMetric;
+  deltaFormat: DeltaFormat;
+  'threshold-metric'?: string;
 };
 
 export const DEFAULT_THRESHOLD = '10%';
 
+function assertReportsOfCommitsSupport(
+  storage: StorageAdapter,
+): asserts storage is StorageAdapter & Required<Pick<StorageAdapter, 'getReportForCommit'>> {
+  if (!storage.getReportForCommit) {
+    logger.error('The configured storage adapter does not support fetching reports of commits');
+    process.exit(1);
+  }
+}
+
 async function compareReports(options: CompareReportsOptions) {
-  const { branch, output, quiet, deltaFormat } = options;
+  const { baseline, branch, commit, output, quiet, deltaFormat } = options;
   const startTime = timestamp();
 
   const config = await readConfig(quiet);
-  const threshold = parseThreshold(config.threshold ?? DEFAULT_THRESHOLD);
+  const metrics = resolveMetrics(config.metrics);
+  const thresholdMetric = options['threshold-metric'] ?? config.thresholdMetric;
+
+  // Fails early on unknown metrics & invalid rules, before reports are fetched
+  const thresholdRulesOptions = {
+    defaultMetrics: resolveThresholdMetrics(metrics, thresholdMetric).map(metric => metric.name),
+    knownMetrics: metrics.map(metric => metric.name),
+  };
+  const threshold = parseThresholdRules(config.threshold ?? DEFAULT_THRESHOLD, thresholdRulesOptions);
+  const assetThresholds = Object.fromEntries(
+    Object.entries(config.assetThresholds ?? {}).map(([assetType, value]) => [
+      assetType,
+      parseThresholdRules(value, thresholdRulesOptions),
+    ]),
+  ) as Partial<Record<AssetType, ThresholdRules>>;
+  Object.values(config.thresholds ?? {}).forEach(value => parseThresholdRules(value, thresholdRulesOptions));
+  const noiseFloor = config.noiseFloor && parseNoiseFloor(config.noiseFloor, thresholdRulesOptions.knownMetrics);
+  let overrides: SizeOverride[];
+
+  try {
+    overrides = await readSizeOverrides({ knownMetrics: thresholdRulesOptions.knownMetrics });
+  } catch (e) {
+    logger.error('Failed to read size overrides...');
+    logger.error(e);
+    process.exit(1);
+  }
 
   const localReportStartTime = timestamp();
   const localReport = await collectLocalReport({
@@ -37,47 +90,212 @@ async function compareReports(options: CompareReportsOptions) {
   }
 
   const remoteReportStartTime = timestamp();
-  const { commitSHA, remoteReport } = await config.storage.getRemoteReport(branch);
+  let commitSHA = '';
+  let remoteReport: BundleSizeReport;
+  // A merge base that a baseline commit was selected from or built from
+  let mergeBase: { commitSHA: string; distance: number } | undefined;
 
-  if (!quiet) {
-    if (commitSHA === '') {
-      logger.info(`Remote report for "${branch}" branch was not found`);
+  if (options['build-baseline']) {
+    try {
+      commitSHA = getMergeBase(branch, process.cwd());
+      mergeBase = { commitSHA, distance: 0 };
+
+      if (!quiet) {
+        logger.info(`Building a baseline report from "${commitSHA}" commit...`);
+      }
+
+      remoteReport = await buildBaselineReport({
+        config,
+        metrics,
+        commitSHA,
+        fixturesGlob: options.fixtures,
+        reportFilesGlob: options['report-files-glob'],
+        quiet,
+      });
+    } catch (e) {
+      logger.error('Failed to build a baseline report...');
+      logger.error(e);
+      process.exit(1);
+    }
+
+    if (!quiet) {
+      logger.info(`Baseline report built locally from "${commitSHA}" commit`, remoteReportStartTime);
+    }
+  } else if (baseline) {
+    try {
+      remoteReport = await readBaselineReport(baseline, config);
+    } catch (e) {
+      logger.error('Failed to read a baseline report...');
+      logger.error(e);
+      process.exit(1);
+    }
+
+    if (!quiet) {
+      logger.info(`Baseline report from "${baseline}" prepared`, remoteReportStartTime);
+    }
+  } else {
+    if (!config.storage) {
+      logger.error(
+        'A storage adapter is required to fetch a remote report, please configure "storage" in the config or pass a local report via "--baseline"',
+      );
+      process.exit(1);
+    }
+
+    if (commit) {
+      assertReportsOfCommitsSupport(config.storage);
+
+      // Reports are stored by full SHAs, short SHAs & refs should be resolved first
+      try {
+        commitSHA = resolveCommit(commit, process.cwd());
+      } catch (e) {
+        logger.error(`Failed to resolve "${commit}" commit...`);
+        logger.error(e);
+        process.exit(1);
+      }
+
+      ({ commitSHA, remoteReport } = await config.storage.getReportForCommit(commitSHA));
+
+      if (commitSHA === '') {
+        logger.error(`Remote report for "${commit}" commit was not found`);
+        process.exit(1);
+      }
+    } else if (options['merge-base']) {
+      assertReportsOfCommitsSupport(config.storage);
+
+      let mergeBaseReport: MergeBaseReport | undefined;
+
+      try {
+        mergeBaseReport = await findMergeBaseReport(config.storage, branch);
+      } catch (e) {
+        logger.error('Failed to find a report of a merge base...');
+        logger.error(e);
+        process.exit(1);
+      }
+
+      if (mergeBaseReport) {
+        ({ commitSHA, remoteReport } = mergeBaseReport);
+        mergeBase = { commitSHA: mergeBaseReport.mergeBase, distance: mergeBaseReport.distance };
+      } else {
+        if (!quiet) {
+          logger.info(
+            `Reports of a merge base with "${branch}" branch and of its ${MAX_MERGE_BASE_DISTANCE - 1} ancestors were not found, the latest report of the branch is used`,
+          );
+        }
+
+        ({ commitSHA, remoteReport } = await config.storage.getRemoteReport(branch));
+      }
     } else {
-      logger.info(`Remote report for "${commitSHA}" commit fetched `, remoteReportStartTime);
+      ({ commitSHA, remoteReport } = await config.storage.getRemoteReport(branch));
+    }
+
+    if (!quiet) {
+      if (commitSHA === '') {
+        logger.info(`Remote report for "${branch}" branch was not found`);
+      } else {
+        logger.info(`Remote report for "${commitSHA}" commit fetched `, remoteReportStartTime);
+      }
     }
   }
 
-  const reportsComparisonResult = compareResultsInReports(localReport, remoteReport, threshold);
+  const expiredOverrides = overrides.filter(override =>
+    isSizeOverrideExpired(override, { baselineCommitSHA: commitSHA }),
+  );
+
+  if (!quiet && expiredOverrides.length > 0) {
+    logger.info(
+      `Some size overrides are expired and ignored, please remove them: ${expiredOverrides
+        .map(override => (override.path ? `${override.packageName} (${override.path})` : override.packageName))
+        .join(', ')}`,
+    );
+  }
+
+  const reportsComparisonResult = compareResultsInReports(localReport, remoteReport, {
+    metrics,
+    threshold,
+    assetThresholds,
+    budgets: config.budgets,
+    thresholds: config.thresholds,
+    thresholdMetric,
+    noiseFloor,
+    overrides: overrides.filter(override => !expiredOverrides.includes(override)),
+  });
 
   switch (output) {
     case 'cli':
       cliReporter(reportsComparisonResult, {
+        baseline,
+        builtLocally: options['build-baseline'],
         commitSHA,
+        mergeBase,
         repository: config.repository,
         showUnchanged: false,
         deltaFormat: deltaFormat ?? 'percent',
+        metrics,
       });
       break;
     case 'markdown':
       markdownReporter(reportsComparisonResult, {
+        baseline,
+        builtLocally: options['build-baseline'],
         commitSHA,
+        mergeBase,
         repository: config.repository,
         showUnchanged: true,
         deltaFormat: deltaFormat ?? 'delta',
+        metrics,
+        threshold: getThresholdExpressions(config.threshold ?? DEFAULT_THRESHOLD),
       });
       break;
   }
   const hasExceededThreshold = reportsComparisonResult.some(entry => entry.diff.exceedsThreshold);
+  const hasExceededWarningThreshold = reportsComparisonResult.some(
+    entry =>
+      entry.diff.thresholdSeverity === 'warn' ||
+      Object.values(entry.diff.assets ?? {}).some(assetDiff => assetDiff.thresholdSeverity === 'warn'),
+  );
+  const hasAcknowledgedEntries = reportsComparisonResult.some(entry => entry.diff.acknowledged !== undefined);
+  const hasExceededBudgets = reportsComparisonResult.some(entry => entry.diff.budgetViolations !== undefined);
+  const hasRemovedEntries = reportsComparisonResult.some(entry => entry.diff.removed);
+  const hasNewDuplicatePackages =
+    config.duplicatePackages === 'error' &&
+    reportsComparisonResult.some(entry => entry.diff.newDuplicatePackages !== undefined);
 
   if (!quiet) {
+    if (hasExceededWarningThreshold) {
+      logger.info(`Some entries exceeded the warning threshold`);
+    }
+
+    if (hasAcknowledgedEntries) {
+      logger.info(`Some entries exceeded the threshold or budgets, but are acknowledged by size overrides`);
+    }
+
     if (hasExceededThreshold) {
       logger.error(`Some entries exceeded the threshold`);
     }
 
+    if (hasExceededBudgets) {
+      logger.error(`Some entries exceeded budgets`);
+    }
+
+    if (hasNewDuplicatePackages) {
+      logger.error(`Some entries include new duplicate packages`);
+    }
+
+    if (hasRemovedEntries) {
+      const log = config.removedFixtures === 'error' ? logger.error : logger.info;
+
+      log(`Some entries are present only in the remote report, their fixtures were removed or not measured`);
+    }
+
     logger.finish(`Completed`, startTime);
   }
 
-  if (hasExceededThreshold) {
+  if (
+    hasExceededThreshold ||
+    hasExceededBudgets ||
+    hasNewDuplicatePackages ||
+    (hasRemovedEntries && config.removedFixtures === 'error')
+  ) {
     process.exit(1);
   }
 }
@@ -94,6 +312,37 @@ const api: CommandModule<Record<string, unknown>, CompareReportsOptions> = {
       description: 'A branch to compare against',
       default: 'main',
     },
+    commit: {
+      alias: 'c',
+      type: 'string',
+      description:
+        'A commit to compare against (a SHA, possibly short, or a ref resolved via git), requires a storage adapter that keeps reports of commits',
+      conflicts: ['baseline', 'merge-base', 'build-baseline'],
+    },
+    'merge-base': {
+      type: 'boolean',
+      description:
+        'Compare against a report of a merge base of HEAD and "origin/<branch>" or of its closest first-parent ancestor that has a report, requires a storage adapter that keeps reports of commits',
+      conflicts: ['baseline', 'commit', 'build-baseline'],
+    },
+    'build-baseline': {
+      type: 'boolean',
+      description:
+        'Build a baseline report locally: fixtures are measured in a temporary git worktree of a merge base of HEAD and "origin/<branch>", a storage adapter is not required',
+      conflicts: ['baseline', 'commit', 'merge-base'],
+    },
+    fixtures: {
+      type: 'string',
+      description:
+        'Filename glob pattern of fixtures measured by "--build-baseline", should match "--fixtures" passed to "monosize measure"',
+      implies: 'build-baseline',
+    },
+    baseline: {
+      type: 'string',
+      description:
+        'A path to a local report or a glob pattern to search for reports of packages, is used instead of a remote report from a storage adapter',
+      conflicts: ['commit', 'merge-base', 'build-baseline'],
+    },
     'report-files-glob': {
       type: 'string',
       description: 'A glob pattern to search for report files in JSON format',
@@ -111,6 +360,11 @@ const api: CommandModule<Record<string, unknown>, CompareReportsOptions> = {
       choices: ['delta', 'percent'],
       description: 'Defines format of delta output',
     },
+    'threshold-metric': {
+      type: 'string',
+      description:
+        'A name of a metric that thresholds are checked against or "any" to check all metrics, overrides "thresholdMetric" from a config',
+    },
   },
   handler: compareReports,
 };
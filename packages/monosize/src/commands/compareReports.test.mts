@@ -1,13 +1,30 @@
 import { describe, expect, it, vitest } from 'vitest';
 
 import { sampleReport } from '../__fixture__/sampleReport.mjs';
-import { sampleComparedReport, reportWithExceededThreshold } from '../__fixture__/sampleComparedReport.mjs';
+import {
+  sampleComparedReport,
+  reportWithDuplicatePackages,
+  reportWithExceededBudgets,
+  reportWithExceededThreshold,
+  reportWithExceededWarningThreshold,
+  reportWithRemovedEntries,
+} from '../__fixture__/sampleComparedReport.mjs';
 import api, { CompareReportsOptions } from './compareReports.mjs';
+import { resolveMetrics } from '../utils/metrics.mjs';
+import { readConfig } from '../utils/readConfig.mjs';
 
 const getRemoteReport = vitest.hoisted(() => vitest.fn());
+const getReportForCommit = vitest.hoisted(() => vitest.fn());
 const cliReporter = vitest.hoisted(() => vitest.fn());
 const collectLocalReport = vitest.hoisted(() => vitest.fn());
 const compareResultsInReports = vitest.hoisted(() => vitest.fn());
+const readBaselineReport = vitest.hoisted(() => vitest.fn());
+const findMergeBaseReport = vitest.hoisted(() => vitest.fn());
+const getMergeBase = vitest.hoisted(() => vitest.fn());
+const resolveCommit = vitest.hoisted(() => vitest.fn((commit: string) => commit));
+const buildBaselineReport = vitest.hoisted(() => vitest.fn());
+const readSizeOverrides = vitest.hoisted(() => vitest.fn().mockResolvedValue([]));
+const isSizeOverrideExpired = vitest.hoisted(() => vitest.fn().mockReturnValue(false));
 
 vitest.mock('../utils/readConfig.mts', () => ({
   readConfig: vitest.fn().mockResolvedValue({
@@ -17,8 +34,20 @@ vitest.mock('../utils/readConfig.mts', () => ({
 vitest.mock('../reporters/cliReporter.mts', () => ({ cliReporter }));
 vitest.mock('../utils/collectLocalReport.mts', () => ({ collectLocalReport }));
 vitest.mock('../utils/compareResultsInReports.mts', () => ({ emptyDiff: {}, compareResultsInReports }));
+vitest.mock('../utils/readBaselineReport.mts', () => ({ readBaselineReport }));
+vitest.mock('../utils/findMergeBaseReport.mts', () => ({
+  MAX_MERGE_BASE_DISTANCE: 50,
+  findMergeBaseReport,
+  getMergeBase,
+  resolveCommit,
+}));
+vitest.mock('../utils/buildBaselineReport.mts', () => ({ buildBaselineReport }));
+vitest.mock('../utils/sizeOverrides.mts', () => ({ isSizeOverrideExpired, readSizeOverrides }));
 
-const DEFAULT_THRESHOLD = { size: 10, type: 'percent' };
+const DEFAULT_THRESHOLD = {
+  error: { type: 'comparison', metric: 'minified', operator: '>=', value: { size: 10, type: 'percent' } },
+};
+const DEFAULT_METRICS = resolveMetrics();
 
 describe('compareReports', () => {
   it('fetches remote report and compares it with a local data', async () => {
@@ -33,10 +62,16 @@ describe('compareReports', () => {
     await api.handler(options as any);
 
     expect(getRemoteReport).toHaveBeenCalledWith(branchName);
-    expect(compareResultsInReports).toHaveBeenCalledWith(sampleReport, sampleReport, DEFAULT_THRESHOLD);
+    expect(compareResultsInReports).toHaveBeenCalledWith(sampleReport, sampleReport, {
+      metrics: DEFAULT_METRICS,
+      threshold: DEFAULT_THRESHOLD,
+      assetThresholds: {},
+      overrides: [],
+    });
     expect(cliReporter).toHaveBeenCalledWith(sampleComparedReport, {
       commitSHA: 'test',
       deltaFormat: 'percent',
+      metrics: DEFAULT_METRICS,
       repository: undefined,
       showUnchanged: false,
     });
@@ -59,4 +94,506 @@ describe('compareReports', () => {
     expect(cliReporter).toHaveBeenCalledWith(reportWithExceededThreshold, expect.any(Object));
     expect(mockExit).toHaveBeenCalledWith(1);
   });
+
+  it('does not exit with a non-zero code if there are entries exceeding only a warning threshold', async () => {
+    const mockExit = vitest.spyOn(process, 'exit').mockImplementation((() => {
+      // do nothing
+    }) as () => never);
+
+    vitest.mocked(readConfig).mockResolvedValueOnce({
+      storage: { getRemoteReport },
+      threshold: { warn: 'gzip > 10%', error: 'gzip > 1 kB && gzip > 20%' },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+
+    getRemoteReport.mockResolvedValue({ commitSHA: 'test', remoteReport: sampleReport });
+    collectLocalReport.mockImplementation(() => sampleReport);
+    compareResultsInReports.mockImplementation(() => reportWithExceededWarningThreshold);
+
+    const options: CompareReportsOptions = { quiet: true, branch: 'master', output: 'cli', deltaFormat: 'percent' };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await api.handler(options as any);
+
+    expect(compareResultsInReports).toHaveBeenCalledWith(
+      sampleReport,
+      sampleReport,
+      expect.objectContaining({
+        threshold: {
+          warn: { type: 'comparison', metric: 'gzip', operator: '>', value: { size: 10, type: 'percent' } },
+          error: {
+            type: 'and',
+            rules: [
+              { type: 'comparison', metric: 'gzip', operator: '>', value: { size: 1024, type: 'size' } },
+              { type: 'comparison', metric: 'gzip', operator: '>', value: { size: 20, type: 'percent' } },
+            ],
+          },
+        },
+      }),
+    );
+    expect(mockExit).not.toHaveBeenCalled();
+  });
+
+  it('exits with a non-zero code if there are new duplicate packages and "duplicatePackages" is "error"', async () => {
+    const mockExit = vitest.spyOn(process, 'exit').mockImplementation((() => {
+      // do nothing
+    }) as () => never);
+
+    getRemoteReport.mockResolvedValue({ commitSHA: 'test', remoteReport: sampleReport });
+    collectLocalReport.mockImplementation(() => sampleReport);
+    compareResultsInReports.mockImplementation(() => reportWithDuplicatePackages);
+
+    const options: CompareReportsOptions = { quiet: true, branch: 'master', output: 'cli', deltaFormat: 'percent' };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await api.handler(options as any);
+    expect(mockExit).not.toHaveBeenCalled();
+
+    vitest.mocked(readConfig).mockResolvedValueOnce({
+      storage: { getRemoteReport },
+      duplicatePackages: 'error',
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await api.handler(options as any);
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it('exits with a non-zero code if there are removed entries and "removedFixtures" is "error"', async () => {
+    const mockExit = vitest.spyOn(process, 'exit').mockImplementation((() => {
+      // do nothing
+    }) as () => never);
+
+    getRemoteReport.mockResolvedValue({ commitSHA: 'test', remoteReport: sampleReport });
+    collectLocalReport.mockImplementation(() => sampleReport);
+    compareResultsInReports.mockImplementation(() => reportWithRemovedEntries);
+
+    const options: CompareReportsOptions = { quiet: true, branch: 'master', output: 'cli', deltaFormat: 'percent' };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await api.handler(options as any);
+    expect(mockExit).not.toHaveBeenCalled();
+
+    vitest.mocked(readConfig).mockResolvedValueOnce({
+      storage: { getRemoteReport },
+      removedFixtures: 'error',
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await api.handler(options as any);
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it('exits with a non-zero code if there are entries exceeding budgets', async () => {
+    const mockExit = vitest.spyOn(process, 'exit').mockImplementation((() => {
+      // do nothing
+    }) as () => never);
+    const budgets = { maxGzip: '50 kB' };
+
+    vitest.mocked(readConfig).mockResolvedValueOnce({
+      storage: { getRemoteReport },
+      budgets,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+
+    getRemoteReport.mockResolvedValue({ commitSHA: '', remoteReport: [] });
+    collectLocalReport.mockImplementation(() => sampleReport);
+    compareResultsInReports.mockImplementation(() => reportWithExceededBudgets);
+
+    const options: CompareReportsOptions = { quiet: true, branch: 'master', output: 'cli', deltaFormat: 'percent' };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await api.handler(options as any);
+
+    expect(compareResultsInReports).toHaveBeenCalledWith(sampleReport, [], expect.objectContaining({ budgets }));
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it('passes thresholds of packages', async () => {
+    const thresholds = { '@scope/react-*': '2%' };
+
+    vitest.mocked(readConfig).mockResolvedValueOnce({
+      storage: { getRemoteReport },
+      thresholds,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+
+    getRemoteReport.mockResolvedValue({ commitSHA: 'test', remoteReport: sampleReport });
+    collectLocalReport.mockImplementation(() => sampleReport);
+    compareResultsInReports.mockImplementation(() => sampleComparedReport);
+
+    const options: CompareReportsOptions = { quiet: true, branch: 'master', output: 'cli', deltaFormat: 'percent' };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await api.handler(options as any);
+
+    expect(compareResultsInReports).toHaveBeenCalledWith(
+      sampleReport,
+      sampleReport,
+      expect.objectContaining({ thresholds }),
+    );
+  });
+
+  it('uses a threshold metric from options over a config', async () => {
+    vitest.mocked(readConfig).mockResolvedValueOnce({
+      storage: { getRemoteReport },
+      thresholdMetric: 'minified',
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+
+    getRemoteReport.mockResolvedValue({ commitSHA: 'test', remoteReport: sampleReport });
+    collectLocalReport.mockImplementation(() => sampleReport);
+    compareResultsInReports.mockImplementation(() => sampleComparedReport);
+
+    const options: CompareReportsOptions = {
+      quiet: true,
+      branch: 'master',
+      output: 'cli',
+      deltaFormat: 'percent',
+      'threshold-metric': 'gzip',
+    };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await api.handler(options as any);
+
+    expect(compareResultsInReports).toHaveBeenCalledWith(
+      sampleReport,
+      sampleReport,
+      expect.objectContaining({
+        threshold: {
+          error: { type: 'comparison', metric: 'gzip', operator: '>=', value: { size: 10, type: 'percent' } },
+        },
+        thresholdMetric: 'gzip',
+      }),
+    );
+  });
+
+  it('compares a local report with a baseline report without a storage adapter', async () => {
+    const config = { repository: 'https://github.com/microsoft/monosize' };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    vitest.mocked(readConfig).mockResolvedValueOnce(config as any);
+
+    getRemoteReport.mockClear();
+    readBaselineReport.mockResolvedValue(sampleReport);
+    collectLocalReport.mockImplementation(() => sampleReport);
+    compareResultsInReports.mockImplementation(() => sampleComparedReport);
+
+    const options: CompareReportsOptions = {
+      quiet: true,
+      branch: 'master',
+      baseline: '../main/monosize.json',
+      output: 'cli',
+      deltaFormat: 'percent',
+    };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await api.handler(options as any);
+
+    expect(readBaselineReport).toHaveBeenCalledWith('../main/monosize.json', config);
+    expect(getRemoteReport).not.toHaveBeenCalled();
+    expect(compareResultsInReports).toHaveBeenCalledWith(sampleReport, sampleReport, expect.any(Object));
+    expect(cliReporter).toHaveBeenCalledWith(
+      sampleComparedReport,
+      expect.objectContaining({ baseline: '../main/monosize.json', commitSHA: '' }),
+    );
+  });
+
+  it('exits with a non-zero code if there is no storage adapter and no baseline report', async () => {
+    const mockExit = vitest.spyOn(process, 'exit').mockImplementation((() => {
+      throw new Error('process.exit');
+    }) as () => never);
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    vitest.mocked(readConfig).mockResolvedValueOnce({} as any);
+
+    collectLocalReport.mockImplementation(() => sampleReport);
+
+    const options: CompareReportsOptions = { quiet: true, branch: 'master', output: 'cli', deltaFormat: 'percent' };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await expect(api.handler(options as any)).rejects.toThrow('process.exit');
+    expect(mockExit).toHaveBeenCalledWith(1);
+
+    mockExit.mockRestore();
+  });
+
+  it('fetches a report of a commit and compares it with a local data', async () => {
+    vitest.mocked(readConfig).mockResolvedValueOnce({
+      storage: { getRemoteReport, getReportForCommit },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+
+    getRemoteReport.mockClear();
+    resolveCommit.mockReturnValueOnce('abc123def');
+    getReportForCommit.mockResolvedValue({ commitSHA: 'abc123', remoteReport: sampleReport });
+    collectLocalReport.mockImplementation(() => sampleReport);
+    compareResultsInReports.mockImplementation(() => sampleComparedReport);
+
+    const options: CompareReportsOptions = {
+      quiet: true,
+      branch: 'master',
+      commit: 'abc123',
+      output: 'cli',
+      deltaFormat: 'percent',
+    };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await api.handler(options as any);
+
+    expect(resolveCommit).toHaveBeenCalledWith('abc123', process.cwd());
+    expect(getReportForCommit).toHaveBeenCalledWith('abc123def');
+    expect(getRemoteReport).not.toHaveBeenCalled();
+    expect(cliReporter).toHaveBeenCalledWith(sampleComparedReport, expect.objectContaining({ commitSHA: 'abc123' }));
+  });
+
+  it('exits with a non-zero code if a report of a commit was not found', async () => {
+    const mockExit = vitest.spyOn(process, 'exit').mockImplementation((() => {
+      throw new Error('process.exit');
+    }) as () => never);
+
+    vitest.mocked(readConfig).mockResolvedValueOnce({
+      storage: { getRemoteReport, getReportForCommit },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+
+    getReportForCommit.mockResolvedValue({ commitSHA: '', remoteReport: [] });
+    collectLocalReport.mockImplementation(() => sampleReport);
+
+    const options: CompareReportsOptions = {
+      quiet: true,
+      branch: 'master',
+      commit: 'abc123',
+      output: 'cli',
+      deltaFormat: 'percent',
+    };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await expect(api.handler(options as any)).rejects.toThrow('process.exit');
+    expect(mockExit).toHaveBeenCalledWith(1);
+
+    mockExit.mockRestore();
+  });
+
+  it('exits with a non-zero code if a commit cannot be resolved', async () => {
+    const mockExit = vitest.spyOn(process, 'exit').mockImplementation((() => {
+      throw new Error('process.exit');
+    }) as () => never);
+
+    vitest.mocked(readConfig).mockResolvedValueOnce({
+      storage: { getRemoteReport, getReportForCommit },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+
+    getReportForCommit.mockClear();
+    resolveCommit.mockImplementationOnce(() => {
+      throw new Error('Failed to resolve "abc123" to a commit');
+    });
+    collectLocalReport.mockImplementation(() => sampleReport);
+
+    const options: CompareReportsOptions = {
+      quiet: true,
+      branch: 'master',
+      commit: 'abc123',
+      output: 'cli',
+      deltaFormat: 'percent',
+    };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await expect(api.handler(options as any)).rejects.toThrow('process.exit');
+    expect(mockExit).toHaveBeenCalledWith(1);
+    expect(getReportForCommit).not.toHaveBeenCalled();
+
+    mockExit.mockRestore();
+  });
+
+  it('exits with a non-zero code if a storage adapter does not support reports of commits', async () => {
+    const mockExit = vitest.spyOn(process, 'exit').mockImplementation((() => {
+      throw new Error('process.exit');
+    }) as () => never);
+
+    collectLocalReport.mockImplementation(() => sampleReport);
+
+    const options: CompareReportsOptions = {
+      quiet: true,
+      branch: 'master',
+      commit: 'abc123',
+      output: 'cli',
+      deltaFormat: 'percent',
+    };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await expect(api.handler(options as any)).rejects.toThrow('process.exit');
+    expect(mockExit).toHaveBeenCalledWith(1);
+
+    mockExit.mockRestore();
+  });
+
+  it('compares a local report with a report of a merge base', async () => {
+    const storage = { getRemoteReport, getReportForCommit };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    vitest.mocked(readConfig).mockResolvedValueOnce({ storage } as any);
+
+    getRemoteReport.mockClear();
+    findMergeBaseReport.mockResolvedValue({
+      commitSHA: 'parent-sha',
+      mergeBase: 'merge-base-sha',
+      distance: 1,
+      remoteReport: sampleReport,
+    });
+    collectLocalReport.mockImplementation(() => sampleReport);
+    compareResultsInReports.mockImplementation(() => sampleComparedReport);
+
+    const options: CompareReportsOptions = {
+      quiet: true,
+      branch: 'main',
+      'merge-base': true,
+      output: 'cli',
+      deltaFormat: 'percent',
+    };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await api.handler(options as any);
+
+    expect(findMergeBaseReport).toHaveBeenCalledWith(storage, 'main');
+    expect(getRemoteReport).not.toHaveBeenCalled();
+    expect(cliReporter).toHaveBeenCalledWith(
+      sampleComparedReport,
+      expect.objectContaining({ commitSHA: 'parent-sha', mergeBase: { commitSHA: 'merge-base-sha', distance: 1 } }),
+    );
+  });
+
+  it('falls back to a latest report of a branch if reports of a merge base are not found', async () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    vitest.mocked(readConfig).mockResolvedValueOnce({ storage: { getRemoteReport, getReportForCommit } } as any);
+
+    findMergeBaseReport.mockResolvedValue(undefined);
+    getRemoteReport.mockResolvedValue({ commitSHA: 'test', remoteReport: sampleReport });
+    collectLocalReport.mockImplementation(() => sampleReport);
+    compareResultsInReports.mockImplementation(() => sampleComparedReport);
+
+    const options: CompareReportsOptions = {
+      quiet: true,
+      branch: 'main',
+      'merge-base': true,
+      output: 'cli',
+      deltaFormat: 'percent',
+    };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await api.handler(options as any);
+
+    expect(getRemoteReport).toHaveBeenCalledWith('main');
+    expect(cliReporter).toHaveBeenCalledWith(
+      sampleComparedReport,
+      expect.objectContaining({ commitSHA: 'test', mergeBase: undefined }),
+    );
+  });
+
+  it('compares a local report with a baseline report built from a merge base', async () => {
+    const config = { repository: 'https://github.com/microsoft/monosize' };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    vitest.mocked(readConfig).mockResolvedValueOnce(config as any);
+
+    getMergeBase.mockReturnValue('merge-base-sha');
+    buildBaselineReport.mockResolvedValue(sampleReport);
+    collectLocalReport.mockImplementation(() => sampleReport);
+    compareResultsInReports.mockImplementation(() => sampleComparedReport);
+
+    const options: CompareReportsOptions = {
+      quiet: true,
+      branch: 'main',
+      'build-baseline': true,
+      fixtures: 'Button.fixture.js',
+      output: 'cli',
+      deltaFormat: 'percent',
+    };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await api.handler(options as any);
+
+    expect(getMergeBase).toHaveBeenCalledWith('main', process.cwd());
+    expect(buildBaselineReport).toHaveBeenCalledWith({
+      config,
+      metrics: DEFAULT_METRICS,
+      commitSHA: 'merge-base-sha',
+      fixturesGlob: 'Button.fixture.js',
+      reportFilesGlob: undefined,
+      quiet: true,
+    });
+    expect(cliReporter).toHaveBeenCalledWith(
+      sampleComparedReport,
+      expect.objectContaining({
+        builtLocally: true,
+        commitSHA: 'merge-base-sha',
+        mergeBase: { commitSHA: 'merge-base-sha', distance: 0 },
+      }),
+    );
+  });
+
+  it('passes a noise floor', async () => {
+    vitest.mocked(readConfig).mockResolvedValueOnce({
+      storage: { getRemoteReport },
+      noiseFloor: { gzip: '8 B' },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+
+    getRemoteReport.mockResolvedValue({ commitSHA: 'test', remoteReport: sampleReport });
+    collectLocalReport.mockImplementation(() => sampleReport);
+    compareResultsInReports.mockImplementation(() => sampleComparedReport);
+
+    const options: CompareReportsOptions = { quiet: true, branch: 'master', output: 'cli', deltaFormat: 'percent' };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await api.handler(options as any);
+
+    expect(compareResultsInReports).toHaveBeenCalledWith(
+      sampleReport,
+      sampleReport,
+      expect.objectContaining({ noiseFloor: { gzip: [{ size: 8, type: 'size' }] } }),
+    );
+  });
+
+  it('passes size overrides that are not expired', async () => {
+    const activeOverride = { packageName: 'foo', reason: 'A new feature', maxSize: {}, maxDelta: {} };
+    const expiredOverride = { ...activeOverride, reason: 'An old feature', expires: 'abc123' };
+
+    readSizeOverrides.mockResolvedValueOnce([activeOverride, expiredOverride]);
+    isSizeOverrideExpired.mockReturnValueOnce(false).mockReturnValueOnce(true);
+    getRemoteReport.mockResolvedValue({ commitSHA: 'test', remoteReport: sampleReport });
+    collectLocalReport.mockImplementation(() => sampleReport);
+    compareResultsInReports.mockImplementation(() => sampleComparedReport);
+
+    const options: CompareReportsOptions = { quiet: true, branch: 'master', output: 'cli', deltaFormat: 'percent' };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await api.handler(options as any);
+
+    expect(isSizeOverrideExpired).toHaveBeenCalledWith(expiredOverride, { baselineCommitSHA: 'test' });
+    expect(compareResultsInReports).toHaveBeenCalledWith(
+      sampleReport,
+      sampleReport,
+      expect.objectContaining({ overrides: [activeOverride] }),
+    );
+  });
+
+  it('exits with a non-zero code if size overrides are invalid', async () => {
+    const mockExit = vitest.spyOn(process, 'exit').mockImplementation((() => {
+      throw new Error('process.exit');
+    }) as () => never);
+
+    readSizeOverrides.mockRejectedValueOnce(new Error('Invalid size override #1: "reason" is required.'));
+
+    const options: CompareReportsOptions = { quiet: true, branch: 'master', output: 'cli', deltaFormat: 'percent' };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await expect(api.handler(options as any)).rejects.toThrow('process.exit');
+    expect(mockExit).toHaveBeenCalledWith(1);
+
+    mockExit.mockRestore();
+  });
 });
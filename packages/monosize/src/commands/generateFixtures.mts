@@ -0,0 +1,111 @@
+import { glob } from 'glob';
+import fs from 'node:fs';
+import path from 'node:path';
+import type { CommandModule } from 'yargs';
+
+import { createFixtures, GENERATED_FIXTURE_HEADER, type FixturesMode } from '../utils/createFixtures.mjs';
+import { getModuleExports } from '../utils/getModuleExports.mjs';
+import { getPackageEntryPoints, type PackageJson } from '../utils/getPackageEntryPoints.mjs';
+import type { CliOptions } from '../index.mjs';
+import { logger, timestamp } from '../logger.mjs';
+
+export type GenerateFixturesOptions = CliOptions & {
+  mode: FixturesMode;
+};
+
+async function isGeneratedFixture(fixturePath: string): Promise<boolean> {
+  const content = await fs.promises.readFile(fixturePath, 'utf8');
+
+  return content.startsWith(GENERATED_FIXTURE_HEADER);
+}
+
+async function generateFixtures(options: GenerateFixturesOptions) {
+  const { mode = 'subpath', quiet } = options;
+  const startTime = timestamp();
+
+  const packageRoot = process.cwd();
+  const fixturesDir = path.resolve(packageRoot, 'bundle-size');
+
+  const packageJson: PackageJson = JSON.parse(
+    await fs.promises.readFile(path.resolve(packageRoot, 'package.json'), 'utf8'),
+  );
+  const entryPoints = await Promise.all(
+    getPackageEntryPoints(packageRoot, packageJson).map(async entryPoint => ({
+      ...entryPoint,
+      exports: await getModuleExports(entryPoint.filePath),
+    })),
+  );
+
+  // "main" is used only if there are no "exports" & "module", it's likely a CommonJS module that has no ES exports
+  const usesMain = packageJson.exports === undefined && packageJson.module === undefined && !!packageJson.main;
+
+  entryPoints
+    .filter(entryPoint => entryPoint.exports.length === 0)
+    .forEach(entryPoint => {
+      if (usesMain) {
+        logger.warn(
+          `Entry point "${entryPoint.subpath}" resolves to "main" that has no ES exports (a CommonJS module?) and is skipped, add "module" or "exports" to package.json`,
+        );
+      } else if (!quiet) {
+        logger.info(`Entry point "${entryPoint.subpath}" has no named exports and is skipped`);
+      }
+    });
+
+  const fixtures = createFixtures(packageJson.name, entryPoints, mode);
+  const fixtureFileNames = new Set(fixtures.map(fixture => fixture.fileName));
+
+  await fs.promises.mkdir(fixturesDir, { recursive: true });
+
+  // Generated fixtures that don't match current exports are stale, fixtures written by hand are never touched
+  const existingFixtures = await glob('*.fixture.js', { cwd: fixturesDir });
+  const existingGeneratedFixtures = new Set<string>();
+
+  for (const fileName of existingFixtures) {
+    if (await isGeneratedFixture(path.resolve(fixturesDir, fileName))) {
+      existingGeneratedFixtures.add(fileName);
+    }
+  }
+
+  const staleFixtures = [...existingGeneratedFixtures].filter(fileName => !fixtureFileNames.has(fileName));
+
+  await Promise.all(staleFixtures.map(fileName => fs.promises.rm(path.resolve(fixturesDir, fileName))));
+
+  let writtenFixtures = 0;
+
+  for (const fixture of fixtures) {
+    if (existingFixtures.includes(fixture.fileName) && !existingGeneratedFixtures.has(fixture.fileName)) {
+      if (!quiet) {
+        logger.info(`Fixture "${fixture.fileName}" is not generated and is kept as is`);
+      }
+
+      continue;
+    }
+
+    await fs.promises.writeFile(path.resolve(fixturesDir, fixture.fileName), fixture.content);
+    writtenFixtures++;
+  }
+
+  if (!quiet) {
+    logger.info(`${writtenFixtures} fixture(s) generated, ${staleFixtures.length} stale fixture(s) removed`);
+    logger.finish(`Completed`, startTime);
+  }
+}
+
+// ---
+
+const api: CommandModule<Record<string, unknown>, GenerateFixturesOptions> = {
+  command: 'generate-fixtures',
+  describe: 'generates fixtures for exports of a package based on "exports" in package.json',
+  handler: generateFixtures,
+  builder: {
+    mode: {
+      type: 'string',
+      choices: ['export', 'subpath', 'package'] as const,
+      description:
+        'Defines how exports are split to fixtures: "export" creates a fixture per export, "subpath" per subpath of "exports", "package" a single fixture.',
+      default: 'subpath',
+    },
+  },
+};
+
+export default api;
@@ -0,0 +1,103 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import tmp from 'tmp';
+import { beforeEach, describe, expect, it, vitest } from 'vitest';
+
+import api, { type GenerateFixturesOptions } from './generateFixtures.mjs';
+import { GENERATED_FIXTURE_HEADER } from '../utils/createFixtures.mjs';
+import { logger } from '../logger.mjs';
+
+function setup(
+  fixtures: Record<string, string>,
+  packageJson: object = { name: 'pkg', exports: { '.': './lib/index.js' } },
+) {
+  const packageDir = tmp.dirSync({ prefix: 'generateFixtures', unsafeCleanup: true });
+
+  const cwd = vitest.spyOn(process, 'cwd');
+  cwd.mockReturnValue(packageDir.name);
+
+  fs.mkdirSync(path.resolve(packageDir.name, 'lib'));
+  fs.mkdirSync(path.resolve(packageDir.name, 'bundle-size'));
+
+  fs.writeFileSync(path.resolve(packageDir.name, 'package.json'), JSON.stringify(packageJson));
+  fs.writeFileSync(path.resolve(packageDir.name, 'lib/index.js'), 'export const Button = 1, Input = 2;');
+
+  for (const [fixture, content] of Object.entries(fixtures)) {
+    fs.writeFileSync(path.resolve(packageDir.name, 'bundle-size', fixture), content);
+  }
+
+  return { fixturesDir: path.resolve(packageDir.name, 'bundle-size') };
+}
+
+// eslint-disable-next-line @typescript-eslint/no-empty-function
+const noop = () => {};
+
+describe('generateFixtures', () => {
+  beforeEach(() => {
+    vitest.spyOn(logger, 'info').mockImplementation(noop);
+    vitest.spyOn(logger, 'warn').mockImplementation(noop);
+    vitest.spyOn(logger, 'finish').mockImplementation(noop);
+  });
+
+  it('writes fixtures & removes stale generated fixtures', async () => {
+    const { fixturesDir } = setup({
+      'Removed.fixture.js': `${GENERATED_FIXTURE_HEADER}\nexport { Removed } from 'pkg';\nexport default { name: 'Removed' };`,
+      'Input.fixture.js': `${GENERATED_FIXTURE_HEADER}\nexport { Input } from 'pkg';\nexport default { name: 'Input' };`,
+      'Custom.fixture.js': `export { Custom } from 'pkg';\nexport default { name: 'Custom' };`,
+    });
+    const options = { mode: 'export', quiet: true } as GenerateFixturesOptions;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await api.handler(options as any);
+
+    expect(fs.readdirSync(fixturesDir).sort()).toEqual(['Button.fixture.js', 'Custom.fixture.js', 'Input.fixture.js']);
+    expect(fs.readFileSync(path.resolve(fixturesDir, 'Button.fixture.js'), 'utf8')).toMatchInlineSnapshot(`
+      "// This file is generated by "monosize generate-fixtures", do not edit it manually.
+
+      export { Button } from 'pkg';
+
+      export default {
+        name: "Button",
+      };
+      "
+    `);
+  });
+
+  it('does not overwrite fixtures written by hand', async () => {
+    const fixture = `export { Button } from 'pkg';\nexport default { name: 'Custom Button' };`;
+    const { fixturesDir } = setup({ 'Button.fixture.js': fixture });
+    const options = { mode: 'export', quiet: false } as GenerateFixturesOptions;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await api.handler(options as any);
+
+    expect(fs.readFileSync(path.resolve(fixturesDir, 'Button.fixture.js'), 'utf8')).toBe(fixture);
+    expect(fs.existsSync(path.resolve(fixturesDir, 'Input.fixture.js'))).toBe(true);
+    expect(logger.info).toHaveBeenCalledWith('Fixture "Button.fixture.js" is not generated and is kept as is');
+  });
+
+  it('does not log kept fixtures in quiet mode', async () => {
+    setup({ 'Button.fixture.js': `export { Button } from 'pkg';\nexport default { name: 'Custom Button' };` });
+    const options = { mode: 'export', quiet: true } as GenerateFixturesOptions;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await api.handler(options as any);
+
+    expect(logger.info).not.toHaveBeenCalledWith('Fixture "Button.fixture.js" is not generated and is kept as is');
+  });
+
+  it('warns about "main" without ES exports', async () => {
+    const { fixturesDir } = setup({}, { name: 'pkg', main: './lib/main.js' });
+    const options = { mode: 'subpath', quiet: true } as GenerateFixturesOptions;
+
+    fs.writeFileSync(path.resolve(fixturesDir, '../lib/main.js'), 'module.exports = { Button: 1 };');
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await api.handler(options as any);
+
+    expect(fs.readdirSync(fixturesDir)).toEqual([]);
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Entry point "." resolves to "main" that has no ES exports (a CommonJS module?) and is skipped, add "module" or "exports" to package.json',
+    );
+  });
+});
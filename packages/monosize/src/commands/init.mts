@@ -0,0 +1,201 @@
+import { findUp } from 'find-up';
+import fs from 'node:fs';
+import path from 'node:path';
+import readline from 'node:readline/promises';
+import type { CommandModule } from 'yargs';
+
+import type { CliOptions } from '../index.mjs';
+import { logger, timestamp } from '../logger.mjs';
+
+export type InitOptions = CliOptions & {
+  /** If defined, answers a question about adding a "bundle-size" script to package.json. */
+  script?: boolean;
+};
+
+type InstalledAdapters = {
+  bundlers: string[];
+  storages: string[];
+};
+
+const CONFIG_FILE_NAMES = ['monosize.config.js', 'monosize.config.mjs'];
+const BUNDLE_SIZE_SCRIPT = 'monosize measure';
+
+/**
+ * Finds adapters installed in "node_modules" directories of a package and its parents (i.e. a monorepo root).
+ */
+function findInstalledAdapters(packageRoot: string): InstalledAdapters {
+  const packages = new Set<string>();
+  let directory = packageRoot;
+  let parentDirectory = path.dirname(directory);
+
+  // Walks up to the root of a file system, the root has itself as a parent
+  while (directory !== parentDirectory) {
+    const nodeModulesDir = path.resolve(directory, 'node_modules');
+
+    if (fs.existsSync(nodeModulesDir)) {
+      fs.readdirSync(nodeModulesDir).forEach(packageName => packages.add(packageName));
+    }
+
+    directory = parentDirectory;
+    parentDirectory = path.dirname(directory);
+  }
+
+  const installedPackages = [...packages].sort();
+
+  return {
+    bundlers: installedPackages.filter(packageName => packageName.startsWith('monosize-bundler-')),
+    storages: installedPackages.filter(packageName => packageName.startsWith('monosize-storage-')),
+  };
+}
+
+/**
+ * Returns a name of a default import for an adapter, e.g. "webpackBundler" for "monosize-bundler-webpack".
+ */
+function getAdapterIdentifier(packageName: string): string {
+  const [, kind, name] = packageName.match(/^monosize-(bundler|storage)-(.+)$/) as RegExpMatchArray;
+  const identifier = name.replace(/[^a-zA-Z0-9]+(.)?/g, (_, char: string | undefined) => char?.toUpperCase() ?? '');
+
+  return `${/^\d/.test(identifier) ? '_' : ''}${identifier}${kind[0].toUpperCase()}${kind.slice(1)}`;
+}
+
+function createConfig(bundler: string, storage: string | undefined): string {
+  const bundlerIdentifier = getAdapterIdentifier(bundler);
+  const storageIdentifier = storage && getAdapterIdentifier(storage);
+
+  return [
+    `import ${bundlerIdentifier} from '${bundler}';`,
+    ...(storage ? [`import ${storageIdentifier} from '${storage}';`] : []),
+    '',
+    `/** @type {import('monosize').MonoSizeConfig} */`,
+    'const config = {',
+    `  repository: 'https://github.com/__ORG__/__REPOSITORY__',`,
+    `  bundler: ${bundlerIdentifier}(config => {`,
+    '    // customize config here',
+    '    return config;',
+    '  }),',
+    ...(storage
+      ? [
+          `  storage: ${storageIdentifier}({`,
+          `    // see https://github.com/microsoft/monosize/tree/main/packages/${storage} for options`,
+          '  }),',
+        ]
+      : []),
+    '};',
+    '',
+    'export default config;',
+    '',
+  ].join('\n');
+}
+
+function createFixture(packageName: string): string {
+  return [`export * from '${packageName}';`, '', 'export default {', `  name: '${packageName}',`, '};', ''].join('\n');
+}
+
+async function askToAddScript(): Promise<boolean> {
+  // Questions can't be answered in CI or when the output is piped
+  if (!process.stdin.isTTY) {
+    return false;
+  }
+
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  const answer = await rl.question(`Add a "bundle-size" script ("${BUNDLE_SIZE_SCRIPT}") to package.json? (y/N) `);
+
+  rl.close();
+
+  return /^y(es)?$/i.test(answer.trim());
+}
+
+async function init(options: InitOptions) {
+  const { quiet } = options;
+  const startTime = timestamp();
+
+  const packageRoot = process.cwd();
+  const packageJsonPath = path.resolve(packageRoot, 'package.json');
+
+  if (!fs.existsSync(packageJsonPath)) {
+    logger.error(`No "package.json" found in ${packageRoot}, "init" should be executed in a package root`);
+    process.exit(1);
+  }
+
+  const packageJson = JSON.parse(await fs.promises.readFile(packageJsonPath, 'utf8'));
+  const existingConfigPath = await findUp(CONFIG_FILE_NAMES, { cwd: packageRoot });
+
+  if (existingConfigPath) {
+    if (!quiet) {
+      logger.info(`A config already exists in ${existingConfigPath}, skipping its creation`);
+    }
+  } else {
+    const { bundlers, storages } = findInstalledAdapters(packageRoot);
+
+    if (bundlers.length === 0) {
+      logger.error(
+        'No bundler adapters found, install one of them first (for example, "monosize-bundler-webpack"). See https://github.com/microsoft/monosize#bundler-adapters',
+      );
+      process.exit(1);
+    }
+
+    if (!quiet && bundlers.length > 1) {
+      logger.info(`Multiple bundler adapters found (${bundlers.join(', ')}), "${bundlers[0]}" is used`);
+    }
+
+    const configPath = path.resolve(packageRoot, 'monosize.config.mjs');
+
+    await fs.promises.writeFile(configPath, createConfig(bundlers[0], storages[0]));
+
+    if (!quiet) {
+      logger.success(`Created a config in ${configPath}`);
+    }
+  }
+
+  const fixturesDir = path.resolve(packageRoot, 'bundle-size');
+  const hasFixtures = fs.existsSync(fixturesDir) && fs.readdirSync(fixturesDir).some(file => /\.fixture\./.test(file));
+
+  if (hasFixtures) {
+    if (!quiet) {
+      logger.info(`Fixtures already exist in ${fixturesDir}, skipping creation of a starter fixture`);
+    }
+  } else {
+    const fixturePath = path.resolve(fixturesDir, 'index.fixture.js');
+
+    await fs.promises.mkdir(fixturesDir, { recursive: true });
+    await fs.promises.writeFile(fixturePath, createFixture(packageJson.name));
+
+    if (!quiet) {
+      logger.success(`Created a starter fixture in ${fixturePath}`);
+    }
+  }
+
+  if (!packageJson.scripts?.['bundle-size'] && (options.script ?? (await askToAddScript()))) {
+    packageJson.scripts = { ...packageJson.scripts, 'bundle-size': BUNDLE_SIZE_SCRIPT };
+
+    // Keeps the indentation of package.json
+    const indent = (await fs.promises.readFile(packageJsonPath, 'utf8')).match(/^\{\r?\n([ \t]+)/)?.[1] ?? 2;
+
+    await fs.promises.writeFile(packageJsonPath, JSON.stringify(packageJson, null, indent) + '\n');
+
+    if (!quiet) {
+      logger.success(`Added a "bundle-size" script to ${packageJsonPath}`);
+    }
+  }
+
+  if (!quiet) {
+    logger.finish(`Completed`, startTime);
+  }
+}
+
+// ---
+
+const api: CommandModule<Record<string, unknown>, InitOptions> = {
+  command: 'init',
+  describe: 'creates a config, a starter fixture & a script to measure a package',
+  handler: init,
+  builder: {
+    script: {
+      type: 'boolean',
+      description:
+        'Adds a "bundle-size" script to package.json without asking, pass "--no-script" to skip it. If not specified, asks in interactive terminals.',
+    },
+  },
+};
+
+export default api;
@@ -0,0 +1,128 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import tmp from 'tmp';
+import { beforeEach, describe, expect, it, vitest } from 'vitest';
+
+import api, { type InitOptions } from './init.mjs';
+import { logger } from '../logger.mjs';
+import { prepareFixture } from '../utils/prepareFixture.mjs';
+
+function setup(installedPackages: string[], packageJson: object = { name: '@scope/pkg' }) {
+  const rootDir = tmp.dirSync({ prefix: 'init', unsafeCleanup: true });
+  const packageDir = path.resolve(rootDir.name, 'packages/pkg');
+
+  const cwd = vitest.spyOn(process, 'cwd');
+  cwd.mockReturnValue(packageDir);
+
+  fs.mkdirSync(packageDir, { recursive: true });
+  fs.writeFileSync(path.resolve(packageDir, 'package.json'), JSON.stringify(packageJson, null, 2));
+
+  // Adapters are usually installed in a monorepo root
+  for (const packageName of installedPackages) {
+    fs.mkdirSync(path.resolve(rootDir.name, 'node_modules', packageName), { recursive: true });
+  }
+
+  return { packageDir };
+}
+
+// eslint-disable-next-line @typescript-eslint/no-empty-function
+const noop = () => {};
+
+describe('init', () => {
+  beforeEach(() => {
+    vitest.spyOn(logger, 'info').mockImplementation(noop);
+    vitest.spyOn(logger, 'success').mockImplementation(noop);
+    vitest.spyOn(logger, 'finish').mockImplementation(noop);
+  });
+
+  it('creates a config with installed adapters, a fixture & a script', async () => {
+    const { packageDir } = setup(['monosize', 'monosize-bundler-webpack', 'monosize-storage-upstash', 'webpack']);
+    const options = { quiet: true, script: true } as InitOptions;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await api.handler(options as any);
+
+    expect(fs.readFileSync(path.resolve(packageDir, 'monosize.config.mjs'), 'utf8')).toMatchInlineSnapshot(`
+      "import webpackBundler from 'monosize-bundler-webpack';
+      import upstashStorage from 'monosize-storage-upstash';
+
+      /** @type {import('monosize').MonoSizeConfig} */
+      const config = {
+        repository: 'https://github.com/__ORG__/__REPOSITORY__',
+        bundler: webpackBundler(config => {
+          // customize config here
+          return config;
+        }),
+        storage: upstashStorage({
+          // see https://github.com/microsoft/monosize/tree/main/packages/monosize-storage-upstash for options
+        }),
+      };
+
+      export default config;
+      "
+    `);
+    expect(fs.readFileSync(path.resolve(packageDir, 'bundle-size/index.fixture.js'), 'utf8')).toMatchInlineSnapshot(`
+      "export * from '@scope/pkg';
+
+      export default {
+        name: '@scope/pkg',
+      };
+      "
+    `);
+    expect(JSON.parse(fs.readFileSync(path.resolve(packageDir, 'package.json'), 'utf8'))).toEqual({
+      name: '@scope/pkg',
+      scripts: { 'bundle-size': 'monosize measure' },
+    });
+  });
+
+  it('creates a fixture that passes validation', async () => {
+    const { packageDir } = setup(['monosize-bundler-esbuild']);
+    const options = { quiet: true, script: false } as InitOptions;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await api.handler(options as any);
+
+    const artifactsDir = tmp.dirSync({ prefix: 'init-artifacts', unsafeCleanup: true });
+    const fixture = await prepareFixture(artifactsDir.name, path.resolve(packageDir, 'bundle-size/index.fixture.js'));
+
+    expect(fixture.name).toBe('@scope/pkg');
+    expect(fs.readFileSync(path.resolve(packageDir, 'monosize.config.mjs'), 'utf8')).toContain(
+      `import esbuildBundler from 'monosize-bundler-esbuild';`,
+    );
+    expect(JSON.parse(fs.readFileSync(path.resolve(packageDir, 'package.json'), 'utf8'))).toEqual({
+      name: '@scope/pkg',
+    });
+  });
+
+  it('keeps an existing config & fixtures', async () => {
+    const { packageDir } = setup(['monosize-bundler-webpack']);
+    const options = { quiet: false, script: false } as InitOptions;
+
+    fs.writeFileSync(path.resolve(packageDir, '../../monosize.config.mjs'), 'export default {};');
+    fs.mkdirSync(path.resolve(packageDir, 'bundle-size'));
+    fs.writeFileSync(path.resolve(packageDir, 'bundle-size/Button.fixture.js'), '');
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await api.handler(options as any);
+
+    expect(fs.existsSync(path.resolve(packageDir, 'monosize.config.mjs'))).toBe(false);
+    expect(fs.readdirSync(path.resolve(packageDir, 'bundle-size'))).toEqual(['Button.fixture.js']);
+    expect(logger.info).toHaveBeenCalledTimes(2);
+  });
+
+  it('exits if no bundler adapters are installed', async () => {
+    setup(['monosize-storage-upstash']);
+    const options = { quiet: true, script: false } as InitOptions;
+
+    const error = vitest.spyOn(logger, 'error').mockImplementation(noop);
+    const exit = vitest.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('process.exit');
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await expect(api.handler(options as any)).rejects.toThrow('process.exit');
+
+    expect(error).toHaveBeenCalledTimes(1);
+    expect(exit).toHaveBeenCalledWith(1);
+  });
+});
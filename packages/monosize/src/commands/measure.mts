@@ -1,15 +1,14 @@
 import Table from 'cli-table3';
-import { glob } from 'glob';
-import { gzipSizeFromFile } from 'gzip-size';
-import fs from 'node:fs';
-import path from 'node:path';
 import type { CommandModule } from 'yargs';
 
+import { checkBudgets, formatBudgetViolation, resolveBudgets } from '../utils/checkBudgets.mjs';
+import { getPackageName } from '../utils/collectLocalReport.mjs';
 import { formatBytes } from '../utils/helpers.mjs';
-import { prepareFixture } from '../utils/prepareFixture.mjs';
+import { DEFAULT_FIXTURES_GLOB, measurePackage, type Measurement } from '../utils/measurePackage.mjs';
+import { resolveMetrics, type MetricDefinition } from '../utils/metrics.mjs';
 import { readConfig } from '../utils/readConfig.mjs';
 import type { CliOptions } from '../index.mjs';
-import type { BuildResult } from '../types.mjs';
+import type { BuildResult, MonoSizeConfig } from '../types.mjs';
 import { logger, timestamp } from '../logger.mjs';
 
 export type MeasureOptions = CliOptions & {
@@ -20,112 +19,77 @@ export type MeasureOptions = CliOptions & {
 };
 
 /**
- * Measures the size of a single built fixture output.
+ * Checks sizes of fixtures against budgets from a config & metadata of fixtures, returns messages for exceeded budgets.
  */
-async function measureFixtureSize(outputPath: string, name: string, originalPath: string): Promise<BuildResult> {
-  const minifiedSize = (await fs.promises.stat(outputPath)).size;
-  const gzippedSize = await gzipSizeFromFile(outputPath);
-
-  return {
-    name,
-    path: path.relative(process.cwd(), originalPath).replaceAll(path.sep, '/'),
-    minifiedSize,
-    gzippedSize,
-  };
-}
-
-/**
- * Builds fixtures using batch mode (all at once with multi-entry).
- */
-async function buildFixturesInBatchMode(
-  config: Awaited<ReturnType<typeof readConfig>>,
-  fixtures: string[],
-  artifactsDir: string,
-  debug: boolean,
-  quiet: boolean,
-): Promise<BuildResult[]> {
-  const buildStartTime = process.hrtime();
-
-  // Prepare all fixtures first
-  const preparedFixtures = await Promise.all(
-    fixtures.map(async fixturePath => {
-      const { artifactPath, name } = await prepareFixture(artifactsDir, fixturePath);
-      return { fixturePath: artifactPath, name, originalPath: fixturePath };
-    }),
-  );
-
-  // Build all fixtures at once
-  const buildResults = await config.bundler.buildFixtures({
-    fixtures: preparedFixtures.map(f => ({ fixturePath: f.fixturePath, name: f.name })),
-    debug,
-    quiet,
-  });
-
-  // Measure sizes for each output
-  const measurements = await Promise.all(
-    buildResults.map((result, i) =>
-      measureFixtureSize(result.outputPath, result.name, preparedFixtures[i].originalPath),
-    ),
-  );
-
-  if (!quiet) {
-    logger.info(`All ${fixtures.length} fixture(s) built in batch mode`, buildStartTime);
-  }
-
-  return measurements;
-}
-
-/**
- * Builds fixtures using sequential mode (one at a time).
- */
-async function buildFixturesInSequentialMode(
-  config: Awaited<ReturnType<typeof readConfig>>,
-  fixtures: string[],
-  artifactsDir: string,
-  debug: boolean,
-  quiet: boolean,
-): Promise<BuildResult[]> {
-  const measurements: BuildResult[] = [];
-
-  for (const fixturePath of fixtures) {
-    const fixtureStartTime = process.hrtime();
-
-    const { artifactPath, name } = await prepareFixture(artifactsDir, fixturePath);
-    const { outputPath } = await config.bundler.buildFixture({
-      debug,
-      fixturePath: artifactPath,
-      quiet,
+async function getBudgetErrors(
+  config: MonoSizeConfig,
+  measurements: Measurement[],
+  metrics: MetricDefinition[],
+): Promise<string[]> {
+  // A package name is resolved only if it's needed as it requires "package.json" or "project.json"
+  const packageName = config.budgets?.packages
+    ? await (config.reportResolvers?.packageName ?? getPackageName)(process.cwd())
+    : undefined;
+
+  return measurements.flatMap(({ result }) => {
+    const violations = checkBudgets({
+      sizes: result,
+      budgets: resolveBudgets({ budgets: config.budgets, packageName, fixtureBudgets: result.budgets }),
+      metrics,
     });
 
-    const measurement = await measureFixtureSize(outputPath, name, fixturePath);
-    measurements.push(measurement);
-
-    if (!quiet) {
-      logger.info(`Fixture "${path.basename(fixturePath)}" built`, fixtureStartTime);
+    if (violations.length === 0) {
+      return [];
     }
-  }
 
-  return measurements;
+    return [
+      `Fixture "${result.name}" exceeds budgets: ${violations.map(violation => formatBudgetViolation(violation, metrics)).join(', ')}`,
+    ];
+  });
 }
 
 /**
  * Displays the measurement results in a table format.
  */
-function displayResults(measurements: BuildResult[], startTime: [number, number], quiet: boolean): void {
+function displayResults(
+  measurements: BuildResult[],
+  metrics: MetricDefinition[],
+  startTime: [number, number],
+  quiet: boolean,
+): void {
   if (quiet) {
     return;
   }
 
   const table = new Table({
-    head: ['Fixture', 'Minified size', 'GZIP size'],
+    head: ['Fixture', ...metrics.map(metric => `${metric.title.charAt(0).toUpperCase()}${metric.title.slice(1)} size`)],
   });
   const sortedMeasurements = [...measurements].sort((a, b) => a.path.localeCompare(b.path));
 
   sortedMeasurements.forEach(r => {
-    table.push([r.name, formatBytes(r.minifiedSize), formatBytes(r.gzippedSize)]);
+    table.push([
+      r.name,
+      ...metrics.map(
+        metric =>
+          formatBytes(r[metric.reportKey]) +
+          (r.totalSizes ? ` (${formatBytes(r.totalSizes[metric.reportKey])} with async chunks)` : ''),
+      ),
+    ]);
   });
 
   logger.raw(table.toString());
+
+  sortedMeasurements.forEach(({ duplicatePackages = [], name }) => {
+    if (duplicatePackages.length > 0) {
+      const packages = duplicatePackages.map(
+        duplicatePackage =>
+          `${duplicatePackage.name} (${duplicatePackage.copies.map(copy => copy.version ?? copy.path).join(', ')})`,
+      );
+
+      logger.info(`Fixture "${name}" includes duplicate packages: ${packages.join(', ')}`);
+    }
+  });
+
   logger.finish(`Completed`, startTime);
 }
 
@@ -139,53 +103,45 @@ async function measure(options: MeasureOptions) {
   } = options;
 
   const startTime = timestamp();
-  const artifactsDir = path.resolve(process.cwd(), artifactsLocation);
 
-  // thrown error if cwd is set as artifactsLocation is set to '.' since next step is to rm everything
-  if (artifactsDir === process.cwd()) {
-    throw new Error("'--artifacts-location' cannot be the same as current working directory");
+  const config = await readConfig(quiet);
+  const metrics = resolveMetrics(config.metrics);
+
+  let measurements: Measurement[];
+
+  try {
+    measurements = await measurePackage({
+      config,
+      metrics,
+      cwd: process.cwd(),
+      artifactsLocation,
+      fixturesGlob,
+      buildMode,
+      debug,
+      quiet,
+    });
+  } catch (e) {
+    logger.error('Failed to measure fixtures...');
+    logger.error(e);
+    process.exit(1);
   }
 
-  await fs.promises.rm(artifactsDir, { recursive: true, force: true });
-  await fs.promises.mkdir(artifactsDir, { recursive: true });
-
-  if (!quiet) {
-    if (debug) {
-      logger.info('Running in debug mode...');
-    }
-    logger.info('Artifacts dir is cleared');
-  }
+  displayResults(
+    measurements.map(({ result }) => result),
+    metrics,
+    startTime,
+    quiet,
+  );
 
-  const fixtures = await glob(`bundle-size/${fixturesGlob}`, {
-    absolute: true,
-    cwd: process.cwd(),
-  });
+  const errors = [
+    ...measurements.flatMap(measurement => measurement.expectationErrors),
+    ...(await getBudgetErrors(config, measurements, metrics)),
+  ];
 
-  if (!fixtures.length && fixturesGlob) {
-    logger.error(`No matching fixtures found for globbing pattern '${fixturesGlob}'`);
+  if (errors.length > 0) {
+    errors.forEach(error => logger.error(error));
     process.exit(1);
   }
-
-  const config = await readConfig(quiet);
-
-  if (!quiet) {
-    logger.info(`Measuring bundle size for ${fixtures.length} fixture(s)...`);
-    logger.raw(fixtures.map(fixture => `  - ${fixture}`).join('\n'));
-    logger.info(`Using ${config.bundler.name} as a bundler...`);
-    logger.info(`Build mode: ${buildMode}`);
-  }
-
-  // Build fixtures using the appropriate mode
-  const measurements =
-    buildMode === 'batch'
-      ? await buildFixturesInBatchMode(config, fixtures, artifactsDir, debug, quiet)
-      : await buildFixturesInSequentialMode(config, fixtures, artifactsDir, debug, quiet);
-
-  measurements.sort((a, b) => a.path.localeCompare(b.path, 'en'));
-
-  await fs.promises.writeFile(path.resolve(artifactsDir, 'monosize.json'), JSON.stringify(measurements));
-
-  displayResults(measurements, startTime, quiet);
 }
 
 // ---
@@ -208,7 +164,7 @@ const api: CommandModule<Record<string, unknown>, MeasureOptions> = {
     fixtures: {
       type: 'string',
       description: 'Filename glob pattern to target whatever fixture files you want to measure.',
-      default: '*.fixture.js',
+      default: DEFAULT_FIXTURES_GLOB,
     },
     'build-mode': {
       type: 'string',
@@ -4,13 +4,14 @@ import tmp from 'tmp';
 import { beforeEach, describe, expect, it, vitest } from 'vitest';
 import api, { type MeasureOptions } from './measure.mjs';
 import { logger } from '../logger.mjs';
+import { readConfig } from '../utils/readConfig.mjs';
 
 const buildFixtures = vitest.hoisted(() =>
   vitest.fn().mockImplementation(async ({ fixtures }) => {
     return fixtures.map(({ fixturePath, name }: { fixturePath: string; name: string }) => {
       const outputPath = path.resolve(
         path.dirname(fixturePath),
-        path.basename(fixturePath).replace('.fixture.js', '.output.js'),
+        path.basename(fixturePath).replace(/\.fixture\.(js|ts|tsx)$/, '.output.js'),
       );
 
       fs.cpSync(fixturePath, outputPath);
@@ -95,16 +96,254 @@ describe('measure', () => {
         path: 'bundle-size/bar.fixture.js',
         minifiedSize: expect.any(Number),
         gzippedSize: expect.any(Number),
+        brotliSize: expect.any(Number),
       },
       {
         name: 'foo',
         path: 'bundle-size/foo.fixture.js',
         minifiedSize: expect.any(Number),
         gzippedSize: expect.any(Number),
+        brotliSize: expect.any(Number),
       },
     ]);
   });
 
+  it('stores thresholds declared in fixtures', async () => {
+    await setup({
+      'foo.fixture.js': `console.log('foo'); export default { name: 'foo', threshold: '5%' };`,
+      'bar.fixture.js': `console.log('bar'); export default { name: 'bar' };`,
+    });
+    const options: MeasureOptions = {
+      quiet: true,
+      debug: false,
+      'artifacts-location': 'output',
+      fixtures: '*.fixture.js',
+    };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await api.handler(options as any);
+
+    const report = JSON.parse(fs.readFileSync(path.resolve(process.cwd(), 'output', 'monosize.json'), 'utf-8'));
+
+    expect(report[0]).not.toHaveProperty('threshold');
+    expect(report[1]).toHaveProperty('threshold', '5%');
+  });
+
+  it('builds TypeScript fixtures', async () => {
+    const { packageDir } = await setup({
+      'foo.fixture.ts': `const foo: string = 'foo'; console.log(foo); export default { name: 'foo' };`,
+      'bar.fixture.tsx': `console.log(<div />); export default { name: 'bar' } as const;`,
+    });
+    const options: MeasureOptions = {
+      quiet: true,
+      debug: false,
+      'artifacts-location': 'output',
+      fixtures: '*.fixture.{js,ts,tsx}',
+    };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await api.handler(options as any);
+
+    expect(fs.readdirSync(path.resolve(packageDir, 'output'))).toEqual([
+      'bar.fixture.tsx',
+      'bar.output.js',
+      'foo.fixture.ts',
+      'foo.output.js',
+      'monosize.json',
+    ]);
+
+    const report = JSON.parse(fs.readFileSync(path.resolve(process.cwd(), 'output', 'monosize.json'), 'utf-8'));
+
+    expect(report.map((entry: { path: string }) => entry.path)).toEqual([
+      'bundle-size/bar.fixture.tsx',
+      'bundle-size/foo.fixture.ts',
+    ]);
+  });
+
+  it('records total sizes for fixtures with async chunks', async () => {
+    const { packageDir } = await setup(getMockedFixtures('foo', 'bar'));
+    const options: MeasureOptions = {
+      quiet: true,
+      debug: false,
+      'artifacts-location': 'output',
+      fixtures: '*.fixture.js',
+    };
+
+    buildFixtures.mockImplementationOnce(async ({ fixtures }) =>
+      fixtures.map(({ fixturePath, name }: { fixturePath: string; name: string }) => {
+        const outputPath = fixturePath.replace('.fixture.js', '.output.js');
+        const asyncChunkPath = fixturePath.replace('.fixture.js', '.async.js');
+
+        fs.writeFileSync(outputPath, 'a'.repeat(100));
+        fs.writeFileSync(asyncChunkPath, 'b'.repeat(50));
+
+        return {
+          name,
+          outputPath,
+          chunks:
+            name === 'foo'
+              ? [
+                  { path: outputPath, type: 'initial' },
+                  { path: asyncChunkPath, type: 'async' },
+                ]
+              : [{ path: outputPath, type: 'initial' }],
+        };
+      }),
+    );
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await api.handler(options as any);
+
+    const report = JSON.parse(fs.readFileSync(path.resolve(packageDir, 'output', 'monosize.json'), 'utf-8'));
+
+    expect(report).toEqual([
+      {
+        name: 'bar',
+        path: 'bundle-size/bar.fixture.js',
+        minifiedSize: 100,
+        gzippedSize: expect.any(Number),
+        brotliSize: expect.any(Number),
+      },
+      {
+        name: 'foo',
+        path: 'bundle-size/foo.fixture.js',
+        minifiedSize: 100,
+        gzippedSize: expect.any(Number),
+        brotliSize: expect.any(Number),
+        totalSizes: {
+          minifiedSize: 150,
+          gzippedSize: expect.any(Number),
+          brotliSize: expect.any(Number),
+        },
+      },
+    ]);
+  });
+
+  it('records sizes by asset types for fixtures with non-JS files', async () => {
+    const { packageDir } = await setup(getMockedFixtures('foo'));
+    const options: MeasureOptions = {
+      quiet: true,
+      debug: false,
+      'artifacts-location': 'output',
+      fixtures: '*.fixture.js',
+    };
+
+    buildFixtures.mockImplementationOnce(async ({ fixtures }) =>
+      fixtures.map(({ fixturePath, name }: { fixturePath: string; name: string }) => {
+        const outputPath = fixturePath.replace('.fixture.js', '.output.js');
+        const cssPath = fixturePath.replace('.fixture.js', '.output.css');
+        const fontPath = fixturePath.replace('.fixture.js', '.woff2');
+
+        fs.writeFileSync(outputPath, 'a'.repeat(100));
+        fs.writeFileSync(cssPath, 'b'.repeat(50));
+        fs.writeFileSync(fontPath, 'c'.repeat(20));
+
+        return {
+          name,
+          outputPath,
+          chunks: [
+            { path: outputPath, type: 'initial' },
+            { path: cssPath, type: 'initial' },
+            { path: fontPath, type: 'initial' },
+          ],
+        };
+      }),
+    );
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await api.handler(options as any);
+
+    const report = JSON.parse(fs.readFileSync(path.resolve(packageDir, 'output', 'monosize.json'), 'utf-8'));
+
+    expect(report[0]).toEqual({
+      name: 'foo',
+      path: 'bundle-size/foo.fixture.js',
+      minifiedSize: 170,
+      gzippedSize: expect.any(Number),
+      brotliSize: expect.any(Number),
+      assetSizes: {
+        js: { minifiedSize: 100, gzippedSize: expect.any(Number), brotliSize: expect.any(Number) },
+        css: { minifiedSize: 50, gzippedSize: expect.any(Number), brotliSize: expect.any(Number) },
+        other: { minifiedSize: 20, gzippedSize: expect.any(Number), brotliSize: expect.any(Number) },
+      },
+    });
+  });
+
+  it('writes sizes of modules to a separate file', async () => {
+    const { packageDir } = await setup(getMockedFixtures('foo', 'bar'));
+    const options: MeasureOptions = {
+      quiet: true,
+      debug: false,
+      'artifacts-location': 'output',
+      fixtures: '*.fixture.js',
+    };
+
+    buildFixtures.mockImplementationOnce(async ({ fixtures }) =>
+      fixtures.map(({ fixturePath, name }: { fixturePath: string; name: string }) => {
+        const outputPath = fixturePath.replace('.fixture.js', '.output.js');
+
+        fs.writeFileSync(outputPath, 'a'.repeat(100));
+
+        return {
+          name,
+          outputPath,
+          modules:
+            name === 'foo'
+              ? [
+                  { path: path.resolve(packageDir, 'src', 'foo.js'), size: 60 },
+                  { path: path.resolve(packageDir, 'src', 'foo.js'), size: 10 },
+                  { path: 'webpack/runtime/global', size: 30 },
+                ]
+              : undefined,
+        };
+      }),
+    );
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await api.handler(options as any);
+
+    const report = JSON.parse(fs.readFileSync(path.resolve(packageDir, 'output', 'monosize.json'), 'utf-8'));
+    const modules = JSON.parse(fs.readFileSync(path.resolve(packageDir, 'output', 'monosize.modules.json'), 'utf-8'));
+
+    expect(report[1]).not.toHaveProperty('modules');
+    expect(report[1]).toHaveProperty('duplicatePackages', []);
+    expect(report[0]).not.toHaveProperty('duplicatePackages');
+    expect(modules).toEqual({
+      'bundle-size/foo.fixture.js': {
+        'src/foo.js': 70,
+        'webpack/runtime/global': 30,
+      },
+    });
+  });
+
+  it('writes treemaps of modules in debug mode', async () => {
+    const { packageDir } = await setup(getMockedFixtures('foo'));
+    const options: MeasureOptions = {
+      quiet: true,
+      debug: true,
+      'artifacts-location': 'output',
+      fixtures: '*.fixture.js',
+    };
+
+    buildFixtures.mockImplementationOnce(async ({ fixtures }) =>
+      fixtures.map(({ fixturePath, name }: { fixturePath: string; name: string }) => {
+        const outputPath = fixturePath.replace('.fixture.js', '.output.js');
+
+        fs.writeFileSync(outputPath, 'a'.repeat(100));
+
+        return { name, outputPath, modules: [{ path: path.resolve(packageDir, 'src', 'foo.js'), size: 60 }] };
+      }),
+    );
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await api.handler(options as any);
+
+    const treemap = fs.readFileSync(path.resolve(packageDir, 'output', 'foo.treemap.html'), 'utf-8');
+
+    expect(treemap).toMatch(/^<!DOCTYPE html>/);
+    expect(treemap).toContain('"path":"src/foo.js"');
+  });
+
   it('builds single targeted fixture when full filename passed', async () => {
     const { packageDir } = await setup(getMockedFixtures('foo', 'bar', 'baz'));
     const options: MeasureOptions = {
@@ -150,8 +389,9 @@ describe('measure', () => {
 
   it('returns exit code of 1 and displays message when fixtures argument fails to match any fixture filename', async () => {
     const errorLog = vitest.spyOn(logger, 'error').mockImplementation(noop);
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const mockExit = vitest.spyOn(process, 'exit').mockImplementation(noop as any);
+    const mockExit = vitest.spyOn(process, 'exit').mockImplementation((() => {
+      throw new Error('process.exit');
+    }) as () => never);
 
     await setup({});
     const options: MeasureOptions = {
@@ -161,10 +401,79 @@ describe('measure', () => {
       fixtures: 'invalid-filename.js',
     };
 
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await expect(api.handler(options as any)).rejects.toThrow('process.exit');
+
+    expect(errorLog.mock.calls[1][0]).toEqual(
+      new Error(`No matching fixtures found for globbing pattern 'invalid-filename.js'`),
+    );
+    expect(mockExit).toHaveBeenCalledWith(1);
+
+    mockExit.mockRestore();
+  });
+
+  it('returns exit code of 1 when expectations from metadata are not met', async () => {
+    const errorLog = vitest.spyOn(logger, 'error').mockImplementation(noop);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const mockExit = vitest.spyOn(process, 'exit').mockImplementation(noop as any);
+
+    const { packageDir } = await setup({
+      'empty.fixture.js': `export default { name: 'empty', expectEmpty: true };`,
+      'foo.fixture.js': `console.log('foo'); export default { name: 'foo', expectEmpty: true, expectedMaxSize: '0.01 kB' };`,
+    });
+    const options: MeasureOptions = {
+      quiet: true,
+      debug: false,
+      'artifacts-location': 'output',
+      fixtures: '*.fixture.js',
+    };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await api.handler(options as any);
+
+    // A report is written even if expectations are not met
+    expect(fs.existsSync(path.resolve(packageDir, 'output', 'monosize.json'))).toBe(true);
+
+    expect(errorLog.mock.calls.map(call => call[0])).toEqual([
+      expect.stringMatching(/^Fixture "foo" is expected to be empty, but its output is 20 B \(minified\)/),
+      'Fixture "foo" is expected to be at most 10.24 B (minified), but it is 20 B.',
+    ]);
+    expect(mockExit).toHaveBeenCalledWith(1);
+  });
+
+  it('returns exit code of 1 when budgets are exceeded', async () => {
+    const errorLog = vitest.spyOn(logger, 'error').mockImplementation(noop);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const mockExit = vitest.spyOn(process, 'exit').mockImplementation(noop as any);
+
+    vitest.mocked(readConfig).mockResolvedValueOnce({
+      bundler: { buildFixtures },
+      budgets: { maxMinified: '1 kB', packages: { 'test-*': { maxMinified: '0.01 kB' } } },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any);
+
+    const { packageDir } = await setup({
+      'foo.fixture.js': `console.log('foo'); export default { name: 'foo' };`,
+      'bar.fixture.js': `console.log('bar'); export default { name: 'bar', maxMinified: '1 kB' };`,
+    });
+    fs.writeFileSync(path.resolve(packageDir, 'package.json'), JSON.stringify({ name: 'test-package' }));
+
+    const options: MeasureOptions = {
+      quiet: true,
+      debug: false,
+      'artifacts-location': 'output',
+      fixtures: '*.fixture.js',
+    };
+
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     await api.handler(options as any);
 
-    expect(errorLog.mock.calls[0][0]).toMatch(/No matching fixtures found for globbing pattern 'invalid-filename.js'/);
+    const report = JSON.parse(fs.readFileSync(path.resolve(packageDir, 'output', 'monosize.json'), 'utf-8'));
+
+    expect(report[0]).toHaveProperty('budgets', { maxMinified: '1 kB' });
+    expect(errorLog.mock.calls.map(call => call[0])).toEqual([
+      'Fixture "foo" exceeds budgets: minified: 20 B > 10.24 B',
+    ]);
     expect(mockExit).toHaveBeenCalledWith(1);
   });
 });
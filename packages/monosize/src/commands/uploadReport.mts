@@ -19,6 +19,11 @@ async function uploadReport(options: UploadOptions) {
 
   const config = await readConfig(quiet);
 
+  if (!config.storage) {
+    logger.error('A storage adapter is required to upload a report, please configure "storage" in the config');
+    process.exit(1);
+  }
+
   const localReportStartTime = timestamp();
   const localReport = await collectLocalReport({
     ...config,
@@ -0,0 +1,88 @@
+import { glob } from 'glob';
+import path from 'node:path';
+import pc from 'picocolors';
+import type { CommandModule } from 'yargs';
+
+import { findGitRoot } from '../utils/collectLocalReport.mjs';
+import { validateFixture, type FixtureProblem } from '../utils/validateFixture.mjs';
+import type { CliOptions } from '../index.mjs';
+import { logger, timestamp } from '../logger.mjs';
+
+export type ValidateOptions = CliOptions & {
+  'fixtures-glob': string;
+};
+
+type FixtureProblemWithPath = FixtureProblem & { fixturePath: string };
+
+async function validate(options: ValidateOptions) {
+  const { 'fixtures-glob': fixturesGlob, quiet } = options;
+  const startTime = timestamp();
+
+  const root = findGitRoot(process.cwd());
+  const fixtures = await glob(fixturesGlob, { absolute: true, cwd: root, ignore: ['**/node_modules/**'] });
+
+  fixtures.sort((a, b) => a.localeCompare(b, 'en'));
+
+  const results = await Promise.all(
+    fixtures.map(async fixturePath => ({ fixturePath, ...(await validateFixture(fixturePath)) })),
+  );
+  const problems: FixtureProblemWithPath[] = results.flatMap(({ fixturePath, problems }) =>
+    problems.map(problem => ({ ...problem, fixturePath })),
+  );
+
+  // Fixtures of a package are located in "bundle-size" directory in its root, names are unique within a package
+  const fixturesByName = new Map<string, string>();
+
+  results.forEach(({ fixturePath, name }) => {
+    if (name === undefined) {
+      return;
+    }
+
+    const key = `${path.dirname(path.dirname(fixturePath))}:${name}`;
+    const existingFixturePath = fixturesByName.get(key);
+
+    if (existingFixturePath) {
+      problems.push({
+        fixturePath,
+        line: 1,
+        column: 0,
+        message: `A fixture with the name "${name}" already exists in the package: ${path.relative(root, existingFixturePath)}.`,
+      });
+      return;
+    }
+
+    fixturesByName.set(key, fixturePath);
+  });
+
+  problems.sort((a, b) => a.fixturePath.localeCompare(b.fixturePath, 'en') || a.line - b.line || a.column - b.column);
+  problems.forEach(({ column, fixturePath, line, message }) => {
+    logger.raw(`${pc.underline(`${path.relative(root, fixturePath)}:${line}:${column + 1}`)} ${message}`);
+  });
+
+  if (problems.length > 0) {
+    logger.error(`Found ${problems.length} problem(s) in ${fixtures.length} fixture(s)`);
+    process.exit(1);
+  }
+
+  if (!quiet) {
+    logger.success(`${fixtures.length} fixture(s) are valid`);
+    logger.finish(`Completed`, startTime);
+  }
+}
+
+// ---
+
+const api: CommandModule<Record<string, unknown>, ValidateOptions> = {
+  command: 'validate',
+  describe: 'validates fixtures in a repository without building them',
+  handler: validate,
+  builder: {
+    'fixtures-glob': {
+      type: 'string',
+      description: 'A glob pattern to search for fixture files, relative to a repository root',
+      default: '**/bundle-size/*.fixture.{js,ts,tsx}',
+    },
+  },
+};
+
+export default api;
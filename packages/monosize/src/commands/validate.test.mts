@@ -0,0 +1,74 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import tmp from 'tmp';
+import { beforeEach, describe, expect, it, vitest } from 'vitest';
+
+import api, { type ValidateOptions } from './validate.mjs';
+import { logger } from '../logger.mjs';
+
+const findGitRoot = vitest.hoisted(() => vitest.fn());
+
+vitest.mock('../utils/collectLocalReport.mts', () => ({ findGitRoot }));
+
+function setup(fixtures: Record<string, string>) {
+  const rootDir = tmp.dirSync({ prefix: 'validate', unsafeCleanup: true });
+
+  findGitRoot.mockReturnValue(rootDir.name);
+
+  for (const [fixture, content] of Object.entries(fixtures)) {
+    fs.mkdirSync(path.dirname(path.resolve(rootDir.name, fixture)), { recursive: true });
+    fs.writeFileSync(path.resolve(rootDir.name, fixture), content);
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-empty-function
+const noop = () => {};
+
+describe('validate', () => {
+  beforeEach(() => {
+    vitest.spyOn(logger, 'success').mockImplementation(noop);
+    vitest.spyOn(logger, 'finish').mockImplementation(noop);
+  });
+
+  it('passes for valid fixtures', async () => {
+    setup({
+      'packages/a/bundle-size/Foo.fixture.js': `export default { name: 'Foo' };`,
+      'packages/b/bundle-size/Foo.fixture.js': `export default { name: 'Foo' };`,
+      'node_modules/pkg/bundle-size/Bar.fixture.js': `export default {};`,
+    });
+    const exit = vitest.spyOn(process, 'exit').mockImplementation(noop as () => never);
+    const options = { quiet: false, 'fixtures-glob': '**/bundle-size/*.fixture.{js,ts,tsx}' } as ValidateOptions;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await api.handler(options as any);
+
+    expect(exit).not.toHaveBeenCalled();
+    expect(logger.success).toHaveBeenCalledWith('2 fixture(s) are valid');
+  });
+
+  it('prints all problems & exits with a non-zero code', async () => {
+    setup({
+      'packages/a/bundle-size/Foo.fixture.js': `export default { name: 'Foo' };`,
+      'packages/a/bundle-size/Bar.fixture.js': `import './missing.js';\nexport default { name: 'Foo' };`,
+      'packages/b/bundle-size/Baz.fixture.js': `export default { title: 'Baz' };`,
+    });
+    const exit = vitest.spyOn(process, 'exit').mockImplementation(noop as () => never);
+    const error = vitest.spyOn(logger, 'error').mockImplementation(noop);
+    const raw = vitest.spyOn(logger, 'raw').mockImplementation(noop);
+    const options = { quiet: true, 'fixtures-glob': '**/bundle-size/*.fixture.{js,ts,tsx}' } as ValidateOptions;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await api.handler(options as any);
+
+    expect(raw.mock.calls.map(call => call[0])).toMatchInlineSnapshot(`
+      [
+        "packages/a/bundle-size/Bar.fixture.js:1:8 An import "./missing.js" cannot be resolved.",
+        "packages/a/bundle-size/Foo.fixture.js:1:1 A fixture with the name "Foo" already exists in the package: packages/a/bundle-size/Bar.fixture.js.",
+        "packages/b/bundle-size/Baz.fixture.js:1:16 A default export should contain a property "name".
+      For example: export default { name: 'Test fixture' }",
+      ]
+    `);
+    expect(error).toHaveBeenCalledWith('Found 3 problem(s) in 3 fixture(s)');
+    expect(exit).toHaveBeenCalledWith(1);
+  });
+});
@@ -2,13 +2,19 @@ import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
 
 import compareReports from './commands/compareReports.mjs';
+import generateFixtures from './commands/generateFixtures.mjs';
+import init from './commands/init.mjs';
 import measure from './commands/measure.mjs';
 import uploadReport from './commands/uploadReport.mjs';
+import validate from './commands/validate.mjs';
 
 const cliSetup = yargs(hideBin(process.argv))
   .command(compareReports)
+  .command(generateFixtures)
+  .command(init)
   .command(measure)
   .command(uploadReport)
+  .command(validate)
   .option('quiet', {
     alias: 'q',
     type: 'boolean',
@@ -27,6 +33,8 @@ export type {
   BundleSizeReport,
   MonoSizeConfig,
   BundlerAdapter,
+  BuildOutputChunk,
+  BuildOutputModule,
   StorageAdapter,
   BundlerAdapterFactoryConfig,
   BundleAdapterFactory,
@@ -4,7 +4,7 @@ import pc from 'picocolors';
 import { formatHrTime } from './utils/helpers.mjs';
 
 type LogFunction = (message: unknown, timestamp?: ReturnType<typeof process.hrtime>) => void;
-type LogTypes = 'error' | 'info' | 'success' | 'finish';
+type LogTypes = 'error' | 'warn' | 'info' | 'success' | 'finish';
 
 export const timestamp = () => process.hrtime();
 
@@ -24,6 +24,9 @@ export const logger: Record<LogTypes, LogFunction> & { raw: (...args: unknown[])
   error: (message, time) => {
     console.error(pc.red('[e]'), message, toFriendlyTime(time));
   },
+  warn: (message, time) => {
+    console.warn(pc.yellow('[w]'), message, toFriendlyTime(time));
+  },
   info: (message, time) => {
     if (time) {
       console.info(pc.blue('[i]'), message, toFriendlyTime(time));
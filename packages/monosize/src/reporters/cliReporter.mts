@@ -1,11 +1,31 @@
 import Table from 'cli-table3';
 import pc from 'picocolors';
 
+import { formatBudgetViolation } from '../utils/checkBudgets.mjs';
 import { getChangedEntriesInReport } from '../utils/getChangedEntriesInReport.mjs';
+import { getReportSummary, type ReportSummary, type SizeTotals } from '../utils/getReportSummary.mjs';
 import { formatBytes } from '../utils/helpers.mjs';
-import type { DiffByMetric } from '../utils/calculateDiff.mjs';
+import type { DiffByAssetType, DiffByMetric } from '../utils/calculateDiff.mjs';
+import type { ComparedReportEntry } from '../utils/compareResultsInReports.mjs';
+import type { MetricDefinition } from '../utils/metrics.mjs';
 import { logger } from '../logger.mjs';
-import { formatDeltaFactory, type Reporter } from './shared.mjs';
+import {
+  ASSET_TYPE_TITLES,
+  formatDeltaFactory,
+  formatBaselineCommitNotes,
+  formatMetricsTitle,
+  formatSummaryCounts,
+  formatThresholdMetrics,
+  getAssetTypes,
+  getChangedPackages,
+  getEntriesWithModuleChanges,
+  getSizesByMetric,
+  hasAsyncChunks,
+  MODULE_STATUS_SUFFIXES,
+  type DeltaFormat,
+  type Reporter,
+  type SizeScope,
+} from './shared.mjs';
 
 function getDirectionSymbol(value: number): string {
   if (value < 0) {
@@ -19,7 +39,7 @@ function getDirectionSymbol(value: number): string {
   return '';
 }
 
-function formatDelta(diff: DiffByMetric, deltaFormat: keyof DiffByMetric): string {
+function formatDelta(diff: DiffByMetric, deltaFormat: DeltaFormat): string {
   const output = formatDeltaFactory(diff, { deltaFormat, directionSymbol: getDirectionSymbol });
 
   const colorFn = diff.delta > 0 ? pc.red : pc.green;
@@ -27,15 +47,92 @@ function formatDelta(diff: DiffByMetric, deltaFormat: keyof DiffByMetric): strin
   return typeof output === 'string' ? output : colorFn(output.deltaOutput + output.dirSymbol);
 }
 
+function formatModuleDelta(delta: number): string {
+  const colorFn = delta > 0 ? pc.red : pc.green;
+
+  return colorFn(formatBytes(delta) + getDirectionSymbol(delta));
+}
+
+function formatThresholdLine(
+  diff: Pick<DiffByAssetType, 'exceedsThreshold' | 'thresholdSeverity' | 'thresholdMetrics'>,
+  metrics: MetricDefinition[],
+) {
+  const metricsTitle = diff.thresholdMetrics ? `: ${formatThresholdMetrics(diff.thresholdMetrics, metrics)}` : '';
+  const lines: string[] = [];
+
+  // An entry can exceed "error" thresholds of asset types & a "warn" threshold of its own
+  if (diff.exceedsThreshold) {
+    lines.push(pc.red(`(${pc.bold('!')} over threshold${diff.thresholdSeverity === 'error' ? metricsTitle : ''})`));
+  }
+
+  if (diff.thresholdSeverity === 'warn') {
+    lines.push(pc.yellow(`(${pc.bold('!')} over warning threshold${metricsTitle})`));
+  }
+
+  return lines.length > 0 ? lines.join('\n') : undefined;
+}
+
+function formatSizeColumns(
+  entry: ComparedReportEntry,
+  metrics: MetricDefinition[],
+  deltaFormat: DeltaFormat,
+  scope: SizeScope,
+): [before: string, after: string] {
+  const sizes = metrics.map(metric => getSizesByMetric(entry, metric, scope));
+
+  const beforeColumn = sizes.map(({ before }) => (before === undefined ? 'N/A' : formatBytes(before))).join('\n');
+  const afterColumn = sizes
+    .map(
+      ({ after, diff }) =>
+        (diff ? formatDelta(diff, deltaFormat) : '') + ' ' + (after === undefined ? 'N/A' : formatBytes(after)),
+    )
+    .join('\n');
+
+  return [beforeColumn, afterColumn];
+}
+
+function formatTotalsColumns(
+  totals: SizeTotals,
+  metrics: MetricDefinition[],
+  deltaFormat: DeltaFormat,
+): [before: string, after: string] {
+  const beforeColumn = metrics.map(metric => (totals[metric.name] ? formatBytes(totals[metric.name].before) : 'N/A'));
+  const afterColumn = metrics.map(metric => {
+    const total = totals[metric.name];
+
+    return total ? formatDelta(total.diff, deltaFormat) + ' ' + formatBytes(total.after) : 'N/A';
+  });
+
+  return [beforeColumn.join('\n'), afterColumn.join('\n')];
+}
+
+function formatSummary(summary: ReportSummary, metrics: MetricDefinition[], deltaFormat: DeltaFormat): string {
+  const summaryOutput = new Table({
+    colAligns: ['left', 'right', 'right'],
+    head: ['Package', 'Before', `After (${formatMetricsTitle(metrics)})`],
+  });
+
+  getChangedPackages(summary).forEach(({ packageName, totals }) => {
+    summaryOutput.push([pc.bold(packageName), ...formatTotalsColumns(totals, metrics, deltaFormat)]);
+  });
+  summaryOutput.push([pc.bold('Total'), ...formatTotalsColumns(summary.totals, metrics, deltaFormat)]);
+
+  return `Summary: ${formatSummaryCounts(summary.counts)}\n${summaryOutput.toString()}\n`;
+}
+
 export const cliReporter: Reporter = (report, options) => {
-  const { commitSHA, repository, deltaFormat } = options;
-  const footer = `🤖 This report was generated against '${repository}/commit/${commitSHA}'`;
+  const { baseline, commitSHA, repository, deltaFormat, metrics } = options;
+  const baselineNotes = formatBaselineCommitNotes(options);
+  const footer = [
+    `🤖 This report was generated against '${baseline ?? `${repository}/commit/${commitSHA}`}'`,
+    ...(baselineNotes ? [`(${baselineNotes})`] : []),
+  ].join(' ');
 
   const { changedEntries } = getChangedEntriesInReport(report);
 
   const reportOutput = new Table({
     colAligns: ['left', 'right', 'right'],
-    head: ['Fixture', 'Before', 'After (minified/GZIP)'],
+    head: ['Fixture', 'Before', `After (${formatMetricsTitle(metrics)})`],
   });
 
   if (changedEntries.length === 0) {
@@ -43,34 +140,70 @@ export const cliReporter: Reporter = (report, options) => {
     return;
   }
 
+  logger.raw(formatSummary(getReportSummary(report, metrics), metrics, deltaFormat));
+
   changedEntries.forEach(entry => {
-    const { diff, gzippedSize, minifiedSize, name, packageName } = entry;
+    const { diff, name, packageName } = entry;
 
     const primaryLine = pc.bold(packageName);
-    const secondaryLine = name + (diff.empty ? pc.cyan(' (new)') : '');
-    const tertiaryLine = diff.exceedsThreshold ? pc.red(`(${pc.bold('!')} over threshold)`) : undefined;
-    const fixtureColumn = primaryLine + '\n' + secondaryLine + (tertiaryLine ? '\n' + tertiaryLine : '');
-
-    const minifiedBefore = diff.empty ? 'N/A' : formatBytes(minifiedSize - diff.minified.delta);
-    const gzippedBefore = diff.empty ? 'N/A' : formatBytes(gzippedSize - diff.gzip.delta);
-
-    const minifiedAfter = formatBytes(minifiedSize);
-    const gzippedAfter = formatBytes(gzippedSize);
-
-    const beforeColumn = minifiedBefore + '\n' + gzippedBefore;
-    const afterColumn =
-      formatDelta(diff.minified, deltaFormat) +
-      ' ' +
-      minifiedAfter +
-      '\n' +
-      formatDelta(diff.gzip, deltaFormat) +
-      ' ' +
-      gzippedAfter;
-
-    reportOutput.push([fixtureColumn, beforeColumn, afterColumn]);
+    const secondaryLine = name + (diff.empty ? pc.cyan(' (new)') : diff.removed ? pc.yellow(' (removed)') : '');
+    const tertiaryLine = formatThresholdLine(diff, metrics);
+    const acknowledgedLine = diff.acknowledged ? pc.green(`(acknowledged: ${diff.acknowledged})`) : undefined;
+    const duplicatesLine = diff.newDuplicatePackages
+      ? pc.yellow(`(${pc.bold('!')} new duplicate packages: ${diff.newDuplicatePackages.join(', ')})`)
+      : undefined;
+    const budgetsLine = diff.budgetViolations
+      ? pc.red(
+          `(${pc.bold('!')} over budget: ${diff.budgetViolations.map(violation => formatBudgetViolation(violation, metrics)).join(', ')})`,
+        )
+      : undefined;
+    const fixtureColumn = [primaryLine, secondaryLine, tertiaryLine, acknowledgedLine, budgetsLine, duplicatesLine]
+      .filter(Boolean)
+      .join('\n');
+
+    reportOutput.push([fixtureColumn, ...formatSizeColumns(entry, metrics, deltaFormat, 'initial')]);
+
+    getAssetTypes(entry).forEach(assetType => {
+      const assetLine = pc.dim(`↳ ${ASSET_TYPE_TITLES[assetType]}`);
+      const assetDiff = diff.assets?.[assetType];
+      const thresholdLine = assetDiff && formatThresholdLine(assetDiff, metrics);
+
+      reportOutput.push([
+        [assetLine, thresholdLine].filter(Boolean).join('\n'),
+        ...formatSizeColumns(entry, metrics, deltaFormat, assetType),
+      ]);
+    });
+
+    if (hasAsyncChunks(entry)) {
+      reportOutput.push([pc.dim('↳ with async chunks'), ...formatSizeColumns(entry, metrics, deltaFormat, 'total')]);
+    }
   });
 
   logger.raw(reportOutput.toString());
+
+  const entriesWithModuleChanges = getEntriesWithModuleChanges(changedEntries);
+
+  if (entriesWithModuleChanges.length > 0) {
+    const modulesOutput = new Table({
+      colAligns: ['left', 'left', 'right'],
+      head: ['Fixture', 'Module', 'Change'],
+    });
+
+    entriesWithModuleChanges.forEach(({ diff, name, packageName }) => {
+      const { modules: moduleDiffs = [] } = diff;
+
+      modulesOutput.push([
+        pc.bold(packageName) + '\n' + name,
+        moduleDiffs.map(({ path, status }) => path + pc.cyan(MODULE_STATUS_SUFFIXES[status])).join('\n'),
+        moduleDiffs.map(({ delta }) => formatModuleDelta(delta)).join('\n'),
+      ]);
+    });
+
+    logger.raw('');
+    logger.raw('Top module changes:');
+    logger.raw(modulesOutput.toString());
+  }
+
   logger.raw('');
   logger.raw(footer);
 };
@@ -2,8 +2,20 @@ import stripAnsi from 'strip-ansi';
 import { describe, it, expect, vitest } from 'vitest';
 
 import { cliReporter } from './cliReporter.mjs';
-import { sampleComparedReport, reportWithExceededThreshold } from '../__fixture__/sampleComparedReport.mjs';
+import {
+  sampleComparedReport,
+  reportWithAcknowledgedEntries,
+  reportWithAssets,
+  reportWithAsyncChunks,
+  reportWithDuplicatePackages,
+  reportWithExceededBudgets,
+  reportWithExceededThreshold,
+  reportWithExceededWarningThreshold,
+  reportWithModuleChanges,
+  reportWithRemovedEntries,
+} from '../__fixture__/sampleComparedReport.mjs';
 import { logger } from '../logger.mjs';
+import { resolveMetrics } from '../utils/metrics.mjs';
 
 function noop() {
   /* does nothing */
@@ -26,6 +38,7 @@ describe('cliReporter', () => {
   const options = {
     repository: 'https://github.com/microsoft/monosize',
     commitSHA: 'commit-hash',
+    metrics: resolveMetrics(),
     showUnchanged: false,
     deltaFormat: 'percent' as const,
   };
@@ -43,16 +56,43 @@ describe('cliReporter', () => {
 
     cliReporter(sampleComparedReport, options);
 
+    expect(logSpy.mock.calls[1][0]).toMatchInlineSnapshot(`
+      ┌────────────────────┬────────┬──────────────────────────────┐
+      │ Fixture            │ Before │ After (minified/GZIP/Brotli) │
+      ├────────────────────┼────────┼──────────────────────────────┤
+      │ baz-package        │    0 B │                   100%↑ 1 kB │
+      │ An entry with diff │    0 B │                  100%↑ 100 B │
+      │                    │    0 B │                   100%↑ 80 B │
+      ├────────────────────┼────────┼──────────────────────────────┤
+      │ foo-package        │    N/A │                         1 kB │
+      │ New entry (new)    │    N/A │                        100 B │
+      │                    │    N/A │                         80 B │
+      └────────────────────┴────────┴──────────────────────────────┘
+    `);
+  });
+
+  it('renders a summary before a report', () => {
+    const logSpy = vitest.spyOn(logger, 'raw').mockImplementation(noop);
+
+    cliReporter(reportWithRemovedEntries, { ...options, deltaFormat: 'delta' });
+
     expect(logSpy.mock.calls[0][0]).toMatchInlineSnapshot(`
-      ┌────────────────────┬────────┬───────────────────────┐
-      │ Fixture            │ Before │ After (minified/GZIP) │
-      ├────────────────────┼────────┼───────────────────────┤
-      │ baz-package        │    0 B │            100%↑ 1 kB │
-      │ An entry with diff │    0 B │           100%↑ 100 B │
-      ├────────────────────┼────────┼───────────────────────┤
-      │ foo-package        │    N/A │            100%↑ 1 kB │
-      │ New entry (new)    │    N/A │           100%↑ 100 B │
-      └────────────────────┴────────┴───────────────────────┘
+      Summary: 1 increased, 1 removed
+      ┌─────────────┬────────┬──────────────────────────────┐
+      │ Package     │ Before │ After (minified/GZIP/Brotli) │
+      ├─────────────┼────────┼──────────────────────────────┤
+      │ baz-package │  900 B │                  100 B↑ 1 kB │
+      │             │   90 B │                  10 B↑ 100 B │
+      │             │   80 B │                         80 B │
+      ├─────────────┼────────┼──────────────────────────────┤
+      │ foo-package │   1 kB │                   -1 kB↓ 0 B │
+      │             │  100 B │                  -100 B↓ 0 B │
+      │             │   80 B │                   -80 B↓ 0 B │
+      ├─────────────┼────────┼──────────────────────────────┤
+      │ Total       │ 1.9 kB │                 -900 B↓ 1 kB │
+      │             │  190 B │                 -90 B↓ 100 B │
+      │             │  160 B │                  -80 B↓ 80 B │
+      └─────────────┴────────┴──────────────────────────────┘
     `);
   });
 
@@ -61,16 +101,18 @@ describe('cliReporter', () => {
 
     cliReporter(sampleComparedReport, { ...options, deltaFormat: 'delta' });
 
-    expect(logSpy.mock.calls[0][0]).toMatchInlineSnapshot(`
-      ┌────────────────────┬────────┬───────────────────────┐
-      │ Fixture            │ Before │ After (minified/GZIP) │
-      ├────────────────────┼────────┼───────────────────────┤
-      │ baz-package        │    0 B │            1 kB↑ 1 kB │
-      │ An entry with diff │    0 B │          100 B↑ 100 B │
-      ├────────────────────┼────────┼───────────────────────┤
-      │ foo-package        │    N/A │             1 B↑ 1 kB │
-      │ New entry (new)    │    N/A │            1 B↑ 100 B │
-      └────────────────────┴────────┴───────────────────────┘
+    expect(logSpy.mock.calls[1][0]).toMatchInlineSnapshot(`
+      ┌────────────────────┬────────┬──────────────────────────────┐
+      │ Fixture            │ Before │ After (minified/GZIP/Brotli) │
+      ├────────────────────┼────────┼──────────────────────────────┤
+      │ baz-package        │    0 B │                   1 kB↑ 1 kB │
+      │ An entry with diff │    0 B │                 100 B↑ 100 B │
+      │                    │    0 B │                   80 B↑ 80 B │
+      ├────────────────────┼────────┼──────────────────────────────┤
+      │ foo-package        │    N/A │                         1 kB │
+      │ New entry (new)    │    N/A │                        100 B │
+      │                    │    N/A │                         80 B │
+      └────────────────────┴────────┴──────────────────────────────┘
     `);
   });
 
@@ -79,14 +121,158 @@ describe('cliReporter', () => {
 
     cliReporter(reportWithExceededThreshold, { ...options, deltaFormat: 'delta' });
 
-    expect(logSpy.mock.calls[0][0]).toMatchInlineSnapshot(`
-      ┌────────────────────┬────────┬───────────────────────┐
-      │ Fixture            │ Before │ After (minified/GZIP) │
-      ├────────────────────┼────────┼───────────────────────┤
-      │ baz-package        │    0 B │            1 kB↑ 1 kB │
-      │ An entry with diff │    0 B │          100 B↑ 100 B │
-      │ (! over threshold) │        │                       │
-      └────────────────────┴────────┴───────────────────────┘
+    expect(logSpy.mock.calls[1][0]).toMatchInlineSnapshot(`
+      ┌──────────────────────────────┬────────┬──────────────────────────────┐
+      │ Fixture                      │ Before │ After (minified/GZIP/Brotli) │
+      ├──────────────────────────────┼────────┼──────────────────────────────┤
+      │ baz-package                  │    0 B │                   1 kB↑ 1 kB │
+      │ An entry with diff           │    0 B │                 100 B↑ 100 B │
+      │ (! over threshold: minified) │    0 B │                   80 B↑ 80 B │
+      └──────────────────────────────┴────────┴──────────────────────────────┘
+    `);
+  });
+
+  it('renders a report with exceeded warning threshold', () => {
+    const logSpy = vitest.spyOn(logger, 'raw').mockImplementation(noop);
+
+    cliReporter(reportWithExceededWarningThreshold, { ...options, deltaFormat: 'delta' });
+
+    expect(logSpy.mock.calls[1][0]).toMatchInlineSnapshot(`
+      ┌──────────────────────────────────┬────────┬──────────────────────────────┐
+      │ Fixture                          │ Before │ After (minified/GZIP/Brotli) │
+      ├──────────────────────────────────┼────────┼──────────────────────────────┤
+      │ baz-package                      │  990 B │                   10 B↑ 1 kB │
+      │ An entry with diff               │   90 B │                  10 B↑ 100 B │
+      │ (! over warning threshold: GZIP) │   80 B │                         80 B │
+      └──────────────────────────────────┴────────┴──────────────────────────────┘
+    `);
+  });
+
+  it('renders a report with acknowledged entries', () => {
+    const logSpy = vitest.spyOn(logger, 'raw').mockImplementation(noop);
+
+    cliReporter(reportWithAcknowledgedEntries, { ...options, deltaFormat: 'delta' });
+
+    expect(logSpy.mock.calls[1][0]).toMatchInlineSnapshot(`
+      ┌───────────────────────────────┬────────┬──────────────────────────────┐
+      │ Fixture                       │ Before │ After (minified/GZIP/Brotli) │
+      ├───────────────────────────────┼────────┼──────────────────────────────┤
+      │ baz-package                   │  800 B │                  200 B↑ 1 kB │
+      │ An entry with diff            │   90 B │                  10 B↑ 100 B │
+      │ (acknowledged: A new feature) │   80 B │                         80 B │
+      └───────────────────────────────┴────────┴──────────────────────────────┘
+    `);
+  });
+
+  it('renders a report with removed entries', () => {
+    const logSpy = vitest.spyOn(logger, 'raw').mockImplementation(noop);
+
+    cliReporter(reportWithRemovedEntries, { ...options, deltaFormat: 'delta' });
+
+    expect(logSpy.mock.calls[1][0]).toMatchInlineSnapshot(`
+      ┌─────────────────────────┬────────┬──────────────────────────────┐
+      │ Fixture                 │ Before │ After (minified/GZIP/Brotli) │
+      ├─────────────────────────┼────────┼──────────────────────────────┤
+      │ baz-package             │  900 B │                  100 B↑ 1 kB │
+      │ An entry with diff      │   90 B │                  10 B↑ 100 B │
+      │                         │   80 B │                         80 B │
+      ├─────────────────────────┼────────┼──────────────────────────────┤
+      │ foo-package             │   1 kB │                          N/A │
+      │ Removed entry (removed) │  100 B │                          N/A │
+      │                         │   80 B │                          N/A │
+      └─────────────────────────┴────────┴──────────────────────────────┘
+    `);
+  });
+
+  it('renders a report with async chunks', () => {
+    const logSpy = vitest.spyOn(logger, 'raw').mockImplementation(noop);
+
+    cliReporter(reportWithAsyncChunks, { ...options, deltaFormat: 'delta' });
+
+    expect(logSpy.mock.calls[1][0]).toMatchInlineSnapshot(`
+      ┌────────────────────────────┬────────┬──────────────────────────────┐
+      │ Fixture                    │ Before │ After (minified/GZIP/Brotli) │
+      ├────────────────────────────┼────────┼──────────────────────────────┤
+      │ baz-package                │   1 kB │                         1 kB │
+      │ An entry with async chunks │  100 B │                        100 B │
+      │                            │   80 B │                         80 B │
+      ├────────────────────────────┼────────┼──────────────────────────────┤
+      │ ↳ with async chunks        │   2 kB │                   1 kB↑ 3 kB │
+      │                            │  200 B │                 100 B↑ 300 B │
+      │                            │  160 B │                  80 B↑ 240 B │
+      └────────────────────────────┴────────┴──────────────────────────────┘
+    `);
+  });
+
+  it('renders a report with assets', () => {
+    const logSpy = vitest.spyOn(logger, 'raw').mockImplementation(noop);
+
+    cliReporter(reportWithAssets, { ...options, deltaFormat: 'delta' });
+
+    expect(logSpy.mock.calls[1][0]).toMatchInlineSnapshot(`
+      ┌────────────────────────────────────┬────────┬──────────────────────────────┐
+      │ Fixture                            │ Before │ After (minified/GZIP/Brotli) │
+      ├────────────────────────────────────┼────────┼──────────────────────────────┤
+      │ baz-package                        │   1 kB │                500 B↑ 1.5 kB │
+      │ An entry with assets               │  100 B │                  50 B↑ 150 B │
+      │ (! over threshold)                 │   80 B │                  40 B↑ 120 B │
+      ├────────────────────────────────────┼────────┼──────────────────────────────┤
+      │ ↳ JS                               │   1 kB │                         1 kB │
+      │                                    │  100 B │                        100 B │
+      │                                    │   80 B │                         80 B │
+      ├────────────────────────────────────┼────────┼──────────────────────────────┤
+      │ ↳ CSS                              │    0 B │                 500 B↑ 500 B │
+      │ (! over threshold: minified, GZIP) │    0 B │                   50 B↑ 50 B │
+      │                                    │    0 B │                   40 B↑ 40 B │
+      └────────────────────────────────────┴────────┴──────────────────────────────┘
+    `);
+  });
+
+  it('renders a report with module changes', () => {
+    const logSpy = vitest.spyOn(logger, 'raw').mockImplementation(noop);
+
+    cliReporter(reportWithModuleChanges, { ...options, deltaFormat: 'delta' });
+
+    expect(logSpy.mock.calls[4][0]).toMatchInlineSnapshot(`
+      ┌──────────────────────────────┬────────────────────┬─────────┐
+      │ Fixture                      │ Module             │  Change │
+      ├──────────────────────────────┼────────────────────┼─────────┤
+      │ baz-package                  │ src/c.js (new)     │  600 B↑ │
+      │ An entry with module changes │ src/b.js (removed) │ -300 B↓ │
+      │                              │ src/a.js           │  200 B↑ │
+      └──────────────────────────────┴────────────────────┴─────────┘
+    `);
+  });
+
+  it('renders a report with new duplicate packages', () => {
+    const logSpy = vitest.spyOn(logger, 'raw').mockImplementation(noop);
+
+    cliReporter(reportWithDuplicatePackages, { ...options, deltaFormat: 'delta' });
+
+    expect(logSpy.mock.calls[1][0]).toMatchInlineSnapshot(`
+      ┌──────────────────────────────────────────────┬────────┬──────────────────────────────┐
+      │ Fixture                                      │ Before │ After (minified/GZIP/Brotli) │
+      ├──────────────────────────────────────────────┼────────┼──────────────────────────────┤
+      │ baz-package                                  │   1 kB │                         1 kB │
+      │ An entry with duplicate packages             │  100 B │                        100 B │
+      │ (! new duplicate packages: @floating-ui/dom) │   80 B │                         80 B │
+      └──────────────────────────────────────────────┴────────┴──────────────────────────────┘
+    `);
+  });
+
+  it('renders a report with exceeded budgets', () => {
+    const logSpy = vitest.spyOn(logger, 'raw').mockImplementation(noop);
+
+    cliReporter(reportWithExceededBudgets, { ...options, deltaFormat: 'delta' });
+
+    expect(logSpy.mock.calls[1][0]).toMatchInlineSnapshot(`
+      ┌────────────────────────────────────────┬────────┬──────────────────────────────┐
+      │ Fixture                                │ Before │ After (minified/GZIP/Brotli) │
+      ├────────────────────────────────────────┼────────┼──────────────────────────────┤
+      │ baz-package                            │    N/A │                       300 kB │
+      │ A new entry over budget (new)          │    N/A │                        60 kB │
+      │ (! over budget: GZIP: 60 kB > 51.2 kB) │    N/A │                        50 kB │
+      └────────────────────────────────────────┴────────┴──────────────────────────────┘
     `);
   });
 });
@@ -1,7 +1,28 @@
+import { formatBudgetViolation } from '../utils/checkBudgets.mjs';
 import { getChangedEntriesInReport } from '../utils/getChangedEntriesInReport.mjs';
+import { getReportSummary, type ReportSummary, type SizeTotals } from '../utils/getReportSummary.mjs';
 import { formatBytes } from '../utils/helpers.mjs';
-import type { DiffByMetric } from '../utils/calculateDiff.mjs';
-import { formatDeltaFactory, type Reporter } from './shared.mjs';
+import type { DiffByAssetType, DiffByMetric, DiffForEntry } from '../utils/calculateDiff.mjs';
+import type { ComparedReportEntry } from '../utils/compareResultsInReports.mjs';
+import type { ThresholdSeverity } from '../types.mjs';
+import type { MetricDefinition } from '../utils/metrics.mjs';
+import {
+  ASSET_TYPE_TITLES,
+  formatDeltaFactory,
+  formatBaselineCommitNotes,
+  formatMetricsTitle,
+  formatSummaryCounts,
+  formatThresholdMetrics,
+  getAssetTypes,
+  getChangedPackages,
+  getEntriesWithModuleChanges,
+  getSizesByMetric,
+  hasAsyncChunks,
+  MODULE_STATUS_SUFFIXES,
+  type DeltaFormat,
+  type Reporter,
+  type SizeScope,
+} from './shared.mjs';
 import { logger } from '../logger.mjs';
 
 const icons = { increase: 'increase.png', decrease: 'decrease.png' };
@@ -21,15 +42,121 @@ function getDirectionSymbol(value: number): string {
   return '';
 }
 
-function formatDelta(diff: DiffByMetric, deltaFormat: keyof DiffByMetric): string {
+function formatDelta(diff: DiffByMetric, deltaFormat: DeltaFormat): string {
   const output = formatDeltaFactory(diff, { deltaFormat, directionSymbol: getDirectionSymbol });
 
   return typeof output === 'string' ? output : `\`${output.deltaOutput}\` ${output.dirSymbol}`;
 }
 
+function formatSize(value: number | undefined): string {
+  return value === undefined ? 'N/A' : `\`${formatBytes(value)}\``;
+}
+
+function formatSizes(entry: ComparedReportEntry, metrics: MetricDefinition[], scope: SizeScope = 'initial'): string {
+  return metrics.map(metric => formatSize(getSizesByMetric(entry, metric, scope).after)).join('<br />');
+}
+
+/**
+ * Returns "Baseline", "PR" & "Change" columns of a changed entry.
+ */
+function formatSizeColumns(
+  entry: ComparedReportEntry,
+  metrics: MetricDefinition[],
+  deltaFormat: DeltaFormat,
+  scope: SizeScope,
+): string {
+  const sizes = metrics.map(metric => getSizesByMetric(entry, metric, scope));
+
+  const before = sizes.map(({ before }) => formatSize(entry.diff.empty ? 0 : before)).join('<br />');
+  const after = sizes.map(({ after }) => formatSize(entry.diff.removed ? 0 : after)).join('<br />');
+  const difference = entry.diff.empty
+    ? '🆕 New entry'
+    : entry.diff.removed
+      ? '🗑️ Removed entry'
+      : sizes.map(({ diff }) => (diff ? formatDelta(diff, deltaFormat) : '')).join('<br />');
+
+  return `${before} | ${after} | ${difference}`;
+}
+
+function formatThresholdWarning(
+  diff: Pick<DiffByAssetType, 'exceedsThreshold' | 'thresholdSeverity' | 'thresholdMetrics'>,
+  metrics: MetricDefinition[],
+): string {
+  const metricsTitle = diff.thresholdMetrics ? ` (${formatThresholdMetrics(diff.thresholdMetrics, metrics)})` : '';
+  const warnings: string[] = [];
+
+  // An entry can exceed "error" thresholds of asset types & a "warn" threshold of its own
+  if (diff.exceedsThreshold) {
+    warnings.push(`⚠️ over threshold${diff.thresholdSeverity === 'error' ? metricsTitle : ''}`);
+  }
+
+  if (diff.thresholdSeverity === 'warn') {
+    warnings.push(`🔸 over warning threshold${metricsTitle}`);
+  }
+
+  return warnings.join(' <br /> ');
+}
+
+const THRESHOLD_SEVERITY_TITLES: Record<ThresholdSeverity, string> = {
+  error: 'threshold',
+  warn: 'warning threshold',
+};
+
+function formatThresholdRules(rules: Partial<Record<ThresholdSeverity, string>>): string {
+  return (['error', 'warn'] as const)
+    .filter(severity => rules[severity] !== undefined)
+    .map(severity => `${THRESHOLD_SEVERITY_TITLES[severity]}: <code>${rules[severity]}</code>`)
+    .join(', ');
+}
+
+/**
+ * Returns rules of an entry that differ from rules of a global threshold, rules that match are not repeated per entry.
+ */
+function formatThresholdOverrides(
+  thresholdOverrides: DiffForEntry['thresholdOverrides'],
+  threshold: Partial<Record<ThresholdSeverity, string>> = {},
+): string {
+  const differentRules = Object.fromEntries(
+    Object.entries(thresholdOverrides ?? {}).filter(
+      ([severity, rule]) => rule !== threshold[severity as ThresholdSeverity],
+    ),
+  );
+
+  return Object.keys(differentRules).length > 0 ? ` <br /> 🎯 ${formatThresholdRules(differentRules)}` : '';
+}
+
+function formatTotalsColumns(totals: SizeTotals, metrics: MetricDefinition[], deltaFormat: DeltaFormat): string {
+  const before = metrics.map(metric => formatSize(totals[metric.name]?.before)).join('<br />');
+  const after = metrics.map(metric => formatSize(totals[metric.name]?.after)).join('<br />');
+  const difference = metrics
+    .map(metric => (totals[metric.name] ? formatDelta(totals[metric.name].diff, deltaFormat) : ''))
+    .join('<br />');
+
+  return `${before} | ${after} | ${difference}`;
+}
+
+function formatSummary(summary: ReportSummary, metrics: MetricDefinition[], deltaFormat: DeltaFormat): string[] {
+  const summaryOutput = [`**Summary:** ${formatSummaryCounts(summary.counts)}`, ''];
+
+  summaryOutput.push(`| Package | Baseline (${formatMetricsTitle(metrics)}) | PR    | Change     |`);
+  summaryOutput.push('| :------ | -----------------------: | ----: | ---------: |');
+
+  getChangedPackages(summary).forEach(({ packageName, totals }) => {
+    summaryOutput.push(`| <samp>${packageName}</samp> | ${formatTotalsColumns(totals, metrics, deltaFormat)} |`);
+  });
+  summaryOutput.push(`| **Total** | ${formatTotalsColumns(summary.totals, metrics, deltaFormat)} |`);
+  summaryOutput.push('');
+
+  return summaryOutput;
+}
+
 export const markdownReporter: Reporter = (report, options) => {
-  const { commitSHA, repository, showUnchanged, deltaFormat } = options;
-  const footer = `<sub>🤖 This report was generated against <a href='${repository}/commit/${commitSHA}'>${commitSHA}</a></sub>`;
+  const { baseline, commitSHA, repository, showUnchanged, deltaFormat, metrics, threshold } = options;
+  const metricsTitle = formatMetricsTitle(metrics);
+  const baselineNotes = formatBaselineCommitNotes(options);
+  const footer = baseline
+    ? `<sub>🤖 This report was generated against <code>${baseline}</code></sub>`
+    : `<sub>🤖 This report was generated against <a href='${repository}/commit/${commitSHA}'>${commitSHA}</a>${baselineNotes ? ` (${baselineNotes})` : ''}</sub>`;
 
   const { changedEntries, unchangedEntries } = getChangedEntriesInReport(report);
 
@@ -41,60 +168,105 @@ export const markdownReporter: Reporter = (report, options) => {
     return;
   }
 
+  reportOutput.push(...formatSummary(getReportSummary(report, metrics), metrics, deltaFormat));
+
   if (changedEntries.length > 0) {
-    reportOutput.push('| Package & Exports | Baseline (minified/GZIP) | PR    | Change     |');
+    reportOutput.push(`| Package & Exports | Baseline (${metricsTitle}) | PR    | Change     |`);
     reportOutput.push('| :---------------- | -----------------------: | ----: | ---------: |');
 
     changedEntries.forEach(entry => {
       const primary = `<samp>${entry.packageName}</samp>`;
       const secondary = `<abbr title='${entry.path}'>${entry.name}</abbr>`;
-      const tertiary = entry.diff.exceedsThreshold ? '⚠️ over threshold' : '';
-      const name = `${primary} <br /> ${secondary} ${tertiary ? `<br /> ${tertiary}` : ''}`;
-
-      const before = entry.diff.empty
-        ? [`\`${formatBytes(0)}\``, '<br />', `\`${formatBytes(0)}\``].join('')
-        : [
-            `\`${formatBytes(entry.minifiedSize - entry.diff.minified.delta)}\``,
-            '<br />',
-            `\`${formatBytes(entry.gzippedSize - entry.diff.gzip.delta)}\``,
-          ].join('');
-      const after = [`\`${formatBytes(entry.minifiedSize)}\``, '<br />', `\`${formatBytes(entry.gzippedSize)}\``].join(
-        '',
-      );
-      const difference = entry.diff.empty
-        ? '🆕 New entry'
-        : [
-            `${formatDelta(entry.diff.minified, deltaFormat)}`,
-            '<br />',
-            `${formatDelta(entry.diff.gzip, deltaFormat)}`,
-          ].join('');
-
-      reportOutput.push(`| ${name} | ${before} | ${after} | ${difference}|`);
+      const tertiary = formatThresholdWarning(entry.diff, metrics);
+      const acknowledged = entry.diff.acknowledged ? ` <br /> ✅ acknowledged: ${entry.diff.acknowledged}` : '';
+      const duplicates = entry.diff.newDuplicatePackages
+        ? ` <br /> ⚠️ new duplicate packages: ${entry.diff.newDuplicatePackages.map(name => `<code>${name}</code>`).join(', ')}`
+        : '';
+      const budgets = entry.diff.budgetViolations
+        ? ` <br /> ⚠️ over budget: ${entry.diff.budgetViolations.map(violation => formatBudgetViolation(violation, metrics)).join(', ')}`
+        : '';
+      const thresholdOverrides = formatThresholdOverrides(entry.diff.thresholdOverrides, threshold);
+      const name = `${primary} <br /> ${secondary} ${tertiary ? `<br /> ${tertiary}` : ''}${acknowledged}${thresholdOverrides}${budgets}${duplicates}`;
+
+      reportOutput.push(`| ${name} | ${formatSizeColumns(entry, metrics, deltaFormat, 'initial')}|`);
+
+      getAssetTypes(entry).forEach(assetType => {
+        const assetTitle = `↳ ${ASSET_TYPE_TITLES[assetType]}`;
+        const assetDiff = entry.diff.assets?.[assetType];
+        const assetWarning = assetDiff ? formatThresholdWarning(assetDiff, metrics) : '';
+        const assetName = assetWarning ? `${assetTitle} <br /> ${assetWarning}` : assetTitle;
+
+        reportOutput.push(`| ${assetName} | ${formatSizeColumns(entry, metrics, deltaFormat, assetType)}|`);
+      });
+
+      if (hasAsyncChunks(entry)) {
+        reportOutput.push(`| ↳ with async chunks | ${formatSizeColumns(entry, metrics, deltaFormat, 'total')}|`);
+      }
     });
 
     reportOutput.push('');
   }
 
+  const entriesWithModuleChanges = getEntriesWithModuleChanges(changedEntries);
+
+  if (entriesWithModuleChanges.length > 0) {
+    reportOutput.push('<details>');
+    reportOutput.push('<summary>Top module changes</summary>');
+    reportOutput.push('');
+
+    reportOutput.push('| Package & Exports | Module | Change |');
+    reportOutput.push('| :---------------- | :----- | -----: |');
+
+    entriesWithModuleChanges.forEach(entry => {
+      const { modules: moduleDiffs = [] } = entry.diff;
+
+      const title = `<samp>${entry.packageName}</samp> <br /> <abbr title='${entry.path}'>${entry.name}</abbr>`;
+      const modules = moduleDiffs
+        .map(({ path, status }) => `<code>${path}</code>${MODULE_STATUS_SUFFIXES[status]}`)
+        .join('<br />');
+      const changes = moduleDiffs
+        .map(({ delta }) => `\`${formatBytes(delta)}\` ${getDirectionSymbol(delta)}`)
+        .join('<br />');
+
+      reportOutput.push(`| ${title} | ${modules} | ${changes} |`);
+    });
+
+    reportOutput.push('</details>');
+    reportOutput.push('');
+  }
+
   if (showUnchanged && unchangedEntries.length > 0) {
     reportOutput.push('<details>');
     reportOutput.push('<summary>Unchanged fixtures</summary>');
     reportOutput.push('');
 
-    reportOutput.push('| Package & Exports | Size (minified/GZIP) |');
+    reportOutput.push(`| Package & Exports | Size (${metricsTitle}) |`);
     reportOutput.push('| ----------------- | -------------------: |');
 
     unchangedEntries.forEach(entry => {
       const title = `<samp>${entry.packageName}</samp> <br /> <abbr title='${entry.path}'>${entry.name}</abbr>`;
-      const size = [`\`${formatBytes(entry.minifiedSize)}\``, '<br />', `\`${formatBytes(entry.gzippedSize)}\``].join(
-        '',
-      );
+      const size = formatSizes(entry, metrics);
 
       reportOutput.push(`| ${title} | ${size} |`);
+
+      getAssetTypes(entry).forEach(assetType => {
+        reportOutput.push(`| ↳ ${ASSET_TYPE_TITLES[assetType]} | ${formatSizes(entry, metrics, assetType)} |`);
+      });
+
+      if (entry.totalSizes) {
+        reportOutput.push(`| ↳ with async chunks | ${formatSizes(entry, metrics, 'total')} |`);
+      }
     });
 
     reportOutput.push('</details>');
   }
 
+  if (threshold && Object.keys(threshold).length > 0) {
+    reportOutput.push('');
+    reportOutput.push(`<sub>🎯 Thresholds unless overridden per entry: ${formatThresholdRules(threshold)}</sub>`);
+    reportOutput.push('');
+  }
+
   // TODO: use repo settings
   reportOutput.push(footer);
 
@@ -1,8 +1,21 @@
 import prettier from 'prettier';
 import { describe, expect, it, vitest } from 'vitest';
 
-import { reportWithExceededThreshold, sampleComparedReport } from '../__fixture__/sampleComparedReport.mjs';
+import {
+  reportWithAcknowledgedEntries,
+  reportWithAssets,
+  reportWithAsyncChunks,
+  reportWithDuplicatePackages,
+  reportWithExceededBudgets,
+  reportWithExceededThreshold,
+  reportWithExceededWarningThreshold,
+  reportWithModuleChanges,
+  reportWithRemovedEntries,
+  reportWithThresholdOverrides,
+  sampleComparedReport,
+} from '../__fixture__/sampleComparedReport.mjs';
 import { logger } from '../logger.mjs';
+import { resolveMetrics } from '../utils/metrics.mjs';
 import { markdownReporter } from './markdownReporter.mjs';
 
 // eslint-disable-next-line @typescript-eslint/no-empty-function
@@ -12,6 +25,7 @@ describe('markdownReporter', () => {
   const options = {
     repository: 'https://github.com/microsoft/monosize',
     commitSHA: 'commit-hash',
+    metrics: resolveMetrics(),
     showUnchanged: true,
     deltaFormat: 'delta' as const,
   };
@@ -48,6 +62,45 @@ describe('markdownReporter', () => {
     expect(output).toMatchSnapshot();
   });
 
+  it('renders a path of a local baseline report instead of a commit', async () => {
+    const log = vitest.spyOn(logger, 'raw').mockImplementation(noop);
+
+    markdownReporter(sampleComparedReport, { ...options, baseline: '../main/monosize.json' });
+    const output = log.mock.calls[0][0] as string;
+
+    expect(output).toContain(`<sub>🤖 This report was generated against <code>../main/monosize.json</code></sub>`);
+    expect(output).not.toContain('commit-hash');
+  });
+
+  it('renders a distance of a baseline commit from a merge base', async () => {
+    const log = vitest.spyOn(logger, 'raw').mockImplementation(noop);
+
+    markdownReporter(sampleComparedReport, { ...options, mergeBase: { commitSHA: '1a2b3c4d5e6f', distance: 2 } });
+    markdownReporter(sampleComparedReport, { ...options, mergeBase: { commitSHA: '1a2b3c4d5e6f', distance: 0 } });
+
+    expect(log.mock.calls[0][0]).toContain(
+      `<a href='https://github.com/microsoft/monosize/commit/commit-hash'>commit-hash</a> (2 commits before the merge base 1a2b3c4)</sub>`,
+    );
+    expect(log.mock.calls[1][0]).toContain(
+      `<a href='https://github.com/microsoft/monosize/commit/commit-hash'>commit-hash</a> (the merge base 1a2b3c4)</sub>`,
+    );
+  });
+
+  it('renders a note for a baseline built locally', async () => {
+    const log = vitest.spyOn(logger, 'raw').mockImplementation(noop);
+
+    markdownReporter(sampleComparedReport, {
+      ...options,
+      builtLocally: true,
+      commitSHA: '1a2b3c4d5e6f',
+      mergeBase: { commitSHA: '1a2b3c4d5e6f', distance: 0 },
+    });
+
+    expect(log.mock.calls[0][0]).toContain(
+      `<a href='https://github.com/microsoft/monosize/commit/1a2b3c4d5e6f'>1a2b3c4d5e6f</a> (the merge base 1a2b3c4, built locally)</sub>`,
+    );
+  });
+
   it('renders a report with exceeded threshold', async () => {
     const log = vitest.spyOn(logger, 'raw').mockImplementation(noop);
 
@@ -56,4 +109,96 @@ describe('markdownReporter', () => {
 
     expect(output).toMatchSnapshot();
   });
+
+  it('renders a report with exceeded warning threshold', async () => {
+    const log = vitest.spyOn(logger, 'raw').mockImplementation(noop);
+
+    markdownReporter(reportWithExceededWarningThreshold, { ...options, deltaFormat: 'percent' });
+    const output = await prettier.format(log.mock.calls[0][0] as string, { parser: 'markdown' });
+
+    expect(output).toMatchSnapshot();
+  });
+
+  it('renders a report with overridden thresholds', async () => {
+    const log = vitest.spyOn(logger, 'raw').mockImplementation(noop);
+
+    markdownReporter(reportWithThresholdOverrides, { ...options, deltaFormat: 'percent' });
+    const output = await prettier.format(log.mock.calls[0][0] as string, { parser: 'markdown' });
+
+    expect(output).toMatchSnapshot();
+  });
+
+  it('renders a global threshold & rules of entries that differ from it', async () => {
+    const log = vitest.spyOn(logger, 'raw').mockImplementation(noop);
+
+    markdownReporter(reportWithThresholdOverrides, { ...options, deltaFormat: 'percent', threshold: { error: '1%' } });
+    const output = await prettier.format(log.mock.calls[0][0] as string, { parser: 'markdown' });
+
+    expect(output).toContain('🎯 warning threshold: <code>gzip > 100 B</code>');
+    expect(output).not.toContain('🎯 threshold: <code>1%</code>');
+    expect(output).toContain('<sub>🎯 Thresholds unless overridden per entry: threshold: <code>1%</code></sub>');
+  });
+
+  it('renders a report with acknowledged entries', async () => {
+    const log = vitest.spyOn(logger, 'raw').mockImplementation(noop);
+
+    markdownReporter(reportWithAcknowledgedEntries, options);
+    const output = await prettier.format(log.mock.calls[0][0] as string, { parser: 'markdown' });
+
+    expect(output).toMatchSnapshot();
+  });
+
+  it('renders a report with removed entries', async () => {
+    const log = vitest.spyOn(logger, 'raw').mockImplementation(noop);
+
+    markdownReporter(reportWithRemovedEntries, options);
+    const output = await prettier.format(log.mock.calls[0][0] as string, { parser: 'markdown' });
+
+    expect(output).toMatchSnapshot();
+  });
+
+  it('renders a report with async chunks', async () => {
+    const log = vitest.spyOn(logger, 'raw').mockImplementation(noop);
+
+    markdownReporter(reportWithAsyncChunks, options);
+    const output = await prettier.format(log.mock.calls[0][0] as string, { parser: 'markdown' });
+
+    expect(output).toMatchSnapshot();
+  });
+
+  it('renders a report with assets', async () => {
+    const log = vitest.spyOn(logger, 'raw').mockImplementation(noop);
+
+    markdownReporter(reportWithAssets, options);
+    const output = await prettier.format(log.mock.calls[0][0] as string, { parser: 'markdown' });
+
+    expect(output).toMatchSnapshot();
+  });
+
+  it('renders a report with module changes', async () => {
+    const log = vitest.spyOn(logger, 'raw').mockImplementation(noop);
+
+    markdownReporter(reportWithModuleChanges, options);
+    const output = await prettier.format(log.mock.calls[0][0] as string, { parser: 'markdown' });
+
+    expect(output).toMatchSnapshot();
+  });
+
+  it('renders a report with new duplicate packages', async () => {
+    const log = vitest.spyOn(logger, 'raw').mockImplementation(noop);
+
+    markdownReporter(reportWithDuplicatePackages, options);
+    const output = await prettier.format(log.mock.calls[0][0] as string, { parser: 'markdown' });
+
+    expect(output).toMatchSnapshot();
+  });
+
+  it('renders a report with exceeded budgets', async () => {
+    const log = vitest.spyOn(logger, 'raw').mockImplementation(noop);
+
+    markdownReporter(reportWithExceededBudgets, options);
+    const output = await prettier.format(log.mock.calls[0][0] as string, { parser: 'markdown' });
+
+    expect(output).toMatchSnapshot();
+  });
 });
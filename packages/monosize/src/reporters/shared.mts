@@ -1,19 +1,41 @@
-import type { DiffByMetric } from '../utils/calculateDiff.mjs';
-import type { ComparedReport } from '../utils/compareResultsInReports.mjs';
-import { formatBytes } from '../utils/helpers.mjs';
+import type { AssetType, MetricSizes, ThresholdSeverity } from '../types.mjs';
+import type { DiffByMetric, DiffForModule } from '../utils/calculateDiff.mjs';
+import type { ComparedReport, ComparedReportEntry } from '../utils/compareResultsInReports.mjs';
+import { ASSET_TYPES, formatBytes } from '../utils/helpers.mjs';
+import type { ReportSummary } from '../utils/getReportSummary.mjs';
+import type { MetricDefinition } from '../utils/metrics.mjs';
+
+/**
+ * A format of changes in reporters: a change in bytes or in percents.
+ */
+export type DeltaFormat = 'delta' | 'percent';
 
 export type Reporter = (
   report: ComparedReport,
-  options: { commitSHA: string; repository: string; showUnchanged: boolean; deltaFormat: keyof DiffByMetric },
+  options: {
+    /** A path or a glob of a local baseline report, is shown instead of a commit if set. */
+    baseline?: string;
+    /** Is set if a baseline report was built locally from a commit instead of fetched from a storage. */
+    builtLocally?: boolean;
+    commitSHA: string;
+    /** A merge base that a baseline commit was selected from, is set when comparing against a merge base. */
+    mergeBase?: { commitSHA: string; distance: number };
+    repository: string;
+    showUnchanged: boolean;
+    deltaFormat: DeltaFormat;
+    metrics: MetricDefinition[];
+    /** Rules of a global threshold keyed by severities, overrides of entries are compared against them. */
+    threshold?: Partial<Record<ThresholdSeverity, string>>;
+  },
 ) => void;
 
 export function formatDeltaFactory(
   diff: DiffByMetric,
-  options: { deltaFormat: keyof DiffByMetric; directionSymbol: (value: number) => string },
+  options: { deltaFormat: DeltaFormat; directionSymbol: (value: number) => string },
 ) {
   const { deltaFormat, directionSymbol } = options;
 
-  if (diff.delta === 0) {
+  if (diff.delta === 0 || diff.belowNoiseFloor) {
     return '';
   }
 
@@ -21,3 +43,154 @@ export function formatDeltaFactory(
 
   return { deltaOutput, dirSymbol: directionSymbol(diff.delta) };
 }
+
+/**
+ * Describes a baseline commit relative to a merge base, for example: "3 commits before the merge base 1a2b3c4".
+ */
+function formatMergeBaseDistance(mergeBase: { commitSHA: string; distance: number }): string {
+  const mergeBaseSHA = mergeBase.commitSHA.slice(0, 7);
+
+  if (mergeBase.distance === 0) {
+    return `the merge base ${mergeBaseSHA}`;
+  }
+
+  return `${mergeBase.distance} ${mergeBase.distance === 1 ? 'commit' : 'commits'} before the merge base ${mergeBaseSHA}`;
+}
+
+/**
+ * Returns notes about a baseline commit that are shown next to it, for example: "the merge base 1a2b3c4, built locally".
+ */
+export function formatBaselineCommitNotes(
+  options: Pick<Parameters<Reporter>[1], 'builtLocally' | 'mergeBase'>,
+): string {
+  const { builtLocally, mergeBase } = options;
+  const notes: string[] = [];
+
+  if (mergeBase) {
+    notes.push(formatMergeBaseDistance(mergeBase));
+  }
+
+  if (builtLocally) {
+    notes.push('built locally');
+  }
+
+  return notes.join(', ');
+}
+
+/**
+ * Returns titles of metrics joined with a slash, for example: "minified/GZIP".
+ */
+export function formatMetricsTitle(metrics: MetricDefinition[]): string {
+  return metrics.map(metric => metric.title).join('/');
+}
+
+/**
+ * Formats names of metrics that exceed a threshold with their titles, for example: "minified, GZIP".
+ */
+export function formatThresholdMetrics(thresholdMetrics: string[], metrics: MetricDefinition[]): string {
+  return thresholdMetrics.map(name => metrics.find(metric => metric.name === name)?.title ?? name).join(', ');
+}
+
+/**
+ * Formats numbers of entries by statuses, for example: "2 increased, 1 new". Statuses without entries are omitted.
+ */
+export function formatSummaryCounts(counts: ReportSummary['counts']): string {
+  return (Object.keys(counts) as Array<keyof ReportSummary['counts']>)
+    .filter(status => counts[status] > 0)
+    .map(status => `${counts[status]} ${status}`)
+    .join(', ');
+}
+
+/**
+ * Returns packages of a summary with changed sizes.
+ */
+export function getChangedPackages(summary: ReportSummary): ReportSummary['packages'] {
+  return summary.packages.filter(({ totals }) => Object.values(totals).some(total => total.diff.delta !== 0));
+}
+
+/**
+ * Checks if an entry or its baseline has async chunks, i.e. if total sizes are different from initial ones.
+ */
+export function hasAsyncChunks(entry: ComparedReportEntry): boolean {
+  return entry.totalSizes !== undefined || entry.diff.total !== undefined;
+}
+
+/**
+ * Returns changed entries that have changes of module sizes.
+ */
+export function getEntriesWithModuleChanges(entries: ComparedReport): ComparedReport {
+  return entries.filter(entry => entry.diff.modules !== undefined && entry.diff.modules.length > 0);
+}
+
+export const MODULE_STATUS_SUFFIXES: Record<DiffForModule['status'], string> = {
+  added: ' (new)',
+  removed: ' (removed)',
+  changed: '',
+};
+
+export const ASSET_TYPE_TITLES: Record<AssetType, string> = {
+  js: 'JS',
+  css: 'CSS',
+  other: 'other assets',
+};
+
+/**
+ * Returns asset types that are present in an entry or its baseline. Returns an empty array for entries that emit only
+ * JS files.
+ */
+export function getAssetTypes(entry: ComparedReportEntry): AssetType[] {
+  return ASSET_TYPES.filter(
+    assetType => entry.assetSizes?.[assetType] !== undefined || entry.diff.assets?.[assetType] !== undefined,
+  );
+}
+
+/**
+ * Sizes of initial chunks (default), sizes including async chunks, or sizes of initial chunks of an asset type.
+ */
+export type SizeScope = 'initial' | 'total' | AssetType;
+
+function getSizesAndDiffs(
+  entry: ComparedReportEntry,
+  scope: SizeScope,
+): { sizes: MetricSizes | undefined; diffs: Record<string, DiffByMetric> | undefined } {
+  if (scope === 'initial') {
+    return { sizes: entry, diffs: entry.diff.metrics };
+  }
+
+  if (scope === 'total') {
+    return { sizes: entry.totalSizes ?? entry, diffs: entry.diff.total ?? entry.diff.metrics };
+  }
+
+  return { sizes: entry.assetSizes?.[scope], diffs: entry.diff.assets?.[scope]?.metrics };
+}
+
+/**
+ * Returns sizes of an entry before & after changes for a metric. Returns `undefined` for unknown values, i.e. when
+ * a remote report does not contain a metric.
+ */
+export function getSizesByMetric(
+  entry: ComparedReportEntry,
+  metric: MetricDefinition,
+  scope: SizeScope = 'initial',
+): { before: number | undefined; after: number | undefined; diff: DiffByMetric | undefined } {
+  const { sizes, diffs } = getSizesAndDiffs(entry, scope);
+  const diff = diffs?.[metric.name] as DiffByMetric | undefined;
+
+  // An asset type can be missing in an entry if it was present only in the baseline
+  const after = (sizes?.[metric.reportKey] as number | undefined) ?? (diff ? 0 : undefined);
+
+  if (entry.diff.empty) {
+    return { before: undefined, after, diff };
+  }
+
+  // Sizes of removed entries are sizes from a remote report
+  if (entry.diff.removed) {
+    return { before: after, after: undefined, diff: undefined };
+  }
+
+  return {
+    before: typeof after === 'number' && diff ? after - diff.delta : undefined,
+    after,
+    diff,
+  };
+}
@@ -1,12 +1,84 @@
+import type { Buffer } from 'node:buffer';
+
+/**
+ * A key that is used to store a value of a metric in reports, for example: "minifiedSize", "gzippedSize".
+ */
+export type ReportSizeKey = `${string}Size`;
+
+/**
+ * Sizes of a fixture keyed by report keys of metrics. Reports produced with a different set of metrics (or by older
+ * versions of monosize) might not contain values for all metrics.
+ */
+export type MetricSizes = Record<ReportSizeKey, number>;
+
+/**
+ * A type of an emitted file: JS, CSS or any other asset (fonts, images, etc.).
+ */
+export type AssetType = 'js' | 'css' | 'other';
+
+export type DuplicatePackage = {
+  name: string;
+  /**
+   * Copies of a package included in a fixture. Paths of package roots are relative to a package root of a fixture,
+   * versions are read from "package.json" files of copies.
+   */
+  copies: Array<{ path: string; version?: string }>;
+};
+
+/**
+ * Absolute size limits keyed by metrics: a name of a metric prefixed with "max", e.g. `{ maxGzip: '50 kB' }` for the
+ * "gzip" metric. Values use the same format as size thresholds.
+ */
+export type SizeBudgets = Partial<Record<`max${string}`, string>>;
+
 export type BuildResult = {
   name: string;
   path: string;
-  minifiedSize: number;
-  gzippedSize: number;
-};
 
-export type BundleSizeReportEntry = Pick<BuildResult, 'name' | 'path' | 'minifiedSize' | 'gzippedSize'> & {
+  /**
+   * A threshold declared in metadata of a fixture, overrides the "error" rule of `MonoSizeConfig.threshold` for this
+   * fixture.
+   */
+  threshold?: string;
+
+  /**
+   * Budgets declared in metadata of a fixture, override `MonoSizeConfig.budgets` for this fixture.
+   */
+  budgets?: SizeBudgets;
+
+  /**
+   * Sizes of all chunks of a fixture, including async chunks (i.e. loaded via `import()`). Top level sizes contain
+   * only sizes of initial chunks. Omitted when a fixture has no async chunks, total sizes are equal to initial ones in
+   * this case.
+   */
+  totalSizes?: MetricSizes;
+
+  /**
+   * Sizes of initial chunks split by asset types, top level sizes are sums of them. Omitted when a fixture emits only
+   * JS files.
+   */
+  assetSizes?: Partial<Record<AssetType, MetricSizes>>;
+
+  /**
+   * Packages that are included in a fixture more than once (different versions or copies in different paths). Present
+   * only if a bundler adapter reports modules, an empty array means that there are no duplicates.
+   */
+  duplicatePackages?: DuplicatePackage[];
+} & MetricSizes;
+
+/**
+ * Sizes of modules in bytes keyed by paths of modules (relative to a package root) or names of generated modules.
+ */
+export type ModuleSizes = Record<string, number>;
+
+export type BundleSizeReportEntry = BuildResult & {
   packageName: string;
+
+  /**
+   * Sizes of modules included in initial chunks of a fixture, are used to attribute size changes to modules. Stored
+   * separately from a report (in "monosize.modules.json"), storage adapters might not keep them.
+   */
+  modules?: ModuleSizes;
 };
 export type BundleSizeReport = BundleSizeReportEntry[];
 
@@ -15,21 +87,96 @@ export type ThresholdValue = {
   type: 'size' | 'percent';
 };
 
+/**
+ * "warn" thresholds are only reported, "error" thresholds also fail `compare-reports`.
+ */
+export type ThresholdSeverity = 'warn' | 'error';
+
+/**
+ * A threshold rule (e.g. `gzip > 1kB && gzip > 2%`) or a plain value (e.g. `10%`) checked against
+ * `MonoSizeConfig.thresholdMetric`. A string is a rule for the "error" severity, an object sets rules per severity.
+ */
+export type ThresholdConfig = string | Partial<Record<ThresholdSeverity, string>>;
+
+/**
+ * An acknowledged size increase declared in "monosize.overrides.json": thresholds & budgets exceeded by matching entries
+ * don't fail `compare-reports` while their sizes stay within limits of an override.
+ */
+export type SizeOverrideConfig = {
+  packageName: string;
+  /** A path of a fixture, e.g. "bundle-size/Button.fixture.js". All fixtures of a package match if omitted. */
+  path?: string;
+  /** Maximum sizes keyed by metric names, e.g. `{ gzip: '12 kB' }`. */
+  maxSize?: Record<string, string>;
+  /** Maximum increases keyed by metric names, sizes or percentages, e.g. `{ gzip: '2 kB', minified: '15%' }`. */
+  maxDelta?: Record<string, string>;
+  /** Why an increase is intentional, is displayed by reporters. */
+  reason: string;
+  /**
+   * A date (YYYY-MM-DD) starting from which an override is ignored or a commit SHA: an override is ignored once the
+   * commit is included in a baseline (i.e. an acknowledged change has landed).
+   */
+  expires?: string;
+};
+
+export type SizeOverridesFile = {
+  overrides: SizeOverrideConfig[];
+};
+
 //
 // Storage
 
 export type StorageAdapter = {
   getRemoteReport(branch: string): Promise<{ commitSHA: string; remoteReport: BundleSizeReport }>;
+  /**
+   * Returns a report uploaded for a commit, `commitSHA` is an empty string if there is no report for it. Is optional,
+   * adapters that keep only the latest report of a branch don't implement it.
+   */
+  getReportForCommit?(commitSHA: string): Promise<{ commitSHA: string; remoteReport: BundleSizeReport }>;
   uploadReportToRemote(branch: string, commitSHA: string, localReport: BundleSizeReport): Promise<void>;
 };
 
 //
 // Bundlers
 
+export type BuildOutputChunk = {
+  /**
+   * An absolute path to an emitted file: a JS or CSS file of a chunk, or an asset (font, image, etc.) referenced by a
+   * chunk.
+   */
+  path: string;
+  /**
+   * "initial" chunks are loaded together with an entry point, "async" chunks are loaded on demand via `import()`.
+   * Assets have the same type as chunks that reference them.
+   */
+  type: 'initial' | 'async';
+};
+
+export type BuildOutputModule = {
+  /**
+   * An absolute path to a source file, or a name of a generated module (for example, webpack's runtime modules).
+   */
+  path: string;
+  /**
+   * A size of a module in bytes as reported by a bundler, it could be a size of a module in the output or a size of
+   * its source.
+   */
+  size: number;
+};
+
 export type BundlerAdapter = {
   buildFixture: (options: { fixturePath: string; debug: boolean; quiet: boolean }) => Promise<{
     outputPath: string;
     debugOutputPath?: string;
+    /**
+     * All chunks emitted for a fixture, including `outputPath`.
+     * When omitted, `outputPath` is treated as the only (initial) chunk.
+     */
+    chunks?: BuildOutputChunk[];
+    /**
+     * Modules included in initial chunks of a fixture. Optional, is used to attribute size changes to modules.
+     */
+    modules?: BuildOutputModule[];
   }>;
 
   /**
@@ -45,6 +192,10 @@ export type BundlerAdapter = {
       name: string;
       outputPath: string;
       debugOutputPath?: string;
+      /** See `chunks` in `buildFixture()`. */
+      chunks?: BuildOutputChunk[];
+      /** See `modules` in `buildFixture()`. */
+      modules?: BuildOutputModule[];
     }>
   >;
 
@@ -66,6 +217,29 @@ export type BundleAdapterFactory<T extends Record<string, any>> = (
   options: BundlerAdapterFactoryConfig<T>,
 ) => BundlerAdapter;
 
+//
+// Metrics
+
+export type BuiltInMetricName = 'minified' | 'gzip' | 'brotli' | 'zstd';
+
+/**
+ * Receives a content of a built fixture and returns a value of a metric in bytes.
+ */
+export type MetricMeasureFunction = (content: Buffer) => number | Promise<number>;
+
+/**
+ * A custom metric. A named function can be used as a shorthand, its name will be used as a name of the metric.
+ */
+export type CustomMetric =
+  | MetricMeasureFunction
+  | {
+      /** A name of the metric, should contain only letters & digits. */
+      name: string;
+      /** A human-readable name used by reporters. Defaults to `name`. */
+      title?: string;
+      measure: MetricMeasureFunction;
+    };
+
 type ReportResolvers = {
   /**
    * Override package name resolution used within compare-reports and upload-report.
@@ -88,7 +262,10 @@ type ReportResolvers = {
 
 export type MonoSizeConfig = {
   repository: string;
-  storage: StorageAdapter;
+  /**
+   * Is required by "upload-report" & by "compare-reports" unless a local baseline is passed via "--baseline".
+   */
+  storage?: StorageAdapter;
   bundler: BundlerAdapter;
 
   /**
@@ -98,8 +275,67 @@ export type MonoSizeConfig = {
   reportResolvers?: ReportResolvers;
 
   /**
-   * A threshold limit for checking if the bundle size is within the limit.
-   * It should be a string with a number and unit. Format: `0.5 kB`, `1kB, `10%`.
+   * Metrics that are measured, compared & reported for each fixture.
+   * Accepts names of built-in metrics and custom metrics, defaults to `['minified', 'gzip', 'brotli']`.
    */
-  threshold?: string;
+  metrics?: Array<BuiltInMetricName | CustomMetric>;
+
+  /**
+   * A threshold limit for checking if the bundle size is within the limit. Plain values are checked against a metric
+   * defined by `thresholdMetric`, rules refer to metrics by names.
+   * Format: `0.5 kB`, `10%`, `gzip > 1kB && gzip > 2%`, `{ warn: '2%', error: 'gzip > 5%' }`.
+   */
+  threshold?: ThresholdConfig;
+
+  /**
+   * Thresholds for packages keyed by globs of package names (e.g. `'@scope/react-*': '2%'`), they override `threshold`
+   * per severity. If several globs match a package, the most specific one is used.
+   */
+  thresholds?: Record<string, ThresholdConfig>;
+
+  /**
+   * A name of a metric that thresholds are checked against, "any" checks all metrics. Defaults to the first metric
+   * defined in `metrics`.
+   */
+  thresholdMetric?: string;
+
+  /**
+   * Threshold limits for separate asset types (JS, CSS & other assets), they are checked in addition to `threshold`
+   * for fixtures that emit non-JS files. Uses the same format as `threshold`.
+   */
+  assetThresholds?: Partial<Record<AssetType, ThresholdConfig>>;
+
+  /**
+   * Controls how duplicate packages introduced in fixtures are handled by `compare-reports`: "warn" (default) only
+   * reports them, "error" also fails the command.
+   */
+  duplicatePackages?: 'warn' | 'error';
+
+  /**
+   * Controls how fixtures that are present in a baseline, but missing locally are handled by `compare-reports`: "warn"
+   * (default) only reports them, "error" also fails the command.
+   */
+  removedFixtures?: 'warn' | 'error';
+
+  /**
+   * Changes smaller than a noise floor (e.g. a few bytes from a reordered hash) are treated as unchanged by reporters &
+   * are not checked against thresholds. Keyed by metric names, values are sizes and/or percentages, e.g.
+   * `{ gzip: '8 B', minified: ['16 B', '0.1%'] }`: a change is ignored if it's smaller than any of the values.
+   */
+  noiseFloor?: Record<string, string | string[]>;
+
+  /**
+   * A command that prepares a checkout of a baseline commit for `compare-reports --build-baseline` before fixtures are
+   * measured, e.g. `yarn install --immutable && yarn build`. Is executed in a root of a temporary git worktree.
+   */
+  buildBaselineCommand?: string;
+
+  /**
+   * Absolute size limits checked by `measure` & `compare-reports` regardless of a baseline, e.g. `{ maxGzip: '50 kB' }`.
+   * Budgets in `packages` are applied to packages with names matching glob patterns & override global ones, budgets
+   * declared in metadata of fixtures override both.
+   */
+  budgets?: SizeBudgets & {
+    packages?: Record<string, SizeBudgets>;
+  };
 };
@@ -0,0 +1,110 @@
+import { execFileSync, execSync } from 'node:child_process';
+import { glob } from 'glob';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { collectLocalReport, DEFAULT_REPORT_FILES_GLOB, findGitRoot, getPackageRoot } from './collectLocalReport.mjs';
+import { DEFAULT_FIXTURES_GLOB, measurePackage } from './measurePackage.mjs';
+import type { MetricDefinition } from './metrics.mjs';
+import type { BundleSizeReport, MonoSizeConfig } from '../types.mjs';
+import { logger } from '../logger.mjs';
+
+type BuildBaselineReportOptions = {
+  config: MonoSizeConfig;
+  metrics: MetricDefinition[];
+  /** A commit that a baseline is built from. */
+  commitSHA: string;
+  /** Fixtures that are measured in a baseline, should match fixtures measured locally. */
+  fixturesGlob?: string;
+  reportFilesGlob: string | undefined;
+  quiet: boolean;
+  root?: string;
+};
+
+/**
+ * Returns packages that are measured locally: roots of packages relative to a git root & locations of reports relative
+ * to package roots. Baselines are measured only for these packages & are written to the same locations.
+ */
+async function getMeasuredPackages(
+  config: MonoSizeConfig,
+  reportFilesGlob: string,
+  root: string,
+): Promise<Array<{ packageRoot: string; artifactsLocation: string }>> {
+  const reportFiles = await glob(reportFilesGlob, { absolute: true, cwd: root });
+
+  return Promise.all(
+    reportFiles.map(async reportFile => {
+      const packageRoot = await (config.reportResolvers?.packageRoot ?? getPackageRoot)(reportFile);
+
+      return {
+        packageRoot: path.relative(root, packageRoot),
+        artifactsLocation: path.relative(packageRoot, path.dirname(reportFile)),
+      };
+    }),
+  );
+}
+
+/**
+ * Checks out a commit into a temporary git worktree, measures fixtures of locally measured packages there with the
+ * configured bundler adapter & collects their reports. The worktree is removed afterwards.
+ */
+export async function buildBaselineReport(options: BuildBaselineReportOptions): Promise<BundleSizeReport> {
+  const {
+    config,
+    metrics,
+    commitSHA,
+    fixturesGlob = DEFAULT_FIXTURES_GLOB,
+    reportFilesGlob = DEFAULT_REPORT_FILES_GLOB,
+    quiet,
+    root = findGitRoot(process.cwd()),
+  } = options;
+
+  const packages = await getMeasuredPackages(config, reportFilesGlob, root);
+  const worktreeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'monosize-baseline-'));
+
+  try {
+    execFileSync('git', ['worktree', 'add', '--detach', worktreeDir, commitSHA], { cwd: root, stdio: 'pipe' });
+
+    if (config.buildBaselineCommand) {
+      if (!quiet) {
+        logger.info(`Running "${config.buildBaselineCommand}" in a worktree of "${commitSHA}" commit...`);
+      }
+
+      execSync(config.buildBaselineCommand, { cwd: worktreeDir, stdio: quiet ? 'pipe' : 'inherit' });
+    }
+
+    for (const { packageRoot, artifactsLocation } of packages) {
+      const baselinePackageRoot = path.join(worktreeDir, packageRoot);
+
+      // Packages that don't have fixtures in a baseline are new, they are reported as new entries
+      if ((await glob(`bundle-size/${fixturesGlob}`, { cwd: baselinePackageRoot })).length === 0) {
+        continue;
+      }
+
+      await measurePackage({
+        config,
+        metrics,
+        cwd: baselinePackageRoot,
+        artifactsLocation,
+        fixturesGlob,
+        buildMode: 'batch',
+        debug: false,
+        quiet,
+      });
+    }
+
+    return await collectLocalReport({
+      reportResolvers: config.reportResolvers,
+      reportFilesGlob,
+      root: worktreeDir,
+    });
+  } finally {
+    // A worktree is not registered if "git worktree add" failed, only a temporary directory is removed then
+    if (fs.existsSync(path.join(worktreeDir, '.git'))) {
+      execFileSync('git', ['worktree', 'remove', '--force', worktreeDir], { cwd: root, stdio: 'pipe' });
+    }
+
+    fs.rmSync(worktreeDir, { recursive: true, force: true });
+  }
+}
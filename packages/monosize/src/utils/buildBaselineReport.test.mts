@@ -0,0 +1,153 @@
+import { beforeEach, describe, expect, it, vitest } from 'vitest';
+
+import { execSync } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+import tmp from 'tmp';
+
+import { buildBaselineReport } from './buildBaselineReport.mjs';
+import { resolveMetrics } from './metrics.mjs';
+import type { MonoSizeConfig } from '../types.mjs';
+
+function git(args: string, cwd: string): string {
+  return execSync(`git -c user.name=test -c user.email=test@example.com ${args}`, { cwd, stdio: 'pipe' })
+    .toString()
+    .trim();
+}
+
+function writeFile(filePath: string, content: string) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+}
+
+function createFixture(content: string): string {
+  return `console.log("${content}");\nexport default { name: 'Foo' };`;
+}
+
+// Outputs of fixtures are copies of fixtures, contents of built fixtures are collected
+const builtFixtures: string[] = [];
+const buildFixtures = vitest.fn(async ({ fixtures }: { fixtures: Array<{ fixturePath: string; name: string }> }) =>
+  fixtures.map(({ fixturePath, name }) => {
+    const outputPath = fixturePath.replace(/\.fixture\.js$/, '.output.js');
+
+    fs.cpSync(fixturePath, outputPath);
+    builtFixtures.push(fs.readFileSync(fixturePath, 'utf8'));
+
+    return { name, outputPath };
+  }),
+);
+
+function mkRepo() {
+  const rootDir = tmp.dirSync({ prefix: 'buildBaselineReport', unsafeCleanup: true }).name;
+
+  git('init --quiet', rootDir);
+  writeFile(path.join(rootDir, 'packages/package-a/package.json'), JSON.stringify({ name: 'package-a' }));
+  writeFile(path.join(rootDir, 'packages/package-a/bundle-size/Foo.fixture.js'), createFixture('foo'));
+  git('add -A', rootDir);
+  git('commit --quiet -m baseline', rootDir);
+
+  const commitSHA = git('rev-parse HEAD', rootDir);
+
+  // Local changes: a fixture is changed, a new package is added & both are measured
+  writeFile(path.join(rootDir, 'packages/package-a/bundle-size/Foo.fixture.js'), createFixture('foo & bar'));
+  writeFile(path.join(rootDir, 'packages/package-a/dist/bundle-size/monosize.json'), '[]');
+  writeFile(path.join(rootDir, 'packages/package-b/package.json'), JSON.stringify({ name: 'package-b' }));
+  writeFile(path.join(rootDir, 'packages/package-b/bundle-size/Bar.fixture.js'), createFixture('bar'));
+  writeFile(path.join(rootDir, 'packages/package-b/dist/bundle-size/monosize.json'), '[]');
+
+  return { commitSHA, rootDir };
+}
+
+describe('buildBaselineReport', () => {
+  beforeEach(() => {
+    builtFixtures.length = 0;
+  });
+
+  it('measures fixtures of a commit in a worktree', async () => {
+    const { commitSHA, rootDir } = mkRepo();
+    const config = { bundler: { buildFixtures } } as unknown as MonoSizeConfig;
+
+    const report = await buildBaselineReport({
+      config,
+      metrics: resolveMetrics(['minified']),
+      commitSHA,
+      reportFilesGlob: undefined,
+      quiet: true,
+      root: rootDir,
+    });
+
+    expect(report).toEqual([
+      {
+        name: 'Foo',
+        packageName: 'package-a',
+        path: 'bundle-size/Foo.fixture.js',
+        minifiedSize: expect.any(Number),
+      },
+    ]);
+    expect(builtFixtures).toEqual([expect.stringContaining('console.log("foo")')]);
+    // The worktree is removed
+    expect(git('worktree list', rootDir).split('\n')).toHaveLength(1);
+  });
+
+  it('runs "buildBaselineCommand" in a worktree', async () => {
+    const { commitSHA, rootDir } = mkRepo();
+    const config = {
+      bundler: { buildFixtures },
+      buildBaselineCommand: `echo "console.log('built'); export default { name: 'Foo' };" > packages/package-a/bundle-size/Foo.fixture.js`,
+    } as unknown as MonoSizeConfig;
+
+    await buildBaselineReport({
+      config,
+      metrics: resolveMetrics(['minified']),
+      commitSHA,
+      reportFilesGlob: undefined,
+      quiet: true,
+      root: rootDir,
+    });
+
+    expect(builtFixtures).toEqual([expect.stringContaining(`console.log('built')`)]);
+  });
+
+  it('measures fixtures matching a glob', async () => {
+    const { rootDir } = mkRepo();
+    const config = { bundler: { buildFixtures } } as unknown as MonoSizeConfig;
+
+    git('checkout --quiet -b baseline', rootDir);
+    writeFile(path.join(rootDir, 'packages/package-a/bundle-size/Baz.fixture.js'), createFixture('baz'));
+    git('add packages/package-a/bundle-size/Baz.fixture.js', rootDir);
+    git('commit --quiet -m baz', rootDir);
+
+    await buildBaselineReport({
+      config,
+      metrics: resolveMetrics(['minified']),
+      commitSHA: git('rev-parse HEAD', rootDir),
+      fixturesGlob: 'Baz.fixture.js',
+      reportFilesGlob: undefined,
+      quiet: true,
+      root: rootDir,
+    });
+
+    expect(builtFixtures).toEqual([expect.stringContaining('console.log("baz")')]);
+  });
+
+  it('removes a temporary directory if a worktree cannot be added', async () => {
+    const { rootDir } = mkRepo();
+    const config = { bundler: { buildFixtures } } as unknown as MonoSizeConfig;
+    const mkdtempSync = vitest.spyOn(fs, 'mkdtempSync');
+
+    await expect(
+      buildBaselineReport({
+        config,
+        metrics: resolveMetrics(['minified']),
+        commitSHA: 'unknown',
+        reportFilesGlob: undefined,
+        quiet: true,
+        root: rootDir,
+      }),
+    ).rejects.toThrow();
+
+    expect(fs.existsSync(mkdtempSync.mock.results[0].value)).toBe(false);
+
+    mkdtempSync.mockRestore();
+  });
+});
@@ -1,26 +1,125 @@
-import type { BundleSizeReportEntry, ThresholdValue } from '../types.mjs';
+import type {
+  AssetType,
+  BuildResult,
+  BundleSizeReportEntry,
+  MetricSizes,
+  ModuleSizes,
+  ThresholdSeverity,
+} from '../types.mjs';
+import type { BudgetViolation } from './checkBudgets.mjs';
+import { ASSET_TYPES } from './helpers.mjs';
+import { resolveThresholdMetrics, type MetricDefinition } from './metrics.mjs';
+import { isBelowNoiseFloor, type NoiseFloor } from './noiseFloor.mjs';
+import { evaluateThresholdRule, parseThresholdRule, type ThresholdRules } from './thresholdRules.mjs';
 
 export type DiffByMetric = {
   delta: number;
   percent: string;
+  /**
+   * Shows that a change is smaller than `MonoSizeConfig.noiseFloor`: it's treated as unchanged by reporters & is not
+   * checked against thresholds, `delta` & `percent` keep raw values.
+   */
+  belowNoiseFloor?: boolean;
+};
+
+export type DiffByAssetType = {
+  exceedsThreshold: boolean;
+  /** See `DiffForEntry.thresholdSeverity`. */
+  thresholdSeverity?: ThresholdSeverity;
+  /** See `DiffForEntry.thresholdMetrics`. */
+  thresholdMetrics?: string[];
+  metrics: Record<string, DiffByMetric>;
+};
+
+export type DiffForModule = {
+  /** A path of a module or a name of a generated module. */
+  path: string;
+  status: 'added' | 'removed' | 'changed';
+  /** A change of a module size in bytes. */
+  delta: number;
 };
 
 export type DiffForEntry = {
   empty: boolean;
+
+  /**
+   * Shows that an entry is present only in a remote report (i.e. a fixture was removed or a package is not measured
+   * anymore), sizes of such entries are sizes from the remote report.
+   */
+  removed?: boolean;
+
+  /**
+   * Shows if an "error" threshold is exceeded by an entry or by any of its asset types, such entries fail
+   * `compare-reports`.
+   */
   exceedsThreshold: boolean;
 
-  minified: DiffByMetric;
-  gzip: DiffByMetric;
-};
+  /**
+   * The highest severity of exceeded thresholds of an entry. Omitted if thresholds are not exceeded or if only
+   * thresholds of asset types are exceeded (they are listed in `assets`).
+   */
+  thresholdSeverity?: ThresholdSeverity;
 
-type DiffEntry = Pick<BundleSizeReportEntry, 'minifiedSize' | 'gzippedSize'>;
+  /**
+   * Threshold rules that override `MonoSizeConfig.threshold` for an entry (from `MonoSizeConfig.thresholds` or metadata
+   * of a fixture) keyed by severities. Present only if there are such rules.
+   */
+  thresholdOverrides?: Partial<Record<ThresholdSeverity, string>>;
+
+  /**
+   * A reason of an override from "monosize.overrides.json" that acknowledges exceeded thresholds & budgets of an entry:
+   * such entries don't fail `compare-reports`, their threshold fields & budget violations are reset. Present only if
+   * thresholds or budgets were exceeded.
+   */
+  acknowledged?: string;
+
+  /**
+   * Names of metrics that exceed a threshold of `thresholdSeverity`, see `MonoSizeConfig.thresholdMetric`. Omitted if
+   * a threshold is not exceeded or if only thresholds of asset types are exceeded (they are listed in `assets`).
+   */
+  thresholdMetrics?: string[];
+
+  /**
+   * Diffs keyed by metric names. Metrics that are missing in one of compared entries (i.e. reports produced with a
+   * different set of metrics) are omitted.
+   */
+  metrics: Record<string, DiffByMetric>;
+
+  /**
+   * Diffs of total sizes (i.e. including async chunks) keyed by metric names. Present only if any of compared entries
+   * has async chunks.
+   */
+  total?: Record<string, DiffByMetric>;
+
+  /**
+   * Diffs of initial sizes by asset types. Present only if any of compared entries emits non-JS files.
+   */
+  assets?: Partial<Record<AssetType, DiffByAssetType>>;
+
+  /**
+   * The biggest changes of module sizes sorted by absolute deltas. Present only if both compared entries have sizes of
+   * modules.
+   */
+  modules?: DiffForModule[];
+
+  /**
+   * Names of packages that have multiple copies in a local entry, but not in a remote one. Present only if there are
+   * such packages.
+   */
+  newDuplicatePackages?: string[];
+
+  /**
+   * Budgets exceeded by a local entry, they are checked regardless of a remote entry. Present only if there are such
+   * budgets.
+   */
+  budgetViolations?: BudgetViolation[];
+};
 
 export const EMPTY_DIFF: DiffForEntry = Object.freeze({
   empty: true,
   exceedsThreshold: false,
 
-  minified: { delta: 1, percent: '100%' },
-  gzip: { delta: 1, percent: '100%' },
+  metrics: {},
 });
 
 const formatter = new Intl.NumberFormat([], { style: 'percent', maximumSignificantDigits: 3 });
@@ -41,42 +140,204 @@ function formatPercent(fraction: number): string {
   return formatter.format(roundNumber(fraction, 2));
 }
 
-export function calculateDiff(params: {
-  localEntry: DiffEntry;
-  remoteEntry: DiffEntry;
-  threshold: ThresholdValue;
-}): DiffForEntry {
-  const { localEntry, remoteEntry } = params;
+export function calculateDiffByMetric(localSize: number, remoteSize: number): DiffByMetric & { fraction: number } {
+  const delta = localSize - remoteSize;
+  const fraction = remoteSize === 0 ? 0 : delta / remoteSize;
+
+  return { delta, fraction, percent: formatPercent(fraction) };
+}
+
+type MetricDiff = DiffByMetric & { fraction: number };
 
-  const minifiedDelta = localEntry.minifiedSize - remoteEntry.minifiedSize;
-  const minifiedPercent = remoteEntry.minifiedSize === 0 ? 0 : minifiedDelta / remoteEntry.minifiedSize;
+function calculateMetricsDiff(
+  localSizes: MetricSizes,
+  remoteSizes: MetricSizes,
+  metrics: MetricDefinition[],
+  noiseFloor: NoiseFloor,
+): Record<string, MetricDiff> {
+  return metrics.reduce<Record<string, MetricDiff>>((acc, metric) => {
+    const localSize = localSizes[metric.reportKey];
+    const remoteSize = remoteSizes[metric.reportKey];
 
-  const gzippedDelta = localEntry.gzippedSize - remoteEntry.gzippedSize;
-  const gzippedPercent = remoteEntry.gzippedSize === 0 ? 0 : gzippedDelta / remoteEntry.gzippedSize;
+    if (typeof localSize === 'number' && typeof remoteSize === 'number') {
+      const diff: MetricDiff = calculateDiffByMetric(localSize, remoteSize);
 
-  let exceedsThreshold = false;
+      if (isBelowNoiseFloor(diff, remoteSize, noiseFloor[metric.name])) {
+        diff.belowNoiseFloor = true;
+      }
 
-  if (params.threshold.type === 'size') {
-    if (minifiedDelta > 0 && minifiedDelta >= params.threshold.size) {
-      exceedsThreshold = true;
+      acc[metric.name] = diff;
     }
-  } else if (params.threshold.type === 'percent') {
-    if (minifiedPercent > 0 && minifiedPercent >= params.threshold.size / 100) {
-      exceedsThreshold = true;
+
+    return acc;
+  }, {});
+}
+
+function omitFractions(diffs: Record<string, MetricDiff>): Record<string, DiffByMetric> {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  return Object.fromEntries(Object.entries(diffs).map(([name, { fraction, ...diff }]) => [name, diff]));
+}
+
+type ComparableEntry = MetricSizes &
+  Pick<BuildResult, 'threshold' | 'totalSizes' | 'assetSizes' | 'duplicatePackages'> &
+  Pick<BundleSizeReportEntry, 'modules'>;
+
+const MODULE_DIFFS_LIMIT = 5;
+
+function calculateModulesDiff(localModules: ModuleSizes, remoteModules: ModuleSizes): DiffForModule[] {
+  const modulePaths = new Set([...Object.keys(localModules), ...Object.keys(remoteModules)]);
+
+  return [...modulePaths]
+    .map<DiffForModule>(modulePath => {
+      const localSize = localModules[modulePath];
+      const remoteSize = remoteModules[modulePath];
+
+      if (remoteSize === undefined) {
+        return { path: modulePath, status: 'added', delta: localSize };
+      }
+
+      if (localSize === undefined) {
+        return { path: modulePath, status: 'removed', delta: -remoteSize };
+      }
+
+      return { path: modulePath, status: 'changed', delta: localSize - remoteSize };
+    })
+    .filter(moduleDiff => moduleDiff.delta !== 0)
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta) || a.path.localeCompare(b.path, 'en'))
+    .slice(0, MODULE_DIFFS_LIMIT);
+}
+
+/**
+ * Returns names of packages duplicated in a local entry, but not in a remote one. Entries without a remote entry (i.e.
+ * new fixtures) have all duplicates new. Remote entries without information about duplicates are not compared.
+ */
+export function getNewDuplicatePackages(
+  localEntry: Pick<BuildResult, 'duplicatePackages'>,
+  remoteEntry: Pick<BuildResult, 'duplicatePackages'> | undefined,
+): string[] {
+  if (!localEntry.duplicatePackages || (remoteEntry && !remoteEntry.duplicatePackages)) {
+    return [];
+  }
+
+  const remoteNames = new Set(remoteEntry?.duplicatePackages?.map(duplicatePackage => duplicatePackage.name));
+
+  return localEntry.duplicatePackages
+    .map(duplicatePackage => duplicatePackage.name)
+    .filter(name => !remoteNames.has(name));
+}
+
+function getAssetSizes(entry: ComparableEntry, assetType: AssetType, metrics: MetricDefinition[]): MetricSizes {
+  // Entries without "assetSizes" emit only JS files
+  const sizes = entry.assetSizes ? entry.assetSizes[assetType] : assetType === 'js' ? entry : undefined;
+
+  return sizes ?? Object.fromEntries(metrics.map(metric => [metric.reportKey, 0]));
+}
+
+type ThresholdCheckResult = Pick<DiffByAssetType, 'exceedsThreshold' | 'thresholdSeverity' | 'thresholdMetrics'>;
+
+/**
+ * Checks rules starting from the "error" severity, returns the first exceeded severity & names of metrics that
+ * exceed it.
+ */
+function checkThreshold(
+  metricsDiff: Record<string, MetricDiff>,
+  thresholds: ThresholdRules | undefined,
+): ThresholdCheckResult {
+  // Changes below a noise floor are not checked, as metrics missing in diffs
+  const checkedDiff = Object.fromEntries(Object.entries(metricsDiff).filter(([, diff]) => !diff.belowNoiseFloor));
+
+  for (const severity of ['error', 'warn'] as const) {
+    const rule = thresholds?.[severity];
+    const exceededMetrics = rule && evaluateThresholdRule(rule, checkedDiff);
+
+    if (exceededMetrics) {
+      return {
+        exceedsThreshold: severity === 'error',
+        thresholdSeverity: severity,
+        thresholdMetrics: exceededMetrics,
+      };
     }
   }
 
-  return {
+  return { exceedsThreshold: false };
+}
+
+export function calculateDiff(params: {
+  localEntry: ComparableEntry;
+  remoteEntry: ComparableEntry;
+  metrics: MetricDefinition[];
+  threshold: ThresholdRules;
+  assetThresholds?: Partial<Record<AssetType, ThresholdRules>>;
+  /** See `MonoSizeConfig.thresholdMetric`. */
+  thresholdMetric?: string;
+  noiseFloor?: NoiseFloor;
+}): DiffForEntry {
+  const { assetThresholds = {}, localEntry, metrics, noiseFloor = {}, remoteEntry } = params;
+  // A threshold declared in a fixture overrides an "error" threshold from a config
+  const threshold: ThresholdRules = localEntry.threshold
+    ? {
+        ...params.threshold,
+        error: parseThresholdRule(localEntry.threshold, {
+          defaultMetrics: resolveThresholdMetrics(metrics, params.thresholdMetric).map(metric => metric.name),
+          knownMetrics: metrics.map(metric => metric.name),
+        }),
+      }
+    : params.threshold;
+
+  const metricsDiff = calculateMetricsDiff(localEntry, remoteEntry, metrics, noiseFloor);
+  const diff: DiffForEntry = {
     empty: false,
-    exceedsThreshold,
-
-    minified: {
-      delta: minifiedDelta,
-      percent: formatPercent(minifiedPercent),
-    },
-    gzip: {
-      delta: gzippedDelta,
-      percent: formatPercent(gzippedPercent),
-    },
+    ...checkThreshold(metricsDiff, threshold),
+    metrics: omitFractions(metricsDiff),
   };
+
+  // Entries without async chunks have total sizes equal to initial ones
+  if (localEntry.totalSizes || remoteEntry.totalSizes) {
+    diff.total = omitFractions(
+      calculateMetricsDiff(
+        localEntry.totalSizes ?? localEntry,
+        remoteEntry.totalSizes ?? remoteEntry,
+        metrics,
+        noiseFloor,
+      ),
+    );
+  }
+
+  if (localEntry.assetSizes || remoteEntry.assetSizes) {
+    const assets: NonNullable<DiffForEntry['assets']> = {};
+
+    ASSET_TYPES.forEach(assetType => {
+      if (assetType !== 'js' && !localEntry.assetSizes?.[assetType] && !remoteEntry.assetSizes?.[assetType]) {
+        return;
+      }
+
+      const assetDiff = calculateMetricsDiff(
+        getAssetSizes(localEntry, assetType, metrics),
+        getAssetSizes(remoteEntry, assetType, metrics),
+        metrics,
+        noiseFloor,
+      );
+      const assetThresholdResult = checkThreshold(assetDiff, assetThresholds[assetType]);
+
+      diff.exceedsThreshold ||= assetThresholdResult.exceedsThreshold;
+      assets[assetType] = {
+        ...assetThresholdResult,
+        metrics: omitFractions(assetDiff),
+      };
+    });
+
+    diff.assets = assets;
+  }
+
+  if (localEntry.modules && remoteEntry.modules) {
+    diff.modules = calculateModulesDiff(localEntry.modules, remoteEntry.modules);
+  }
+
+  const newDuplicatePackages = getNewDuplicatePackages(localEntry, remoteEntry);
+
+  if (newDuplicatePackages.length > 0) {
+    diff.newDuplicatePackages = newDuplicatePackages;
+  }
+
+  return diff;
 }
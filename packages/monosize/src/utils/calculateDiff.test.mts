@@ -1,26 +1,102 @@
 import { describe, expect, test } from 'vitest';
 
-import type { ThresholdValue } from '../types.mjs';
 import { calculateDiff } from './calculateDiff.mjs';
+import { resolveMetrics } from './metrics.mjs';
+import { parseNoiseFloor } from './noiseFloor.mjs';
+import { parseThresholdRules } from './thresholdRules.mjs';
+import type { ThresholdConfig } from '../types.mjs';
 
-const DEFAULT_THRESHOLD: ThresholdValue = { size: 1000, type: 'size' };
+function createThreshold(threshold: ThresholdConfig, defaultMetrics = ['minified']) {
+  return parseThresholdRules(threshold, { defaultMetrics });
+}
+
+const DEFAULT_THRESHOLD = createThreshold('1000 B');
+const DEFAULT_METRICS = resolveMetrics();
 
 describe('calculateDiff', () => {
   test('calculates difference deltas and percents', () => {
-    const localEntry = { minifiedSize: 1500, gzippedSize: 150 };
+    const localEntry = { minifiedSize: 1500, gzippedSize: 150, brotliSize: 120 };
+    const remoteEntry = { minifiedSize: 1000, gzippedSize: 100, brotliSize: 80 };
+
+    expect(
+      calculateDiff({
+        localEntry,
+        remoteEntry,
+        metrics: DEFAULT_METRICS,
+        threshold: DEFAULT_THRESHOLD,
+      }),
+    ).toEqual({
+      empty: false,
+      exceedsThreshold: false,
+      metrics: {
+        minified: { delta: 500, percent: '50%' },
+        gzip: { delta: 50, percent: '50%' },
+        brotli: { delta: 40, percent: '50%' },
+      },
+    });
+  });
+
+  test('marks changes below a noise floor and does not check them against thresholds', () => {
+    const localEntry = { minifiedSize: 2003, gzippedSize: 1003, brotliSize: 900 };
+    const remoteEntry = { minifiedSize: 1000, gzippedSize: 1000, brotliSize: 800 };
+
+    expect(
+      calculateDiff({
+        localEntry,
+        remoteEntry,
+        metrics: DEFAULT_METRICS,
+        threshold: createThreshold('gzip > 0 B && minified > 0 B'),
+        noiseFloor: parseNoiseFloor({ gzip: '8 B', brotli: '1%' }, ['minified', 'gzip', 'brotli']),
+      }),
+    ).toEqual({
+      empty: false,
+      exceedsThreshold: false,
+      metrics: {
+        minified: { delta: 1003, percent: '100%' },
+        gzip: { delta: 3, percent: '0.3%', belowNoiseFloor: true },
+        brotli: { delta: 100, percent: '13%' },
+      },
+    });
+  });
+
+  test('does not mark changes from an empty baseline as noise', () => {
+    const localEntry = { minifiedSize: 500, gzippedSize: 5, brotliSize: 4 };
+    const remoteEntry = { minifiedSize: 0, gzippedSize: 0, brotliSize: 0 };
+
+    const diff = calculateDiff({
+      localEntry,
+      remoteEntry,
+      metrics: DEFAULT_METRICS,
+      threshold: createThreshold('minified > 100 B'),
+      noiseFloor: parseNoiseFloor({ minified: '1%', gzip: '8 B' }, ['minified', 'gzip', 'brotli']),
+    });
+
+    expect(diff.exceedsThreshold).toBe(true);
+    expect(diff.metrics).toEqual({
+      minified: { delta: 500, percent: '0%' },
+      gzip: { delta: 5, percent: '0%' },
+      brotli: { delta: 4, percent: '0%' },
+    });
+  });
+
+  test('skips metrics that are missing in an entry', () => {
+    const localEntry = { minifiedSize: 1500, gzippedSize: 150, brotliSize: 120 };
     const remoteEntry = { minifiedSize: 1000, gzippedSize: 100 };
 
     expect(
       calculateDiff({
         localEntry,
         remoteEntry,
+        metrics: DEFAULT_METRICS,
         threshold: DEFAULT_THRESHOLD,
       }),
     ).toEqual({
       empty: false,
       exceedsThreshold: false,
-      minified: { delta: 500, percent: '50%' },
-      gzip: { delta: 50, percent: '50%' },
+      metrics: {
+        minified: { delta: 500, percent: '50%' },
+        gzip: { delta: 50, percent: '50%' },
+      },
     });
   });
 
@@ -32,26 +108,159 @@ describe('calculateDiff', () => {
       calculateDiff({
         localEntry,
         remoteEntry,
+        metrics: resolveMetrics(['minified', 'gzip']),
         threshold: DEFAULT_THRESHOLD,
       }),
     ).toEqual({
       empty: false,
       exceedsThreshold: false,
+      metrics: {
+        minified: { delta: 0, percent: '0%' },
+        gzip: { delta: 0, percent: '0%' },
+      },
+    });
+  });
+
+  test('handles custom metrics', () => {
+    const localEntry = { linesSize: 20 };
+    const remoteEntry = { linesSize: 10 };
+
+    expect(
+      calculateDiff({
+        localEntry,
+        remoteEntry,
+        metrics: resolveMetrics([
+          function lines() {
+            return 0;
+          },
+        ]),
+        threshold: DEFAULT_THRESHOLD,
+      }),
+    ).toEqual({
+      empty: false,
+      exceedsThreshold: false,
+      metrics: {
+        lines: { delta: 10, percent: '100%' },
+      },
+    });
+  });
+
+  test('calculates difference of total sizes when entries have async chunks', () => {
+    const localEntry = { minifiedSize: 1000, gzippedSize: 100, totalSizes: { minifiedSize: 1500, gzippedSize: 150 } };
+    const remoteEntry = { minifiedSize: 1000, gzippedSize: 100 };
+
+    const diff = calculateDiff({
+      localEntry,
+      remoteEntry,
+      metrics: resolveMetrics(['minified', 'gzip']),
+      threshold: DEFAULT_THRESHOLD,
+    });
+
+    expect(diff.metrics).toEqual({
       minified: { delta: 0, percent: '0%' },
       gzip: { delta: 0, percent: '0%' },
     });
+    expect(diff.total).toEqual({
+      minified: { delta: 500, percent: '50%' },
+      gzip: { delta: 50, percent: '50%' },
+    });
+    expect(
+      calculateDiff({ localEntry: remoteEntry, remoteEntry, metrics: DEFAULT_METRICS, threshold: DEFAULT_THRESHOLD }),
+    ).not.toHaveProperty('total');
+  });
+
+  test('calculates difference by asset types', () => {
+    const metrics = resolveMetrics(['minified']);
+    const localEntry = {
+      minifiedSize: 1500,
+      assetSizes: { js: { minifiedSize: 1000 }, css: { minifiedSize: 500 } },
+    };
+    const remoteEntry = { minifiedSize: 1000 };
+
+    expect(
+      calculateDiff({
+        localEntry,
+        remoteEntry,
+        metrics,
+        threshold: DEFAULT_THRESHOLD,
+        assetThresholds: { css: createThreshold('100 B') },
+      }),
+    ).toEqual({
+      empty: false,
+      exceedsThreshold: true,
+      metrics: { minified: { delta: 500, percent: '50%' } },
+      assets: {
+        js: { exceedsThreshold: false, metrics: { minified: { delta: 0, percent: '0%' } } },
+        css: {
+          exceedsThreshold: true,
+          thresholdSeverity: 'error',
+          thresholdMetrics: ['minified'],
+          metrics: { minified: { delta: 500, percent: '0%' } },
+        },
+      },
+    });
+  });
+
+  test('calculates top changes of modules', () => {
+    const localEntry = {
+      minifiedSize: 1500,
+      modules: { 'src/a.js': 500, 'src/b.js': 300, 'src/c.js': 100, 'src/e.js': 400 },
+    };
+    const remoteEntry = {
+      minifiedSize: 1000,
+      modules: { 'src/a.js': 500, 'src/b.js': 100, 'src/c.js': 150, 'src/d.js': 250 },
+    };
+
+    expect(
+      calculateDiff({ localEntry, remoteEntry, metrics: resolveMetrics(['minified']), threshold: DEFAULT_THRESHOLD })
+        .modules,
+    ).toEqual([
+      { path: 'src/e.js', status: 'added', delta: 400 },
+      { path: 'src/d.js', status: 'removed', delta: -250 },
+      { path: 'src/b.js', status: 'changed', delta: 200 },
+      { path: 'src/c.js', status: 'changed', delta: -50 },
+    ]);
+    expect(
+      calculateDiff({
+        localEntry,
+        remoteEntry: { minifiedSize: 1000 },
+        metrics: resolveMetrics(['minified']),
+        threshold: DEFAULT_THRESHOLD,
+      }),
+    ).not.toHaveProperty('modules');
+  });
+
+  test('lists new duplicate packages', () => {
+    const duplicate = (name: string) => ({
+      name,
+      copies: [{ path: `node_modules/${name}` }, { path: `a/node_modules/${name}` }],
+    });
+
+    const localEntry = { minifiedSize: 1000, duplicatePackages: [duplicate('react'), duplicate('scheduler')] };
+    const remoteEntry = { minifiedSize: 1000, duplicatePackages: [duplicate('react')] };
+    const params = { metrics: resolveMetrics(['minified']), threshold: DEFAULT_THRESHOLD };
+
+    expect(calculateDiff({ ...params, localEntry, remoteEntry })).toHaveProperty('newDuplicatePackages', ['scheduler']);
+    expect(calculateDiff({ ...params, localEntry: remoteEntry, remoteEntry: localEntry })).not.toHaveProperty(
+      'newDuplicatePackages',
+    );
+    // Remote entries without information about duplicates are not compared
+    expect(calculateDiff({ ...params, localEntry, remoteEntry: { minifiedSize: 1000 } })).not.toHaveProperty(
+      'newDuplicatePackages',
+    );
   });
 
   describe('threshold', () => {
     test('handles size threshold', () => {
       const localEntry = { minifiedSize: 200, gzippedSize: 20 };
       const remoteEntry = { minifiedSize: 100, gzippedSize: 10 };
-      const threshold: ThresholdValue = { size: 100, type: 'size' };
+      const threshold = createThreshold('100 B');
 
       expect(
         calculateDiff({
           localEntry,
           remoteEntry,
+          metrics: DEFAULT_METRICS,
           threshold,
         }),
       ).toMatchObject({
@@ -62,17 +271,122 @@ describe('calculateDiff', () => {
     test('handles percent threshold', () => {
       const localEntry = { minifiedSize: 200, gzippedSize: 20 };
       const remoteEntry = { minifiedSize: 100, gzippedSize: 10 };
-      const threshold: ThresholdValue = { size: 40, type: 'percent' };
+      const threshold = createThreshold('40%');
 
       expect(
         calculateDiff({
           localEntry,
           remoteEntry,
+          metrics: DEFAULT_METRICS,
           threshold,
         }),
       ).toMatchObject({
         exceedsThreshold: true,
       });
     });
+
+    test('uses a threshold of a local entry instead of a global one', () => {
+      const remoteEntry = { minifiedSize: 100, gzippedSize: 10 };
+      const threshold = createThreshold('40%');
+
+      expect(
+        calculateDiff({
+          localEntry: { minifiedSize: 120, gzippedSize: 12, threshold: '10%' },
+          remoteEntry,
+          metrics: DEFAULT_METRICS,
+          threshold,
+        }),
+      ).toMatchObject({ exceedsThreshold: true });
+      expect(
+        calculateDiff({
+          localEntry: { minifiedSize: 200, gzippedSize: 20, threshold: '1 kB' },
+          remoteEntry,
+          metrics: DEFAULT_METRICS,
+          threshold,
+        }),
+      ).toMatchObject({ exceedsThreshold: false });
+    });
+
+    test('checks threshold of a local entry against the first metric', () => {
+      const localEntry = { minifiedSize: 100, gzippedSize: 20, threshold: '40%' };
+      const remoteEntry = { minifiedSize: 100, gzippedSize: 10 };
+      const threshold = {};
+
+      expect(
+        calculateDiff({ localEntry, remoteEntry, metrics: resolveMetrics(['minified', 'gzip']), threshold }),
+      ).toMatchObject({ exceedsThreshold: false });
+      expect(
+        calculateDiff({ localEntry, remoteEntry, metrics: resolveMetrics(['gzip', 'minified']), threshold }),
+      ).toMatchObject({ exceedsThreshold: true, thresholdMetrics: ['gzip'] });
+    });
+
+    test('checks threshold of a local entry against a configured metric', () => {
+      const localEntry = { minifiedSize: 200, gzippedSize: 20, threshold: '50%' };
+      const remoteEntry = { minifiedSize: 100, gzippedSize: 10 };
+      const metrics = resolveMetrics(['minified', 'gzip']);
+      const threshold = {};
+
+      expect(calculateDiff({ localEntry, remoteEntry, metrics, threshold, thresholdMetric: 'gzip' })).toMatchObject({
+        exceedsThreshold: true,
+        thresholdMetrics: ['gzip'],
+      });
+      expect(calculateDiff({ localEntry, remoteEntry, metrics, threshold, thresholdMetric: 'any' })).toMatchObject({
+        exceedsThreshold: true,
+        thresholdMetrics: ['minified', 'gzip'],
+      });
+      expect(
+        calculateDiff({
+          localEntry: { ...localEntry, gzippedSize: 12 },
+          remoteEntry,
+          metrics,
+          threshold,
+          thresholdMetric: 'gzip',
+        }),
+      ).not.toHaveProperty('thresholdMetrics');
+    });
+
+    test('checks threshold rules', () => {
+      const remoteEntry = { minifiedSize: 10000, gzippedSize: 1000 };
+      const metrics = resolveMetrics(['minified', 'gzip']);
+      const threshold = createThreshold('gzip > 100 B && gzip > 5%');
+
+      expect(
+        calculateDiff({ localEntry: { minifiedSize: 10000, gzippedSize: 1200 }, remoteEntry, metrics, threshold }),
+      ).toMatchObject({ exceedsThreshold: true, thresholdSeverity: 'error', thresholdMetrics: ['gzip'] });
+      // +4%
+      expect(
+        calculateDiff({ localEntry: { minifiedSize: 10000, gzippedSize: 1040 }, remoteEntry, metrics, threshold }),
+      ).toMatchObject({ exceedsThreshold: false });
+    });
+
+    test('reports the highest exceeded severity', () => {
+      const localEntry = { minifiedSize: 120, gzippedSize: 12 };
+      const remoteEntry = { minifiedSize: 100, gzippedSize: 10 };
+      const metrics = resolveMetrics(['minified', 'gzip']);
+
+      expect(
+        calculateDiff({ localEntry, remoteEntry, metrics, threshold: createThreshold({ warn: '10%', error: '30%' }) }),
+      ).toMatchObject({ exceedsThreshold: false, thresholdSeverity: 'warn', thresholdMetrics: ['minified'] });
+      expect(
+        calculateDiff({ localEntry, remoteEntry, metrics, threshold: createThreshold({ warn: '10%', error: '15%' }) }),
+      ).toMatchObject({ exceedsThreshold: true, thresholdSeverity: 'error', thresholdMetrics: ['minified'] });
+      expect(
+        calculateDiff({ localEntry, remoteEntry, metrics, threshold: createThreshold({ warn: '30%' }) }),
+      ).not.toHaveProperty('thresholdSeverity');
+    });
+
+    test('uses a threshold of a local entry only instead of an "error" threshold', () => {
+      const localEntry = { minifiedSize: 120, gzippedSize: 12, threshold: '30%' };
+      const remoteEntry = { minifiedSize: 100, gzippedSize: 10 };
+
+      expect(
+        calculateDiff({
+          localEntry,
+          remoteEntry,
+          metrics: DEFAULT_METRICS,
+          threshold: createThreshold({ warn: '10%', error: '15%' }),
+        }),
+      ).toMatchObject({ exceedsThreshold: false, thresholdSeverity: 'warn' });
+    });
   });
 });
@@ -0,0 +1,89 @@
+import fs from 'node:fs';
+import { builtinModules } from 'node:module';
+import path from 'node:path';
+
+// Fixtures & files imported by them can omit extensions as bundlers resolve them
+const EXTENSIONS = ['', '.js', '.mjs', '.cjs', '.jsx', '.ts', '.tsx', '.json'];
+
+function isFile(filePath: string): boolean {
+  return fs.existsSync(filePath) && fs.statSync(filePath).isFile();
+}
+
+function resolveFile(filePath: string): boolean {
+  return (
+    EXTENSIONS.some(extension => isFile(filePath + extension)) ||
+    EXTENSIONS.slice(1).some(extension => isFile(path.join(filePath, `index${extension}`)))
+  );
+}
+
+function findPackageRoot(packageName: string, fromDir: string): string | undefined {
+  let directory = fromDir;
+  let parentDirectory = path.dirname(directory);
+
+  // Walks up to the root of a file system, the root has itself as a parent
+  while (directory !== parentDirectory) {
+    const packageRoot = path.join(directory, 'node_modules', packageName);
+
+    if (isFile(path.join(packageRoot, 'package.json'))) {
+      return packageRoot;
+    }
+
+    directory = parentDirectory;
+    parentDirectory = path.dirname(directory);
+  }
+
+  return undefined;
+}
+
+function isSubpathExported(exports: Record<string, unknown>, subpath: string): boolean {
+  return Object.keys(exports).some(key => {
+    const [prefix, suffix] = key.split('*');
+
+    return suffix === undefined
+      ? key === subpath
+      : subpath.startsWith(prefix) && subpath.endsWith(suffix) && subpath.length >= key.length - 1;
+  });
+}
+
+/**
+ * Checks if an import from a fixture can be resolved: relative imports should point to existing files, packages should
+ * be installed & export imported subpaths. It's a lightweight check that doesn't follow bundler configs (aliases,
+ * conditions, etc.).
+ */
+export function canResolveImport(specifier: string, fromPath: string): boolean {
+  if (specifier.startsWith('node:') || builtinModules.includes(specifier)) {
+    return true;
+  }
+
+  if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+    return resolveFile(path.resolve(path.dirname(fromPath), specifier));
+  }
+
+  const segments = specifier.split('/');
+  const packageName = specifier.startsWith('@') ? segments.slice(0, 2).join('/') : segments[0];
+  const packageRoot = findPackageRoot(packageName, path.dirname(fromPath));
+
+  if (!packageRoot) {
+    return false;
+  }
+
+  const subpath = `.${specifier.slice(packageName.length)}`;
+
+  if (subpath === '.') {
+    return true;
+  }
+
+  const { exports } = JSON.parse(fs.readFileSync(path.join(packageRoot, 'package.json'), 'utf8'));
+
+  // "exports" without subpaths (a string or conditions) don't allow to import subpaths
+  if (exports !== undefined && exports !== null) {
+    return (
+      typeof exports === 'object' &&
+      !Array.isArray(exports) &&
+      Object.keys(exports).every(key => key.startsWith('.')) &&
+      isSubpathExported(exports, subpath)
+    );
+  }
+
+  return resolveFile(path.join(packageRoot, subpath));
+}
@@ -0,0 +1,58 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import tmp from 'tmp';
+import { describe, expect, it } from 'vitest';
+
+import { canResolveImport } from './canResolveImport.mjs';
+
+function setup(files: Record<string, string>) {
+  const rootDir = tmp.dirSync({ prefix: 'canResolveImport', unsafeCleanup: true });
+
+  for (const [file, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.resolve(rootDir.name, file)), { recursive: true });
+    fs.writeFileSync(path.resolve(rootDir.name, file), content);
+  }
+
+  return path.resolve(rootDir.name, 'packages/pkg/bundle-size/Foo.fixture.js');
+}
+
+describe('canResolveImport', () => {
+  it('resolves relative imports', () => {
+    const fixturePath = setup({
+      'packages/pkg/bundle-size/Foo.fixture.js': '',
+      'packages/pkg/bundle-size/styles.css': '',
+      'packages/pkg/src/index.ts': '',
+      'packages/pkg/src/utils/index.js': '',
+    });
+
+    expect(canResolveImport('./styles.css', fixturePath)).toBe(true);
+    expect(canResolveImport('../src/index', fixturePath)).toBe(true);
+    expect(canResolveImport('../src/utils', fixturePath)).toBe(true);
+    expect(canResolveImport('../src/missing', fixturePath)).toBe(false);
+  });
+
+  it('resolves packages & their subpaths', () => {
+    const fixturePath = setup({
+      'packages/pkg/bundle-size/Foo.fixture.js': '',
+      'node_modules/with-exports/package.json': JSON.stringify({
+        exports: { '.': './index.js', './utils': './utils.js', './icons/*': './icons/*.js' },
+      }),
+      'node_modules/@scope/without-exports/package.json': JSON.stringify({ main: './index.js' }),
+      'node_modules/@scope/without-exports/lib/utils.js': '',
+    });
+
+    expect(canResolveImport('node:fs', fixturePath)).toBe(true);
+    expect(canResolveImport('path', fixturePath)).toBe(true);
+
+    expect(canResolveImport('with-exports', fixturePath)).toBe(true);
+    expect(canResolveImport('with-exports/utils', fixturePath)).toBe(true);
+    expect(canResolveImport('with-exports/icons/Add', fixturePath)).toBe(true);
+    expect(canResolveImport('with-exports/internal', fixturePath)).toBe(false);
+
+    expect(canResolveImport('@scope/without-exports', fixturePath)).toBe(true);
+    expect(canResolveImport('@scope/without-exports/lib/utils', fixturePath)).toBe(true);
+    expect(canResolveImport('@scope/without-exports/lib/missing', fixturePath)).toBe(false);
+
+    expect(canResolveImport('missing-package', fixturePath)).toBe(false);
+  });
+});
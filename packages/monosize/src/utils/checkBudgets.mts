@@ -0,0 +1,91 @@
+import { minimatch } from 'minimatch';
+
+import type { MetricSizes, MonoSizeConfig, SizeBudgets } from '../types.mjs';
+import { formatBytes, parseThreshold } from './helpers.mjs';
+import type { MetricDefinition } from './metrics.mjs';
+
+export type BudgetViolation = {
+  /** A name of a metric, e.g. "gzip" for `maxGzip`. */
+  metric: string;
+  /** A maximum size in bytes. */
+  budget: number;
+  /** An actual size in bytes. */
+  size: number;
+};
+
+/**
+ * Returns a key of a budget for a metric, e.g. "maxGzip" for the "gzip" metric.
+ */
+export function getBudgetKey(metric: Pick<MetricDefinition, 'name'>): keyof SizeBudgets {
+  return `max${metric.name.charAt(0).toUpperCase()}${metric.name.slice(1)}`;
+}
+
+/**
+ * Returns budgets for a fixture: budgets from metadata of a fixture override budgets for packages matching globs, they
+ * override global budgets. Budgets are merged per metric.
+ */
+export function resolveBudgets(params: {
+  budgets: MonoSizeConfig['budgets'];
+  packageName: string | undefined;
+  fixtureBudgets: SizeBudgets | undefined;
+}): SizeBudgets {
+  const { budgets = {}, fixtureBudgets, packageName } = params;
+  const { packages = {}, ...globalBudgets } = budgets;
+
+  const packageBudgets = Object.entries(packages)
+    .filter(([pattern]) => packageName !== undefined && minimatch(packageName, pattern))
+    .map(([, value]) => value);
+
+  return Object.assign({}, globalBudgets, ...packageBudgets, fixtureBudgets);
+}
+
+/**
+ * Checks sizes of a fixture against budgets, returns violations ordered by metrics. Throws if budgets refer to metrics
+ * that are not measured.
+ */
+export function checkBudgets(params: {
+  sizes: MetricSizes;
+  budgets: SizeBudgets;
+  metrics: MetricDefinition[];
+}): BudgetViolation[] {
+  const { budgets, metrics, sizes } = params;
+
+  const budgetKeys = new Set(metrics.map(getBudgetKey));
+  const unknownKey = Object.keys(budgets).find(key => !budgetKeys.has(key as keyof SizeBudgets));
+
+  if (unknownKey) {
+    throw new Error(
+      `A budget "${unknownKey}" does not match any measured metric, available budgets: ${[...budgetKeys].join(', ')}`,
+    );
+  }
+
+  return metrics.reduce<BudgetViolation[]>((acc, metric) => {
+    const value = budgets[getBudgetKey(metric)];
+    const size = sizes[metric.reportKey];
+
+    if (value === undefined || typeof size !== 'number') {
+      return acc;
+    }
+
+    const budget = parseThreshold(value);
+
+    if (budget.type !== 'size') {
+      throw new Error(`A budget "${getBudgetKey(metric)}" should be a size in kB, got "${value}"`);
+    }
+
+    if (size > budget.size) {
+      acc.push({ metric: metric.name, budget: budget.size, size });
+    }
+
+    return acc;
+  }, []);
+}
+
+/**
+ * Formats a budget violation for reporters, e.g. "GZIP: 60 kB > 50 kB".
+ */
+export function formatBudgetViolation(violation: BudgetViolation, metrics: MetricDefinition[]): string {
+  const title = metrics.find(metric => metric.name === violation.metric)?.title ?? violation.metric;
+
+  return `${title}: ${formatBytes(violation.size)} > ${formatBytes(violation.budget)}`;
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+
+import { checkBudgets, formatBudgetViolation, resolveBudgets } from './checkBudgets.mjs';
+import { resolveMetrics } from './metrics.mjs';
+
+const metrics = resolveMetrics();
+
+describe('resolveBudgets', () => {
+  it('merges budgets per metric', () => {
+    const budgets = {
+      maxMinified: '300 kB',
+      maxGzip: '100 kB',
+      packages: {
+        '@scope/*': { maxGzip: '50 kB', maxBrotli: '40 kB' },
+        '@scope/react-*': { maxBrotli: '30 kB' },
+        'other-*': { maxGzip: '10 kB' },
+      },
+    };
+
+    expect(resolveBudgets({ budgets, packageName: '@scope/react-button', fixtureBudgets: undefined })).toEqual({
+      maxMinified: '300 kB',
+      maxGzip: '50 kB',
+      maxBrotli: '30 kB',
+    });
+    expect(resolveBudgets({ budgets, packageName: '@scope/core', fixtureBudgets: { maxGzip: '5 kB' } })).toEqual({
+      maxMinified: '300 kB',
+      maxGzip: '5 kB',
+      maxBrotli: '40 kB',
+    });
+    expect(resolveBudgets({ budgets, packageName: undefined, fixtureBudgets: undefined })).toEqual({
+      maxMinified: '300 kB',
+      maxGzip: '100 kB',
+    });
+  });
+
+  it('returns empty budgets if there are none', () => {
+    expect(resolveBudgets({ budgets: undefined, packageName: 'pkg', fixtureBudgets: undefined })).toEqual({});
+  });
+});
+
+describe('checkBudgets', () => {
+  const sizes = { minifiedSize: 3000, gzippedSize: 1000, brotliSize: 900 };
+
+  it('returns exceeded budgets', () => {
+    expect(checkBudgets({ sizes, budgets: { maxMinified: '3 kB', maxGzip: '0.5 kB' }, metrics })).toEqual([
+      { metric: 'gzip', budget: 512, size: 1000 },
+    ]);
+    expect(checkBudgets({ sizes, budgets: { maxBrotli: '1 kB' }, metrics })).toEqual([]);
+  });
+
+  it('throws on invalid budgets', () => {
+    expect(() => checkBudgets({ sizes, budgets: { maxZstd: '1 kB' }, metrics })).toThrowErrorMatchingInlineSnapshot(
+      `[Error: A budget "maxZstd" does not match any measured metric, available budgets: maxMinified, maxGzip, maxBrotli]`,
+    );
+    expect(() => checkBudgets({ sizes, budgets: { maxGzip: '5%' }, metrics })).toThrowErrorMatchingInlineSnapshot(
+      `[Error: A budget "maxGzip" should be a size in kB, got "5%"]`,
+    );
+  });
+});
+
+describe('formatBudgetViolation', () => {
+  it('formats a violation with a title of a metric', () => {
+    expect(formatBudgetViolation({ metric: 'gzip', budget: 51200, size: 60000 }, metrics)).toBe(
+      'GZIP: 60 kB > 51.2 kB',
+    );
+  });
+});
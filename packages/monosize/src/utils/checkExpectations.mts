@@ -0,0 +1,37 @@
+import type { MetricSizes } from '../types.mjs';
+import { formatBytes } from './helpers.mjs';
+import type { MetricDefinition } from './metrics.mjs';
+import type { FixtureExpectations } from './prepareFixture.mjs';
+
+/**
+ * Checks expectations declared in metadata of a fixture against its measured sizes, returns messages for violated
+ * expectations. `empty` should be true if a fixture produced an output without content.
+ */
+export function checkExpectations(params: {
+  name: string;
+  expectations: FixtureExpectations;
+  sizes: MetricSizes;
+  empty: boolean;
+  metrics: MetricDefinition[];
+}): string[] {
+  const { empty, expectations, metrics, name, sizes } = params;
+  const errors: string[] = [];
+
+  // Expectations are checked against the first metric
+  const metric = metrics[0];
+  const size = sizes[metric.reportKey] ?? 0;
+
+  if (expectations.expectEmpty && !empty) {
+    errors.push(
+      `Fixture "${name}" is expected to be empty, but its output is ${formatBytes(size)} (${metric.title}). Check that imported modules are free of side effects.`,
+    );
+  }
+
+  if (expectations.expectedMaxSize !== undefined && size > expectations.expectedMaxSize) {
+    errors.push(
+      `Fixture "${name}" is expected to be at most ${formatBytes(expectations.expectedMaxSize)} (${metric.title}), but it is ${formatBytes(size)}.`,
+    );
+  }
+
+  return errors;
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+
+import { checkExpectations } from './checkExpectations.mjs';
+import { resolveMetrics } from './metrics.mjs';
+
+const metrics = resolveMetrics();
+
+describe('checkExpectations', () => {
+  it('returns an empty array if expectations are met', () => {
+    expect(
+      checkExpectations({
+        name: 'Test fixture',
+        expectations: { expectedMaxSize: 2048, expectEmpty: false },
+        sizes: { minifiedSize: 2048, gzippedSize: 500 },
+        empty: false,
+        metrics,
+      }),
+    ).toEqual([]);
+    expect(
+      checkExpectations({
+        name: 'Test fixture',
+        expectations: { expectEmpty: true },
+        sizes: { minifiedSize: 0, gzippedSize: 20 },
+        empty: true,
+        metrics,
+      }),
+    ).toEqual([]);
+  });
+
+  it('returns messages for violated expectations', () => {
+    expect(
+      checkExpectations({
+        name: 'Test fixture',
+        expectations: { expectedMaxSize: 2048, expectEmpty: true },
+        sizes: { minifiedSize: 3000, gzippedSize: 500 },
+        empty: false,
+        metrics,
+      }),
+    ).toMatchInlineSnapshot(`
+      [
+        "Fixture "Test fixture" is expected to be empty, but its output is 3 kB (minified). Check that imported modules are free of side effects.",
+        "Fixture "Test fixture" is expected to be at most 2.048 kB (minified), but it is 3 kB.",
+      ]
+    `);
+  });
+
+  it('checks the first metric', () => {
+    expect(
+      checkExpectations({
+        name: 'Test fixture',
+        expectations: { expectedMaxSize: 1000 },
+        sizes: { minifiedSize: 3000, gzippedSize: 500 },
+        empty: false,
+        metrics: resolveMetrics(['gzip', 'minified']),
+      }),
+    ).toEqual([]);
+  });
+});
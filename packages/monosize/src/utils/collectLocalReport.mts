@@ -4,7 +4,9 @@ import path from 'node:path';
 import { execSync } from 'node:child_process';
 import { findUp } from 'find-up';
 
-import type { BuildResult, BundleSizeReport, MonoSizeConfig } from '../types.mjs';
+import type { BuildResult, BundleSizeReport, ModuleSizes, MonoSizeConfig } from '../types.mjs';
+
+export const DEFAULT_REPORT_FILES_GLOB = 'packages/**/dist/bundle-size/monosize.json';
 
 type CollectLocalReportOptions = {
   root: string | undefined;
@@ -14,7 +16,10 @@ type ReportResolvers = Required<NonNullable<MonoSizeConfig['reportResolvers']>>;
 
 interface Options extends Partial<CollectLocalReportOptions>, Pick<MonoSizeConfig, 'reportResolvers'> {}
 
-async function getPackageRoot(reportFilePath: string): Promise<string> {
+/**
+ * Finds a package root of a report file: the closest directory with "package.json" or "project.json".
+ */
+export async function getPackageRoot(reportFilePath: string): Promise<string> {
   const rootConfig = await findUp(['package.json', 'project.json'], { cwd: path.dirname(reportFilePath) });
 
   if (!rootConfig) {
@@ -30,7 +35,10 @@ async function getPackageRoot(reportFilePath: string): Promise<string> {
   return path.dirname(rootConfig);
 }
 
-async function getPackageName(packageRoot: string): Promise<string> {
+/**
+ * Reads a package name from "package.json" or "project.json" in a package root.
+ */
+export async function getPackageName(packageRoot: string): Promise<string> {
   const paths = {
     packageJson: path.join(packageRoot, 'package.json'),
     projectJson: path.join(packageRoot, 'project.json'),
@@ -65,23 +73,41 @@ async function getPackageName(packageRoot: string): Promise<string> {
   }
 }
 
+export function readJSON<T>(filePath: string): T {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (e) {
+    throw new Error([`Failed to read JSON from "${filePath}":`, (e as Error).toString()].join('\n'));
+  }
+}
+
 async function readReportForPackage(
   reportFile: string,
   resolvers: ReportResolvers,
-): Promise<{ packageName: string; packageReport: BuildResult[] }> {
+): Promise<{ packageName: string; packageReport: Array<BuildResult & { modules?: ModuleSizes }> }> {
   const packageRoot = await resolvers.packageRoot(reportFile);
   const packageName = await resolvers.packageName(packageRoot);
 
-  try {
-    const packageReport: BuildResult[] = JSON.parse(fs.readFileSync(reportFile, 'utf8'));
+  const packageReport = readJSON<BuildResult[]>(reportFile);
+
+  // Sizes of modules are optional, they are written by "measure" only if a bundler adapter provides them
+  const modulesFile = path.join(path.dirname(reportFile), 'monosize.modules.json');
 
+  if (!fs.existsSync(modulesFile)) {
     return { packageName, packageReport };
-  } catch (e) {
-    throw new Error([`Failed to read JSON from "${reportFile}":`, (e as Error).toString()].join('\n'));
   }
+
+  const moduleSizes = readJSON<Record<string, ModuleSizes>>(modulesFile);
+
+  return {
+    packageName,
+    packageReport: packageReport.map(reportEntry =>
+      moduleSizes[reportEntry.path] ? { ...reportEntry, modules: moduleSizes[reportEntry.path] } : reportEntry,
+    ),
+  };
 }
 
-function findGitRoot(cwd: string) {
+export function findGitRoot(cwd: string) {
   const output = execSync('git rev-parse --show-toplevel', { cwd });
 
   return output.toString().trim();
@@ -96,11 +122,7 @@ const DEFAULT_RESOLVERS: ReportResolvers = {
  * Collects all reports for packages to a single one.
  */
 export async function collectLocalReport(options: Options): Promise<BundleSizeReport> {
-  const {
-    reportResolvers,
-    reportFilesGlob = 'packages/**/dist/bundle-size/monosize.json',
-    root = findGitRoot(process.cwd()),
-  } = options;
+  const { reportResolvers, reportFilesGlob = DEFAULT_REPORT_FILES_GLOB, root = findGitRoot(process.cwd()) } = options;
 
   const resolvers = { ...DEFAULT_RESOLVERS, ...reportResolvers };
 
@@ -78,6 +78,25 @@ describe('collectLocalReport', () => {
     `);
   });
 
+  it('adds sizes of modules to report entries', async () => {
+    const { packagesDir, rootDir } = mkPackagesDir();
+
+    const reportPath = mkReportDir(packagesDir, 'package-a', 'package.json');
+    const report: BuildResult[] = [
+      { name: 'fixtureA1', path: 'path/fixtureA1.js', minifiedSize: 100, gzippedSize: 50 },
+      { name: 'fixtureA2', path: 'path/fixtureA2.js', minifiedSize: 200, gzippedSize: 100 },
+    ];
+    const modules = { 'path/fixtureA1.js': { 'src/a.js': 80, 'src/b.js': 20 } };
+
+    await fs.promises.writeFile(reportPath, JSON.stringify(report));
+    await fs.promises.writeFile(path.join(path.dirname(reportPath), 'monosize.modules.json'), JSON.stringify(modules));
+
+    const localReport = await collectLocalReport({ root: rootDir });
+
+    expect(localReport[0].modules).toEqual({ 'src/a.js': 80, 'src/b.js': 20 });
+    expect(localReport[1]).not.toHaveProperty('modules');
+  });
+
   it('throws an error if a report file contains invalid JSON', async () => {
     const { packagesDir, rootDir } = mkPackagesDir();
 
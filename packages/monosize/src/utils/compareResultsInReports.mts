@@ -1,33 +1,151 @@
-import { calculateDiff, EMPTY_DIFF, type DiffForEntry } from './calculateDiff.mjs';
-import type { BundleSizeReport, BundleSizeReportEntry, ThresholdValue } from '../types.mjs';
+import { calculateDiff, EMPTY_DIFF, getNewDuplicatePackages, type DiffForEntry } from './calculateDiff.mjs';
+import { checkBudgets, resolveBudgets } from './checkBudgets.mjs';
+import type { AssetType, BundleSizeReport, BundleSizeReportEntry, MonoSizeConfig } from '../types.mjs';
+import { resolveThresholdMetrics, type MetricDefinition } from './metrics.mjs';
+import type { NoiseFloor } from './noiseFloor.mjs';
+import { findSizeOverride, isWithinSizeOverride, type SizeOverride } from './sizeOverrides.mjs';
+import {
+  getThresholdExpressions,
+  parseThresholdRules,
+  resolvePackageThreshold,
+  type ThresholdRules,
+} from './thresholdRules.mjs';
 
 export type ComparedReportEntry = BundleSizeReportEntry & { diff: DiffForEntry };
 export type ComparedReport = ComparedReportEntry[];
 
+function hasExceededLimits(diff: DiffForEntry): boolean {
+  return (
+    diff.thresholdSeverity !== undefined ||
+    diff.budgetViolations !== undefined ||
+    Object.values(diff.assets ?? {}).some(assetDiff => assetDiff.thresholdSeverity !== undefined)
+  );
+}
+
+// Resets exceeded thresholds & budgets of an entry and exceeded thresholds of its asset types
+function acknowledgeDiff(diff: DiffForEntry, reason: string): DiffForEntry {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { thresholdSeverity, thresholdMetrics, budgetViolations, ...rest } = diff;
+
+  return {
+    ...rest,
+    exceedsThreshold: false,
+    acknowledged: reason,
+    ...(diff.assets && {
+      assets: Object.fromEntries(
+        Object.entries(diff.assets).map(([assetType, assetDiff]) => [
+          assetType,
+          { exceedsThreshold: false, metrics: assetDiff.metrics },
+        ]),
+      ) as DiffForEntry['assets'],
+    }),
+  };
+}
+
 export function compareResultsInReports(
   localReport: BundleSizeReport,
   remoteReport: BundleSizeReport,
-  threshold: ThresholdValue,
+  options: {
+    metrics: MetricDefinition[];
+    threshold: ThresholdRules;
+    assetThresholds?: Partial<Record<AssetType, ThresholdRules>>;
+    budgets?: MonoSizeConfig['budgets'];
+    thresholds?: MonoSizeConfig['thresholds'];
+    thresholdMetric?: string;
+    noiseFloor?: NoiseFloor;
+    /** Active overrides from "monosize.overrides.json", see `DiffForEntry.acknowledged`. */
+    overrides?: SizeOverride[];
+  },
 ): ComparedReport {
-  return localReport.map(localEntry => {
+  const { assetThresholds, budgets, metrics, noiseFloor, overrides, threshold, thresholds, thresholdMetric } = options;
+  const thresholdRulesOptions = {
+    defaultMetrics: resolveThresholdMetrics(metrics, thresholdMetric).map(metric => metric.name),
+    knownMetrics: metrics.map(metric => metric.name),
+  };
+
+  // Overrides acknowledge exceeded thresholds & budgets of entries that are within their limits
+  function applySizeOverride(
+    diff: DiffForEntry,
+    localEntry: BundleSizeReportEntry,
+    remoteEntry: BundleSizeReportEntry | undefined,
+  ): DiffForEntry {
+    const override = overrides && hasExceededLimits(diff) && findSizeOverride(overrides, localEntry);
+
+    return override && isWithinSizeOverride(override, { localEntry, remoteEntry, metrics })
+      ? acknowledgeDiff(diff, override.reason)
+      : diff;
+  }
+
+  const comparedReport = localReport.map<ComparedReportEntry>(localEntry => {
     const remoteEntry = remoteReport.find(
       entry => localEntry.packageName === entry.packageName && localEntry.path === entry.path,
     );
+    const budgetViolations = checkBudgets({
+      sizes: localEntry,
+      budgets: resolveBudgets({ budgets, packageName: localEntry.packageName, fixtureBudgets: localEntry.budgets }),
+      metrics,
+    });
 
     if (remoteEntry) {
+      // Thresholds of packages override a global threshold per severity
+      const packageThreshold = resolvePackageThreshold(thresholds, localEntry.packageName);
+      const diff = calculateDiff({
+        localEntry,
+        remoteEntry,
+        metrics,
+        threshold: packageThreshold
+          ? { ...threshold, ...parseThresholdRules(packageThreshold, thresholdRulesOptions) }
+          : threshold,
+        assetThresholds,
+        thresholdMetric,
+        noiseFloor,
+      });
+      const thresholdOverrides = {
+        ...(packageThreshold && getThresholdExpressions(packageThreshold)),
+        ...(localEntry.threshold && { error: localEntry.threshold }),
+      };
+
+      if (Object.keys(thresholdOverrides).length > 0) {
+        diff.thresholdOverrides = thresholdOverrides;
+      }
+
+      if (budgetViolations.length > 0) {
+        diff.budgetViolations = budgetViolations;
+      }
+
       return {
         ...localEntry,
-        diff: calculateDiff({
-          localEntry,
-          remoteEntry,
-          threshold,
-        }),
+        diff: applySizeOverride(diff, localEntry, remoteEntry),
       };
     }
 
+    // Budgets are the only limits that are checked for new entries, as there is nothing to compare with
+    const newDuplicatePackages = getNewDuplicatePackages(localEntry, undefined);
+
     return {
       ...localEntry,
-      diff: EMPTY_DIFF,
+      diff: applySizeOverride(
+        {
+          ...EMPTY_DIFF,
+          ...(newDuplicatePackages.length > 0 && { newDuplicatePackages }),
+          ...(budgetViolations.length > 0 && { budgetViolations }),
+        },
+        localEntry,
+        undefined,
+      ),
     };
   });
+  const removedEntries = remoteReport
+    .filter(
+      remoteEntry =>
+        !localReport.some(
+          localEntry => localEntry.packageName === remoteEntry.packageName && localEntry.path === remoteEntry.path,
+        ),
+    )
+    .map<ComparedReportEntry>(remoteEntry => ({
+      ...remoteEntry,
+      diff: { ...EMPTY_DIFF, empty: false, removed: true },
+    }));
+
+  return [...comparedReport, ...removedEntries];
 }
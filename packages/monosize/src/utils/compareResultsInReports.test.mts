@@ -1,8 +1,13 @@
 import { describe, expect, it } from 'vitest';
 
 import { compareResultsInReports } from './compareResultsInReports.mjs';
+import { resolveMetrics } from './metrics.mjs';
+import { parseSizeOverrides } from './sizeOverrides.mjs';
+import { parseThresholdRules } from './thresholdRules.mjs';
 import type { BundleSizeReport } from '../types.mjs';
 
+const metrics = resolveMetrics();
+
 describe('compareResultsInReports', () => {
   it('compares local and remote reports', () => {
     const localReport: BundleSizeReport = [
@@ -14,9 +19,9 @@ describe('compareResultsInReports', () => {
       { packageName: 'abc', name: 'abc-a', path: 'abc-b.js', minifiedSize: 12, gzippedSize: 7 },
       { packageName: 'xyz', name: 'xyz', path: 'xyz.js', minifiedSize: 10, gzippedSize: 5 },
     ];
-    const threshold = { size: 5, type: 'size' } as const;
+    const threshold = parseThresholdRules('5 B', { defaultMetrics: ['minified'] });
 
-    const actual = compareResultsInReports(localReport, remoteReport, threshold);
+    const actual = compareResultsInReports(localReport, remoteReport, { metrics, threshold });
     const packageAbcReport = {
       fileAbcA: actual[0],
       fileAbcB: actual[1],
@@ -28,13 +33,15 @@ describe('compareResultsInReports', () => {
         "diff": {
           "empty": false,
           "exceedsThreshold": false,
-          "gzip": {
-            "delta": -2,
-            "percent": "-28.6%",
-          },
-          "minified": {
-            "delta": -2,
-            "percent": "-16.7%",
+          "metrics": {
+            "gzip": {
+              "delta": -2,
+              "percent": "-28.6%",
+            },
+            "minified": {
+              "delta": -2,
+              "percent": "-16.7%",
+            },
           },
         },
         "gzippedSize": 5,
@@ -49,14 +56,7 @@ describe('compareResultsInReports', () => {
         "diff": {
           "empty": true,
           "exceedsThreshold": false,
-          "gzip": {
-            "delta": 1,
-            "percent": "100%",
-          },
-          "minified": {
-            "delta": 1,
-            "percent": "100%",
-          },
+          "metrics": {},
         },
         "gzippedSize": 5,
         "minifiedSize": 10,
@@ -70,13 +70,15 @@ describe('compareResultsInReports', () => {
         "diff": {
           "empty": false,
           "exceedsThreshold": false,
-          "gzip": {
-            "delta": 0,
-            "percent": "0%",
-          },
-          "minified": {
-            "delta": 0,
-            "percent": "0%",
+          "metrics": {
+            "gzip": {
+              "delta": 0,
+              "percent": "0%",
+            },
+            "minified": {
+              "delta": 0,
+              "percent": "0%",
+            },
           },
         },
         "gzippedSize": 5,
@@ -87,4 +89,207 @@ describe('compareResultsInReports', () => {
       }
     `);
   });
+
+  it('compares against remote reports without Brotli sizes', () => {
+    const localReport: BundleSizeReport = [
+      { packageName: 'abc', name: 'abc', path: 'abc.js', minifiedSize: 10, gzippedSize: 5, brotliSize: 4 },
+    ];
+    const remoteReport: BundleSizeReport = [
+      { packageName: 'abc', name: 'abc', path: 'abc.js', minifiedSize: 12, gzippedSize: 5 },
+    ];
+    const threshold = parseThresholdRules('5 B', { defaultMetrics: ['minified'] });
+
+    const actual = compareResultsInReports(localReport, remoteReport, { metrics, threshold });
+
+    expect(actual[0].diff).toEqual({
+      empty: false,
+      exceedsThreshold: false,
+      metrics: {
+        minified: { delta: -2, percent: '-16.7%' },
+        gzip: { delta: 0, percent: '0%' },
+      },
+    });
+  });
+
+  it('lists duplicate packages of new entries as new', () => {
+    const localReport: BundleSizeReport = [
+      {
+        packageName: 'abc',
+        name: 'abc',
+        path: 'abc.js',
+        minifiedSize: 10,
+        gzippedSize: 5,
+        duplicatePackages: [
+          { name: 'react', copies: [{ path: 'node_modules/react' }, { path: 'node_modules/a/node_modules/react' }] },
+        ],
+      },
+    ];
+    const threshold = parseThresholdRules('5 B', { defaultMetrics: ['minified'] });
+
+    const actual = compareResultsInReports(localReport, [], { metrics, threshold });
+
+    expect(actual[0].diff).toEqual({
+      empty: true,
+      exceedsThreshold: false,
+      metrics: {},
+      newDuplicatePackages: ['react'],
+    });
+  });
+
+  it('checks budgets of all entries', () => {
+    const localReport: BundleSizeReport = [
+      { packageName: 'abc', name: 'abc', path: 'abc.js', minifiedSize: 3000, gzippedSize: 1000 },
+      {
+        packageName: 'xyz',
+        name: 'xyz',
+        path: 'xyz.js',
+        minifiedSize: 3000,
+        gzippedSize: 1000,
+        budgets: { maxGzip: '1 kB' },
+      },
+    ];
+    const remoteReport: BundleSizeReport = [
+      { packageName: 'abc', name: 'abc', path: 'abc.js', minifiedSize: 3000, gzippedSize: 1000 },
+    ];
+    const threshold = parseThresholdRules('5 B', { defaultMetrics: ['minified'] });
+    const budgets = { maxGzip: '0.5 kB' };
+
+    const actual = compareResultsInReports(localReport, remoteReport, { metrics, threshold, budgets });
+
+    expect(actual[0].diff.budgetViolations).toEqual([{ metric: 'gzip', budget: 512, size: 1000 }]);
+    expect(actual[1].diff).toEqual({ empty: true, exceedsThreshold: false, metrics: {} });
+  });
+
+  it('uses thresholds of packages', () => {
+    const localReport: BundleSizeReport = [
+      { packageName: '@scope/react-a', name: 'a', path: 'a.js', minifiedSize: 1030, gzippedSize: 500 },
+      { packageName: '@scope/react-b', name: 'b', path: 'b.js', minifiedSize: 1030, gzippedSize: 500 },
+      { packageName: '@scope/react-b', name: 'c', path: 'c.js', minifiedSize: 1030, gzippedSize: 500, threshold: '1%' },
+      { packageName: 'xyz', name: 'xyz', path: 'xyz.js', minifiedSize: 1030, gzippedSize: 500 },
+    ];
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const remoteReport: BundleSizeReport = localReport.map(({ threshold, ...entry }) => ({
+      ...entry,
+      minifiedSize: 1000,
+    }));
+    const threshold = parseThresholdRules({ warn: '1%', error: '10%' }, { defaultMetrics: ['minified'] });
+    const thresholds = { '@scope/*': '2%', '@scope/react-b': { error: '5%' } };
+
+    const actual = compareResultsInReports(localReport, remoteReport, { metrics, threshold, thresholds });
+
+    expect(actual.map(({ diff }) => [diff.exceedsThreshold, diff.thresholdSeverity, diff.thresholdOverrides]))
+      .toMatchInlineSnapshot(`
+        [
+          [
+            true,
+            "error",
+            {
+              "error": "2%",
+            },
+          ],
+          [
+            false,
+            "warn",
+            {
+              "error": "5%",
+            },
+          ],
+          [
+            true,
+            "error",
+            {
+              "error": "1%",
+            },
+          ],
+          [
+            false,
+            "warn",
+            undefined,
+          ],
+        ]
+      `);
+  });
+
+  it('acknowledges exceeded thresholds of entries within limits of size overrides', () => {
+    const localReport: BundleSizeReport = [
+      { packageName: 'abc', name: 'a', path: 'a.js', minifiedSize: 1200, gzippedSize: 500 },
+      { packageName: 'abc', name: 'b', path: 'b.js', minifiedSize: 1500, gzippedSize: 500 },
+      { packageName: 'xyz', name: 'c', path: 'c.js', minifiedSize: 1200, gzippedSize: 500 },
+    ];
+    const remoteReport: BundleSizeReport = localReport.map(entry => ({ ...entry, minifiedSize: 1000 }));
+    const threshold = parseThresholdRules('10%', { defaultMetrics: ['minified'] });
+    const overrides = parseSizeOverrides(
+      { overrides: [{ packageName: 'abc', maxDelta: { minified: '25%' }, reason: 'A new feature' }] },
+      ['minified', 'gzip'],
+    );
+
+    const actual = compareResultsInReports(localReport, remoteReport, { metrics, threshold, overrides });
+
+    expect(actual.map(({ diff }) => [diff.exceedsThreshold, diff.thresholdSeverity, diff.acknowledged])).toEqual([
+      [false, undefined, 'A new feature'],
+      [true, 'error', undefined],
+      [true, 'error', undefined],
+    ]);
+  });
+
+  it('acknowledges exceeded budgets of entries within limits of size overrides', () => {
+    const localReport: BundleSizeReport = [
+      { packageName: 'abc', name: 'a', path: 'a.js', minifiedSize: 1200, gzippedSize: 600 },
+      { packageName: 'abc', name: 'b', path: 'b.js', minifiedSize: 1200, gzippedSize: 800 },
+      { packageName: 'abc', name: 'new', path: 'new.js', minifiedSize: 1200, gzippedSize: 600 },
+      { packageName: 'xyz', name: 'c', path: 'c.js', minifiedSize: 1200, gzippedSize: 600 },
+    ];
+    const remoteReport: BundleSizeReport = localReport
+      .filter(entry => entry.name !== 'new')
+      .map(entry => ({ ...entry, gzippedSize: 500 }));
+    const threshold = parseThresholdRules('50%', { defaultMetrics: ['minified'] });
+    const budgets = { maxGzip: '0.5 kB' };
+    const overrides = parseSizeOverrides(
+      { overrides: [{ packageName: 'abc', maxSize: { gzip: '0.6 kB' }, reason: 'A new feature' }] },
+      ['minified', 'gzip'],
+    );
+
+    const actual = compareResultsInReports(localReport, remoteReport, { metrics, threshold, budgets, overrides });
+
+    expect(actual.map(({ diff }) => [diff.budgetViolations, diff.acknowledged])).toEqual([
+      [undefined, 'A new feature'],
+      [[{ metric: 'gzip', budget: 512, size: 800 }], undefined],
+      [undefined, 'A new feature'],
+      [[{ metric: 'gzip', budget: 512, size: 600 }], undefined],
+    ]);
+  });
+
+  it('adds entries that are present only in a remote report as removed', () => {
+    const localReport: BundleSizeReport = [
+      { packageName: 'abc', name: 'abc', path: 'abc.js', minifiedSize: 10, gzippedSize: 5 },
+    ];
+    const remoteReport: BundleSizeReport = [
+      { packageName: 'abc', name: 'abc', path: 'abc.js', minifiedSize: 10, gzippedSize: 5 },
+      { packageName: 'abc', name: 'abc-removed', path: 'abc-removed.js', minifiedSize: 20, gzippedSize: 8 },
+      { packageName: 'xyz', name: 'xyz', path: 'xyz.js', minifiedSize: 30, gzippedSize: 9 },
+    ];
+    const threshold = parseThresholdRules('5 B', { defaultMetrics: ['minified'] });
+
+    const actual = compareResultsInReports(localReport, remoteReport, { metrics, threshold });
+
+    expect(actual).toHaveLength(3);
+    expect(actual.slice(1)).toEqual([
+      {
+        packageName: 'abc',
+        name: 'abc-removed',
+        path: 'abc-removed.js',
+        minifiedSize: 20,
+        gzippedSize: 8,
+        diff: { empty: false, removed: true, exceedsThreshold: false, metrics: {} },
+      },
+      {
+        packageName: 'xyz',
+        name: 'xyz',
+        path: 'xyz.js',
+        minifiedSize: 30,
+        gzippedSize: 9,
+        diff: { empty: false, removed: true, exceedsThreshold: false, metrics: {} },
+      },
+    ]);
+  });
 });
@@ -0,0 +1,105 @@
+import type { PackageEntryPoint } from './getPackageEntryPoints.mjs';
+
+/**
+ * Controls how exports are split to fixtures: a fixture per export, per subpath of "exports" or a single fixture per
+ * package.
+ */
+export type FixturesMode = 'export' | 'subpath' | 'package';
+
+export type EntryPointWithExports = PackageEntryPoint & { exports: string[] };
+
+export type GeneratedFixture = {
+  fileName: string;
+  content: string;
+};
+
+/**
+ * A header of generated fixtures, is used to distinguish them from fixtures written by hand.
+ */
+export const GENERATED_FIXTURE_HEADER =
+  '// This file is generated by "monosize generate-fixtures", do not edit it manually.';
+
+function toFileName(value: string): string {
+  return value.replace(/^@/, '').replace(/[^\w.-]+/g, '-');
+}
+
+function getSubpathFileName(entryPoint: PackageEntryPoint): string {
+  return entryPoint.subpath === '.' ? 'index' : toFileName(entryPoint.subpath.slice(2));
+}
+
+function toIdentifier(value: string): string {
+  return value.replace(/^@/, '').replace(/\W+/g, '_').replace(/^(\d)/, '_$1');
+}
+
+// Exports can have arbitrary string names (i.e. `export { x as "a-b" }`)
+function isIdentifier(exportName: string): boolean {
+  return /^[A-Za-z_$][\w$]*$/.test(exportName);
+}
+
+function formatExportName(exportName: string): string {
+  return isIdentifier(exportName) ? exportName : JSON.stringify(exportName);
+}
+
+function createFixture(fileName: string, name: string, statements: string[]): GeneratedFixture {
+  return {
+    fileName: `${fileName}.fixture.js`,
+    content: [
+      GENERATED_FIXTURE_HEADER,
+      '',
+      ...statements,
+      '',
+      'export default {',
+      `  name: ${JSON.stringify(name)},`,
+      '};',
+      '',
+    ].join('\n'),
+  };
+}
+
+/**
+ * Creates sources of fixtures for exports of entry points of a package. Entry points without exports are skipped.
+ */
+export function createFixtures(
+  packageName: string,
+  entryPoints: EntryPointWithExports[],
+  mode: FixturesMode,
+): GeneratedFixture[] {
+  const entryPointsWithExports = entryPoints.filter(entryPoint => entryPoint.exports.length > 0);
+
+  if (mode === 'export') {
+    return entryPointsWithExports.flatMap(entryPoint =>
+      entryPoint.exports.map(exportName => {
+        const exportFileName = isIdentifier(exportName) ? exportName : toFileName(exportName);
+
+        return createFixture(
+          entryPoint.subpath === '.' ? exportFileName : `${getSubpathFileName(entryPoint)}.${exportFileName}`,
+          entryPoint.subpath === '.' ? exportName : `${exportName} (${entryPoint.specifier})`,
+          [`export { ${formatExportName(exportName)} } from '${entryPoint.specifier}';`],
+        );
+      }),
+    );
+  }
+
+  if (mode === 'subpath') {
+    return entryPointsWithExports.map(entryPoint =>
+      createFixture(getSubpathFileName(entryPoint), entryPoint.specifier, [
+        `export { ${entryPoint.exports.map(formatExportName).join(', ')} } from '${entryPoint.specifier}';`,
+      ]),
+    );
+  }
+
+  if (entryPointsWithExports.length === 0) {
+    return [];
+  }
+
+  // Namespaces are used as different entry points can have exports with the same names
+  return [
+    createFixture(
+      toFileName(packageName),
+      packageName,
+      entryPointsWithExports.map(
+        entryPoint => `export * as ${toIdentifier(entryPoint.specifier)} from '${entryPoint.specifier}';`,
+      ),
+    ),
+  ];
+}
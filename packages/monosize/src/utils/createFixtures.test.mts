@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+
+import { createFixtures, type EntryPointWithExports } from './createFixtures.mjs';
+
+const entryPoints: EntryPointWithExports[] = [
+  { subpath: '.', specifier: '@scope/pkg', filePath: '/pkg/lib/index.js', exports: ['Button', 'Input'] },
+  { subpath: './utils', specifier: '@scope/pkg/utils', filePath: '/pkg/lib/utils.js', exports: ['useId'] },
+  { subpath: './empty', specifier: '@scope/pkg/empty', filePath: '/pkg/lib/empty.js', exports: [] },
+];
+
+describe('createFixtures', () => {
+  it('creates a fixture per export in "export" mode', () => {
+    expect(createFixtures('@scope/pkg', entryPoints, 'export')).toMatchInlineSnapshot(`
+      [
+        {
+          "content": "// This file is generated by "monosize generate-fixtures", do not edit it manually.
+
+      export { Button } from '@scope/pkg';
+
+      export default {
+        name: "Button",
+      };
+      ",
+          "fileName": "Button.fixture.js",
+        },
+        {
+          "content": "// This file is generated by "monosize generate-fixtures", do not edit it manually.
+
+      export { Input } from '@scope/pkg';
+
+      export default {
+        name: "Input",
+      };
+      ",
+          "fileName": "Input.fixture.js",
+        },
+        {
+          "content": "// This file is generated by "monosize generate-fixtures", do not edit it manually.
+
+      export { useId } from '@scope/pkg/utils';
+
+      export default {
+        name: "useId (@scope/pkg/utils)",
+      };
+      ",
+          "fileName": "utils.useId.fixture.js",
+        },
+      ]
+    `);
+  });
+
+  it('creates a fixture per subpath in "subpath" mode', () => {
+    expect(createFixtures('@scope/pkg', entryPoints, 'subpath')).toMatchInlineSnapshot(`
+      [
+        {
+          "content": "// This file is generated by "monosize generate-fixtures", do not edit it manually.
+
+      export { Button, Input } from '@scope/pkg';
+
+      export default {
+        name: "@scope/pkg",
+      };
+      ",
+          "fileName": "index.fixture.js",
+        },
+        {
+          "content": "// This file is generated by "monosize generate-fixtures", do not edit it manually.
+
+      export { useId } from '@scope/pkg/utils';
+
+      export default {
+        name: "@scope/pkg/utils",
+      };
+      ",
+          "fileName": "utils.fixture.js",
+        },
+      ]
+    `);
+  });
+
+  it('creates a single fixture in "package" mode', () => {
+    expect(createFixtures('@scope/pkg', entryPoints, 'package')).toMatchInlineSnapshot(`
+      [
+        {
+          "content": "// This file is generated by "monosize generate-fixtures", do not edit it manually.
+
+      export * as scope_pkg from '@scope/pkg';
+      export * as scope_pkg_utils from '@scope/pkg/utils';
+
+      export default {
+        name: "@scope/pkg",
+      };
+      ",
+          "fileName": "scope-pkg.fixture.js",
+        },
+      ]
+    `);
+  });
+
+  it('returns no fixtures if entry points have no exports', () => {
+    expect(createFixtures('pkg', [entryPoints[2]], 'package')).toEqual([]);
+  });
+
+  it('quotes string names of exports', () => {
+    const entryPoint = { subpath: '.', specifier: 'pkg', filePath: '/pkg/lib/index.js', exports: ['a-b', 'c'] };
+
+    expect(createFixtures('pkg', [entryPoint], 'subpath')[0].content).toContain(`export { "a-b", c } from 'pkg';`);
+    expect(createFixtures('pkg', [entryPoint], 'export')[0]).toEqual({
+      fileName: 'a-b.fixture.js',
+      content: expect.stringContaining(`export { "a-b" } from 'pkg';`),
+    });
+  });
+});
@@ -0,0 +1,242 @@
+import type { MetricSizes, ModuleSizes } from '../types.mjs';
+import { getPackageOfModule } from './helpers.mjs';
+import type { MetricDefinition } from './metrics.mjs';
+
+export type TreemapGroup = {
+  /** A name of a package (for modules from "node_modules") or a directory of a module. */
+  name: string;
+  modules: Array<{ path: string; size: number }>;
+};
+
+function getGroupName(modulePath: string): string {
+  const modulePackage = getPackageOfModule(modulePath);
+
+  if (modulePackage) {
+    return modulePackage.name;
+  }
+
+  const separatorIndex = modulePath.lastIndexOf('/');
+
+  return separatorIndex === -1 ? '.' : modulePath.slice(0, separatorIndex);
+}
+
+/**
+ * Groups modules by packages, modules that are not from "node_modules" are grouped by directories. Groups & modules
+ * are sorted by sizes in descending order.
+ */
+export function groupModules(modules: ModuleSizes): TreemapGroup[] {
+  const groups = new Map<string, TreemapGroup>();
+
+  for (const [modulePath, size] of Object.entries(modules)) {
+    const groupName = getGroupName(modulePath);
+    const group = groups.get(groupName) ?? { name: groupName, modules: [] };
+
+    group.modules.push({ path: modulePath, size });
+    groups.set(groupName, group);
+  }
+
+  const getGroupSize = (group: TreemapGroup) => group.modules.reduce((acc, module) => acc + module.size, 0);
+
+  return [...groups.values()]
+    .map(group => ({ ...group, modules: group.modules.sort((a, b) => b.size - a.size) }))
+    .sort((a, b) => getGroupSize(b) - getGroupSize(a));
+}
+
+// Data is embedded into a script tag, "<" is escaped to avoid closing the tag by module paths
+function serializeData(data: unknown): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c');
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 13px/1.4 system-ui, sans-serif; color: #222; display: flex; flex-direction: column; height: 100vh; }
+  header { padding: 8px 12px; display: flex; gap: 12px; align-items: center; border-bottom: 1px solid #ddd; }
+  header h1 { font-size: 16px; margin: 0; flex: 1; }
+  header button { font: inherit; padding: 2px 8px; border: 1px solid #999; background: #fff; border-radius: 3px; cursor: pointer; }
+  header button[aria-pressed='true'] { background: #222; color: #fff; }
+  #treemap { position: relative; flex: 1; overflow: hidden; }
+  .group, .module { position: absolute; overflow: hidden; border: 1px solid rgba(0, 0, 0, 0.35); }
+  .group > .label { font-weight: 600; padding: 1px 4px; white-space: nowrap; }
+  .module { font-size: 11px; padding: 1px 3px; white-space: nowrap; }
+`;
+
+// A squarified treemap layout, see "Squarified Treemaps" by M. Bruls, K. Huizing & J. van Wijk
+const SCRIPT = `
+  const data = JSON.parse(document.getElementById('data').textContent);
+  const container = document.getElementById('treemap');
+  const GROUP_LABEL_HEIGHT = 18;
+
+  let metric = data.metrics[0];
+
+  function formatBytes(value) {
+    if (value < 1000) return Math.round(value) + ' B';
+    return (value / 1000).toFixed(value < 10000 ? 2 : 1) + ' kB';
+  }
+
+  function worst(row, side) {
+    const sum = row.reduce((acc, cell) => acc + cell.area, 0);
+    const max = Math.max(...row.map(cell => cell.area));
+    const min = Math.min(...row.map(cell => cell.area));
+
+    return Math.max((side * side * max) / (sum * sum), (sum * sum) / (side * side * min));
+  }
+
+  function squarify(items, x, y, width, height) {
+    const total = items.reduce((acc, item) => acc + item.value, 0);
+    const result = [];
+
+    if (total === 0 || width <= 0 || height <= 0) return result;
+
+    let rest = items.filter(item => item.value > 0).map(item => ({ item, area: (item.value * width * height) / total }));
+
+    while (rest.length > 0) {
+      const side = Math.min(width, height);
+      let row = [];
+      let best = Infinity;
+
+      for (const cell of rest) {
+        const ratio = worst([...row, cell], side);
+        if (row.length > 0 && ratio > best) break;
+        row = [...row, cell];
+        best = ratio;
+      }
+
+      rest = rest.slice(row.length);
+
+      const thickness = row.reduce((acc, cell) => acc + cell.area, 0) / side;
+      let offset = 0;
+
+      for (const cell of row) {
+        const length = cell.area / thickness;
+
+        result.push(
+          width >= height
+            ? { item: cell.item, x, y: y + offset, width: thickness, height: length }
+            : { item: cell.item, x: x + offset, y, width: length, height: thickness },
+        );
+        offset += length;
+      }
+
+      if (width >= height) {
+        x += thickness;
+        width -= thickness;
+      } else {
+        y += thickness;
+        height -= thickness;
+      }
+    }
+
+    return result;
+  }
+
+  function createBox(className, rect, text, title, color) {
+    const element = document.createElement('div');
+
+    element.className = className;
+    element.style.left = rect.x + 'px';
+    element.style.top = rect.y + 'px';
+    element.style.width = rect.width + 'px';
+    element.style.height = rect.height + 'px';
+    element.style.background = color;
+    element.title = title;
+
+    const label = document.createElement('div');
+    label.className = 'label';
+    label.textContent = text;
+    element.appendChild(label);
+
+    return element;
+  }
+
+  function render() {
+    container.textContent = '';
+
+    // Sizes of modules are scaled to a measured size of a fixture by the selected metric
+    const scale = data.modulesSize === 0 ? 0 : metric.size / data.modulesSize;
+    const groups = data.groups.map((group, index) => ({
+      ...group,
+      index,
+      value: group.modules.reduce((acc, module) => acc + module.size * scale, 0),
+    }));
+
+    squarify(groups, 0, 0, container.clientWidth, container.clientHeight).forEach(groupRect => {
+      const group = groupRect.item;
+      const hue = (group.index * 47) % 360;
+      const title = group.name + ': ' + formatBytes(group.value);
+      const groupElement = createBox('group', groupRect, title, title, 'hsl(' + hue + ', 60%, 75%)');
+
+      container.appendChild(groupElement);
+
+      const modules = group.modules.map(module => ({ ...module, value: module.size * scale }));
+      const labelHeight = groupRect.height > GROUP_LABEL_HEIGHT * 2 ? GROUP_LABEL_HEIGHT : 0;
+
+      squarify(modules, 0, labelHeight, groupRect.width - 2, groupRect.height - labelHeight - 2).forEach(moduleRect => {
+        const module = moduleRect.item;
+        const title = module.path + ': ' + formatBytes(module.value);
+
+        groupElement.appendChild(
+          createBox('module', moduleRect, module.path.split('/').pop(), title, 'hsl(' + hue + ', 60%, 88%)'),
+        );
+      });
+    });
+  }
+
+  document.querySelectorAll('button[data-metric]').forEach(button => {
+    button.addEventListener('click', () => {
+      metric = data.metrics.find(({ name }) => name === button.dataset.metric);
+
+      document.querySelectorAll('button[data-metric]').forEach(otherButton => {
+        otherButton.setAttribute('aria-pressed', String(otherButton === button));
+      });
+      render();
+    });
+  });
+
+  window.addEventListener('resize', render);
+  render();
+`;
+
+/**
+ * Creates a self-contained HTML page with a treemap of modules of a fixture. Bundlers report sizes of modules that are
+ * not equal to sizes in any metric (e.g. sizes of sources), so they are scaled proportionally to measured sizes of a
+ * fixture. It means that compressed sizes of modules are estimates.
+ */
+export function createTreemap(params: {
+  name: string;
+  modules: ModuleSizes;
+  sizes: MetricSizes;
+  metrics: MetricDefinition[];
+}): string {
+  const { name, modules, sizes, metrics } = params;
+
+  const data = {
+    metrics: metrics.map(metric => ({ name: metric.name, size: sizes[metric.reportKey] ?? 0 })),
+    modulesSize: Object.values(modules).reduce((acc, size) => acc + size, 0),
+    groups: groupModules(modules),
+  };
+  const buttons = metrics.map(
+    (metric, index) =>
+      `<button type="button" data-metric="${escapeHtml(metric.name)}" aria-pressed="${index === 0}">${escapeHtml(metric.title)}</button>`,
+  );
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8" />',
+    `<title>${escapeHtml(name)} · monosize</title>`,
+    `<style>${STYLES}</style>`,
+    '</head>',
+    '<body>',
+    `<header><h1>${escapeHtml(name)}</h1>${buttons.join('')}</header>`,
+    '<div id="treemap"></div>',
+    `<script id="data" type="application/json">${serializeData(data)}</script>`,
+    `<script>${SCRIPT}</script>`,
+    '</body>',
+    '</html>',
+  ].join('\n');
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+
+import { createTreemap, groupModules } from './createTreemap.mjs';
+import { resolveMetrics } from './metrics.mjs';
+
+describe('groupModules', () => {
+  it('groups modules by packages & directories', () => {
+    expect(
+      groupModules({
+        'src/index.js': 100,
+        'src/utils.js': 300,
+        '../../node_modules/react/cjs/react.production.js': 1000,
+        '../../node_modules/@scope/pkg/lib/index.js': 200,
+        '../../node_modules/@scope/pkg/node_modules/dep/index.js': 50,
+        'webpack/runtime/global': 20,
+        'fixture.js': 10,
+      }),
+    ).toEqual([
+      { name: 'react', modules: [{ path: '../../node_modules/react/cjs/react.production.js', size: 1000 }] },
+      {
+        name: 'src',
+        modules: [
+          { path: 'src/utils.js', size: 300 },
+          { path: 'src/index.js', size: 100 },
+        ],
+      },
+      { name: '@scope/pkg', modules: [{ path: '../../node_modules/@scope/pkg/lib/index.js', size: 200 }] },
+      { name: 'dep', modules: [{ path: '../../node_modules/@scope/pkg/node_modules/dep/index.js', size: 50 }] },
+      { name: 'webpack/runtime', modules: [{ path: 'webpack/runtime/global', size: 20 }] },
+      { name: '.', modules: [{ path: 'fixture.js', size: 10 }] },
+    ]);
+  });
+});
+
+describe('createTreemap', () => {
+  const params = {
+    name: 'Button',
+    modules: { 'src/button.js': 300, 'src/<script>.js': 100 },
+    sizes: { minifiedSize: 200, gzippedSize: 80, brotliSize: 60 },
+    metrics: resolveMetrics(),
+  };
+
+  it('creates a self-contained HTML page', () => {
+    const html = createTreemap(params);
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).not.toMatch(/(src|href)=/);
+    expect(html).not.toMatch(/https?:\/\//);
+
+    const scripts = [...html.matchAll(/<script>([\s\S]*?)<\/script>/g)].map(match => match[1]);
+
+    expect(scripts).toHaveLength(1);
+    expect(() => new Function(scripts[0])).not.toThrow();
+  });
+
+  it('embeds sizes of modules & fixture', () => {
+    const html = createTreemap(params);
+    const data = /<script id="data" type="application\/json">(.*?)<\/script>/.exec(html)?.[1];
+
+    if (!data) {
+      throw new Error('Data of a treemap is not embedded');
+    }
+
+    expect(JSON.parse(data)).toEqual({
+      metrics: [
+        { name: 'minified', size: 200 },
+        { name: 'gzip', size: 80 },
+        { name: 'brotli', size: 60 },
+      ],
+      modulesSize: 400,
+      groups: [
+        {
+          name: 'src',
+          modules: [
+            { path: 'src/button.js', size: 300 },
+            { path: 'src/<script>.js', size: 100 },
+          ],
+        },
+      ],
+    });
+  });
+});
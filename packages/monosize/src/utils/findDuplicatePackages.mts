@@ -0,0 +1,52 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import type { DuplicatePackage, ModuleSizes } from '../types.mjs';
+import { getPackageOfModule } from './helpers.mjs';
+
+async function readPackageVersion(packageRoot: string): Promise<string | undefined> {
+  try {
+    const packageJson = JSON.parse(await fs.promises.readFile(path.resolve(packageRoot, 'package.json'), 'utf8'));
+
+    return typeof packageJson.version === 'string' ? packageJson.version : undefined;
+  } catch {
+    // Packages might be unavailable, for example, with Yarn PnP
+    return undefined;
+  }
+}
+
+/**
+ * Finds packages that have more than one copy among modules of a fixture. Paths of modules should be relative to `cwd`,
+ * versions of packages are read from their "package.json" files.
+ */
+export async function findDuplicatePackages(modules: ModuleSizes, cwd: string): Promise<DuplicatePackage[]> {
+  const packageRoots = new Map<string, Set<string>>();
+
+  for (const modulePath of Object.keys(modules)) {
+    const modulePackage = getPackageOfModule(modulePath);
+
+    if (modulePackage) {
+      const roots = packageRoots.get(modulePackage.name) ?? new Set();
+
+      roots.add(modulePackage.root);
+      packageRoots.set(modulePackage.name, roots);
+    }
+  }
+
+  const duplicatePackages = [...packageRoots.entries()].filter(([, roots]) => roots.size > 1);
+
+  return Promise.all(
+    duplicatePackages
+      .sort(([a], [b]) => a.localeCompare(b, 'en'))
+      .map(async ([name, roots]) => ({
+        name,
+        copies: await Promise.all(
+          [...roots].sort().map(async root => {
+            const version = await readPackageVersion(path.resolve(cwd, root));
+
+            return version ? { path: root, version } : { path: root };
+          }),
+        ),
+      })),
+  );
+}
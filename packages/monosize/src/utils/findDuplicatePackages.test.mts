@@ -0,0 +1,94 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import tmp from 'tmp';
+import { beforeEach, describe, expect, it, vitest } from 'vitest';
+
+import { findDuplicatePackages } from './findDuplicatePackages.mjs';
+
+function writePackage(rootDir: string, packagePath: string, version: string) {
+  fs.mkdirSync(path.resolve(rootDir, packagePath), { recursive: true });
+  fs.writeFileSync(path.resolve(rootDir, packagePath, 'package.json'), JSON.stringify({ version }));
+}
+
+describe('findDuplicatePackages', () => {
+  let packageDir: string;
+
+  beforeEach(() => {
+    packageDir = tmp.dirSync({ unsafeCleanup: true }).name;
+
+    writePackage(packageDir, 'node_modules/@floating-ui/dom', '1.6.0');
+    writePackage(packageDir, 'node_modules/pkg/node_modules/@floating-ui/dom', '1.5.0');
+  });
+
+  it('finds packages with multiple copies', async () => {
+    expect(
+      await findDuplicatePackages(
+        {
+          'src/index.js': 100,
+          'node_modules/@floating-ui/dom/dist/index.js': 100,
+          'node_modules/@floating-ui/dom/dist/utils.js': 100,
+          'node_modules/pkg/index.js': 100,
+          'node_modules/pkg/node_modules/@floating-ui/dom/dist/index.js': 100,
+        },
+        packageDir,
+      ),
+    ).toEqual([
+      {
+        name: '@floating-ui/dom',
+        copies: [
+          { path: 'node_modules/@floating-ui/dom', version: '1.6.0' },
+          { path: 'node_modules/pkg/node_modules/@floating-ui/dom', version: '1.5.0' },
+        ],
+      },
+    ]);
+  });
+
+  it('handles copies without "package.json" files', async () => {
+    expect(
+      await findDuplicatePackages(
+        {
+          'node_modules/react/index.js': 100,
+          'node_modules/pkg/node_modules/react/index.js': 100,
+        },
+        packageDir,
+      ),
+    ).toEqual([
+      {
+        name: 'react',
+        copies: [{ path: 'node_modules/pkg/node_modules/react' }, { path: 'node_modules/react' }],
+      },
+    ]);
+  });
+
+  it('reads versions of packages relative to a passed directory', async () => {
+    const otherDir = tmp.dirSync({ unsafeCleanup: true }).name;
+
+    writePackage(otherDir, 'node_modules/@floating-ui/dom', '0.1.0');
+    writePackage(otherDir, 'node_modules/pkg/node_modules/@floating-ui/dom', '0.2.0');
+    vitest.spyOn(process, 'cwd').mockReturnValue(otherDir);
+
+    expect(
+      await findDuplicatePackages(
+        {
+          'node_modules/@floating-ui/dom/dist/index.js': 100,
+          'node_modules/pkg/node_modules/@floating-ui/dom/dist/index.js': 100,
+        },
+        packageDir,
+      ),
+    ).toEqual([
+      {
+        name: '@floating-ui/dom',
+        copies: [
+          { path: 'node_modules/@floating-ui/dom', version: '1.6.0' },
+          { path: 'node_modules/pkg/node_modules/@floating-ui/dom', version: '1.5.0' },
+        ],
+      },
+    ]);
+
+    vitest.mocked(process.cwd).mockRestore();
+  });
+
+  it('returns an empty array if there are no duplicates', async () => {
+    expect(await findDuplicatePackages({ 'node_modules/react/index.js': 100 }, packageDir)).toEqual([]);
+  });
+});
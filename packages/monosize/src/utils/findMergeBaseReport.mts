@@ -0,0 +1,82 @@
+import { execFileSync } from 'node:child_process';
+
+import type { BundleSizeReport, StorageAdapter } from '../types.mjs';
+
+/**
+ * A number of first-parent ancestors of a merge base that are checked for a report, including the merge base.
+ */
+export const MAX_MERGE_BASE_DISTANCE = 50;
+
+export type MergeBaseReport = {
+  /** A commit of a found report. */
+  commitSHA: string;
+  /** A merge base of HEAD & a compared branch. */
+  mergeBase: string;
+  /** A number of first-parent commits between a merge base & a commit of a found report, 0 if they are the same. */
+  distance: number;
+  remoteReport: BundleSizeReport;
+};
+
+function git(args: string[], cwd: string): string {
+  return execFileSync('git', args, { cwd, stdio: ['ignore', 'pipe', 'pipe'] })
+    .toString()
+    .trim();
+}
+
+export function getMergeBase(branch: string, cwd: string): string {
+  try {
+    return git(['merge-base', 'HEAD', `origin/${branch}`], cwd);
+  } catch (e) {
+    throw new Error(
+      [
+        `Failed to find a merge base of HEAD and "origin/${branch}"`,
+        'Tip: Make sure that the branch is fetched and the history is not shallow (e.g. run "git fetch --unshallow")',
+        'Original Error:',
+        (e as Error).toString(),
+      ].join('\n'),
+    );
+  }
+}
+
+/**
+ * Resolves a commit (e.g. a short SHA or a tag) to a full SHA, as reports of commits are stored by full SHAs.
+ */
+export function resolveCommit(commit: string, cwd: string): string {
+  try {
+    return git(['rev-parse', '--verify', '--end-of-options', `${commit}^{commit}`], cwd);
+  } catch (e) {
+    throw new Error(
+      [
+        `Failed to resolve "${commit}" to a commit`,
+        'Tip: Make sure that the commit is fetched and the history is not shallow (e.g. run "git fetch --unshallow")',
+        'Original Error:',
+        (e as Error).toString(),
+      ].join('\n'),
+    );
+  }
+}
+
+/**
+ * Returns a merge base of HEAD & `origin/<branch>` and walks back through its first-parent ancestors until a commit
+ * with a report is found. Returns `undefined` if none of `MAX_MERGE_BASE_DISTANCE` commits has a report.
+ */
+export async function findMergeBaseReport(
+  storage: Required<Pick<StorageAdapter, 'getReportForCommit'>>,
+  branch: string,
+  cwd = process.cwd(),
+): Promise<MergeBaseReport | undefined> {
+  const mergeBase = getMergeBase(branch, cwd);
+  const ancestors = git(['rev-list', '--first-parent', `--max-count=${MAX_MERGE_BASE_DISTANCE}`, mergeBase], cwd)
+    .split('\n')
+    .filter(Boolean);
+
+  for (const [distance, commit] of ancestors.entries()) {
+    const { commitSHA, remoteReport } = await storage.getReportForCommit(commit);
+
+    if (commitSHA !== '') {
+      return { commitSHA, mergeBase, distance, remoteReport };
+    }
+  }
+
+  return undefined;
+}
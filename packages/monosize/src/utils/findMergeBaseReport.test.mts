@@ -0,0 +1,89 @@
+import { describe, expect, it, vitest } from 'vitest';
+
+import { execSync } from 'node:child_process';
+import tmp from 'tmp';
+
+import { findMergeBaseReport, getMergeBase, resolveCommit } from './findMergeBaseReport.mjs';
+
+function git(args: string, cwd: string): string {
+  return execSync(`git -c user.name=test -c user.email=test@example.com ${args}`, { cwd, stdio: 'pipe' })
+    .toString()
+    .trim();
+}
+
+// Creates a repo where "origin/main" has 3 commits and HEAD is a branch created from the last one
+function mkRepo() {
+  const cwd = tmp.dirSync({ prefix: 'findMergeBaseReport', unsafeCleanup: true }).name;
+
+  git('init --quiet --initial-branch=main', cwd);
+
+  const mainCommits = ['first', 'second', 'third'].map(message => {
+    git(`commit --quiet --allow-empty -m ${message}`, cwd);
+    return git('rev-parse HEAD', cwd);
+  });
+
+  git(`update-ref refs/remotes/origin/main ${mainCommits[2]}`, cwd);
+  git('checkout --quiet -b feature', cwd);
+  git('commit --quiet --allow-empty -m feature', cwd);
+
+  return { cwd, mainCommits };
+}
+
+describe('findMergeBaseReport', () => {
+  it('returns a report of a merge base', async () => {
+    const { cwd, mainCommits } = mkRepo();
+    const getReportForCommit = vitest.fn(async (commitSHA: string) => ({ commitSHA, remoteReport: [] }));
+
+    expect(await findMergeBaseReport({ getReportForCommit }, 'main', cwd)).toEqual({
+      commitSHA: mainCommits[2],
+      mergeBase: mainCommits[2],
+      distance: 0,
+      remoteReport: [],
+    });
+    expect(getReportForCommit).toHaveBeenCalledTimes(1);
+  });
+
+  it('walks back through ancestors of a merge base until a report is found', async () => {
+    const { cwd, mainCommits } = mkRepo();
+    const getReportForCommit = vitest.fn(async (commitSHA: string) =>
+      commitSHA === mainCommits[0] ? { commitSHA, remoteReport: [] } : { commitSHA: '', remoteReport: [] },
+    );
+
+    expect(await findMergeBaseReport({ getReportForCommit }, 'main', cwd)).toEqual({
+      commitSHA: mainCommits[0],
+      mergeBase: mainCommits[2],
+      distance: 2,
+      remoteReport: [],
+    });
+    expect(getReportForCommit.mock.calls.map(([commitSHA]) => commitSHA)).toEqual([...mainCommits].reverse());
+  });
+
+  it('returns "undefined" if none of ancestors has a report', async () => {
+    const { cwd } = mkRepo();
+    const getReportForCommit = vitest.fn(async () => ({ commitSHA: '', remoteReport: [] }));
+
+    expect(await findMergeBaseReport({ getReportForCommit }, 'main', cwd)).toBeUndefined();
+  });
+
+  it('throws if a merge base cannot be found', () => {
+    const { cwd } = mkRepo();
+
+    expect(() => getMergeBase('unknown', cwd)).toThrow('Failed to find a merge base of HEAD and "origin/unknown"');
+  });
+});
+
+describe('resolveCommit', () => {
+  it('resolves short SHAs & refs to full SHAs', () => {
+    const { cwd, mainCommits } = mkRepo();
+
+    expect(resolveCommit(mainCommits[1].slice(0, 7), cwd)).toBe(mainCommits[1]);
+    expect(resolveCommit('origin/main', cwd)).toBe(mainCommits[2]);
+  });
+
+  it('throws if a commit cannot be resolved', () => {
+    const { cwd } = mkRepo();
+
+    expect(() => resolveCommit('abcdef1', cwd)).toThrow('Failed to resolve "abcdef1" to a commit');
+    expect(() => resolveCommit('--help', cwd)).toThrow('Failed to resolve "--help" to a commit');
+  });
+});
@@ -9,7 +9,28 @@ type EntriesInReport = {
 export function getChangedEntriesInReport(report: ComparedReport): EntriesInReport {
   const { changedEntries, unchangedEntries } = report.reduce<EntriesInReport>(
     (acc, reportEntry) => {
-      if (reportEntry.diff.gzip.delta === 0 && reportEntry.diff.minified.delta === 0) {
+      const {
+        assets = {},
+        budgetViolations = [],
+        empty,
+        metrics,
+        newDuplicatePackages = [],
+        removed,
+        total = {},
+      } = reportEntry.diff;
+      const diffs = [
+        ...Object.values(metrics),
+        ...Object.values(total),
+        ...Object.values(assets).flatMap(assetDiff => Object.values(assetDiff.metrics)),
+      ];
+
+      if (
+        !empty &&
+        !removed &&
+        newDuplicatePackages.length === 0 &&
+        budgetViolations.length === 0 &&
+        diffs.every(diffByMetric => diffByMetric.delta === 0 || diffByMetric.belowNoiseFloor)
+      ) {
         acc.unchangedEntries.push(reportEntry);
         return acc;
       }
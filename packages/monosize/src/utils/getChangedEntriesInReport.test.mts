@@ -18,8 +18,10 @@ describe('getChangedEntriesInReport', () => {
           empty: false,
           exceedsThreshold: false,
 
-          minified: { delta: 0, percent: '0%' },
-          gzip: { delta: 0, percent: '0%' },
+          metrics: {
+            minified: { delta: 0, percent: '0%' },
+            gzip: { delta: 0, percent: '0%' },
+          },
         },
       },
       { packageName: 'xyz', name: 'xyz', path: 'xyz.js', minifiedSize: 0, gzippedSize: 0, diff: EMPTY_DIFF },
@@ -33,4 +35,100 @@ describe('getChangedEntriesInReport', () => {
     expect(actual.unchangedEntries).toHaveLength(1);
     expect(actual.unchangedEntries[0]).toEqual(report[1]);
   });
+
+  it('treats entries with changed async chunks as changed', () => {
+    const report: ComparedReport = [
+      {
+        packageName: 'abc',
+        name: 'abc-a',
+        path: 'abc-a.js',
+        minifiedSize: 0,
+        gzippedSize: 0,
+        totalSizes: { minifiedSize: 10, gzippedSize: 5 },
+        diff: {
+          empty: false,
+          exceedsThreshold: false,
+
+          metrics: {
+            minified: { delta: 0, percent: '0%' },
+            gzip: { delta: 0, percent: '0%' },
+          },
+          total: {
+            minified: { delta: 10, percent: '100%' },
+            gzip: { delta: 5, percent: '100%' },
+          },
+        },
+      },
+    ];
+    const actual = getChangedEntriesInReport(report);
+
+    expect(actual.changedEntries).toHaveLength(1);
+    expect(actual.unchangedEntries).toHaveLength(0);
+  });
+
+  it('treats entries with new duplicate packages as changed', () => {
+    const report: ComparedReport = [
+      {
+        packageName: 'abc',
+        name: 'abc-a',
+        path: 'abc-a.js',
+        minifiedSize: 0,
+        gzippedSize: 0,
+        diff: {
+          empty: false,
+          exceedsThreshold: false,
+
+          metrics: {
+            minified: { delta: 0, percent: '0%' },
+            gzip: { delta: 0, percent: '0%' },
+          },
+          newDuplicatePackages: ['react'],
+        },
+      },
+    ];
+    const actual = getChangedEntriesInReport(report);
+
+    expect(actual.changedEntries).toHaveLength(1);
+    expect(actual.unchangedEntries).toHaveLength(0);
+  });
+
+  it('treats removed entries as changed', () => {
+    const report: ComparedReport = [
+      {
+        packageName: 'abc',
+        name: 'abc-a',
+        path: 'abc-a.js',
+        minifiedSize: 10,
+        gzippedSize: 5,
+        diff: { ...EMPTY_DIFF, empty: false, removed: true },
+      },
+    ];
+
+    expect(getChangedEntriesInReport(report).changedEntries).toEqual(report);
+  });
+
+  it('treats entries with changes below a noise floor as unchanged', () => {
+    const report: ComparedReport = [
+      {
+        packageName: 'abc',
+        name: 'abc-a',
+        path: 'abc-a.js',
+        minifiedSize: 0,
+        gzippedSize: 0,
+        diff: {
+          empty: false,
+          exceedsThreshold: false,
+
+          metrics: {
+            minified: { delta: 0, percent: '0%' },
+            gzip: { delta: 3, percent: '0.3%', belowNoiseFloor: true },
+          },
+        },
+      },
+    ];
+    const actual = getChangedEntriesInReport(report);
+
+    expect(actual.changedEntries).toHaveLength(0);
+    expect(actual.unchangedEntries).toHaveLength(1);
+  });
 });
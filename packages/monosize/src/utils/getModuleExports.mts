@@ -0,0 +1,88 @@
+import { Parser } from 'acorn';
+import type ES from 'acorn';
+import fs from 'node:fs';
+import path from 'node:path';
+
+function getPatternNames(pattern: ES.Pattern): string[] {
+  switch (pattern.type) {
+    case 'Identifier':
+      return [pattern.name];
+    case 'ObjectPattern':
+      return pattern.properties.flatMap(property =>
+        getPatternNames(property.type === 'RestElement' ? property.argument : property.value),
+      );
+    case 'ArrayPattern':
+      return pattern.elements.flatMap(element => (element ? getPatternNames(element) : []));
+    case 'RestElement':
+      return getPatternNames(pattern.argument);
+    case 'AssignmentPattern':
+      return getPatternNames(pattern.left);
+    default:
+      return [];
+  }
+}
+
+function getExportedName(node: ES.Identifier | ES.Literal): string {
+  return node.type === 'Identifier' ? node.name : String(node.value);
+}
+
+function resolveRelativeModule(fromPath: string, source: string): string | undefined {
+  const modulePath = path.resolve(path.dirname(fromPath), source);
+
+  return [modulePath, `${modulePath}.js`, `${modulePath}.mjs`, path.join(modulePath, 'index.js')].find(
+    candidate => fs.existsSync(candidate) && fs.statSync(candidate).isFile(),
+  );
+}
+
+async function collectExports(filePath: string, names: Set<string>, visited: Set<string>): Promise<void> {
+  if (visited.has(filePath)) {
+    return;
+  }
+
+  visited.add(filePath);
+
+  const program = Parser.parse(await fs.promises.readFile(filePath, 'utf8'), {
+    ecmaVersion: 'latest',
+    sourceType: 'module',
+  });
+
+  for (const node of program.body) {
+    if (node.type === 'ExportNamedDeclaration') {
+      if (node.declaration?.type === 'VariableDeclaration') {
+        node.declaration.declarations.forEach(declarator => getPatternNames(declarator.id).forEach(n => names.add(n)));
+      } else if (node.declaration) {
+        names.add(node.declaration.id.name);
+      }
+
+      node.specifiers.forEach(specifier => names.add(getExportedName(specifier.exported)));
+    }
+
+    if (node.type === 'ExportAllDeclaration') {
+      if (node.exported) {
+        names.add(getExportedName(node.exported));
+        continue;
+      }
+
+      // Re-exports from other packages can't be enumerated without resolving dependencies & are skipped
+      const source = String(node.source.value);
+      const modulePath = source.startsWith('.') ? resolveRelativeModule(filePath, source) : undefined;
+
+      if (modulePath) {
+        await collectExports(modulePath, names, visited);
+      }
+    }
+  }
+}
+
+/**
+ * Returns sorted names of named exports of an ES module, including names re-exported from relative modules via
+ * `export * from`. A default export is not included.
+ */
+export async function getModuleExports(filePath: string): Promise<string[]> {
+  const names = new Set<string>();
+
+  await collectExports(filePath, names, new Set());
+  names.delete('default');
+
+  return [...names].sort((a, b) => a.localeCompare(b, 'en'));
+}
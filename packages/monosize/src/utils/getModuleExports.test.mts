@@ -0,0 +1,62 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import tmp from 'tmp';
+import { describe, expect, it } from 'vitest';
+
+import { getModuleExports } from './getModuleExports.mjs';
+
+function setup(files: Record<string, string>) {
+  const moduleDir = tmp.dirSync({ prefix: 'getModuleExports', unsafeCleanup: true });
+
+  for (const [file, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.resolve(moduleDir.name, file)), { recursive: true });
+    fs.writeFileSync(path.resolve(moduleDir.name, file), content);
+  }
+
+  return moduleDir.name;
+}
+
+describe('getModuleExports', () => {
+  it('returns named exports', async () => {
+    const moduleDir = setup({
+      'index.js': `
+        export const a = 1, { b, c: [d, ...e] } = {};
+        export function foo() {}
+        export class Bar {}
+        const baz = 1;
+        export { baz, baz as qux, baz as 'quux-corge' };
+        export { grault } from 'other-package';
+        export default baz;
+      `,
+    });
+
+    expect(await getModuleExports(path.resolve(moduleDir, 'index.js'))).toEqual([
+      'a',
+      'b',
+      'Bar',
+      'baz',
+      'd',
+      'e',
+      'foo',
+      'grault',
+      'quux-corge',
+      'qux',
+    ]);
+  });
+
+  it('follows re-exports from relative modules', async () => {
+    const moduleDir = setup({
+      'index.js': `
+        export * from './components';
+        export * from './utils.js';
+        export * from 'other-package';
+        export * as icons from './icons.js';
+      `,
+      'components/index.js': `export * from '../index.js'; export const Button = 1, Input = 2;`,
+      'utils.js': `export function useId() {}`,
+      'icons.js': `export const Icon = 1;`,
+    });
+
+    expect(await getModuleExports(path.resolve(moduleDir, 'index.js'))).toEqual(['Button', 'icons', 'Input', 'useId']);
+  });
+});
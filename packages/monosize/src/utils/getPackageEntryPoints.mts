@@ -0,0 +1,92 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+export type PackageJson = {
+  name: string;
+  exports?: unknown;
+  module?: string;
+  main?: string;
+};
+
+export type PackageEntryPoint = {
+  /** A subpath from "exports", e.g. "." or "./utils". */
+  subpath: string;
+  /** A specifier to import an entry point, e.g. "pkg" or "pkg/utils". */
+  specifier: string;
+  /** An absolute path to a built file of an entry point. */
+  filePath: string;
+};
+
+// Conditions are matched in the order of keys in "exports", the same way as bundlers do for browser builds
+const CONDITIONS = new Set(['import', 'module', 'browser', 'default']);
+const JS_EXTENSIONS = new Set(['.js', '.mjs']);
+
+function resolveTarget(target: unknown): string | undefined {
+  if (typeof target === 'string') {
+    return target;
+  }
+
+  if (Array.isArray(target)) {
+    return target.map(resolveTarget).find(Boolean);
+  }
+
+  if (target && typeof target === 'object') {
+    for (const [condition, value] of Object.entries(target)) {
+      const resolvedTarget = CONDITIONS.has(condition) ? resolveTarget(value) : undefined;
+
+      if (resolvedTarget) {
+        return resolvedTarget;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+function getExportsMap(packageJson: PackageJson): Record<string, unknown> {
+  const { exports } = packageJson;
+
+  if (exports === undefined) {
+    return { '.': packageJson.module ?? packageJson.main ?? './index.js' };
+  }
+
+  // "exports" can be a string, an array or an object with conditions instead of a map of subpaths
+  if (typeof exports !== 'object' || exports === null || Array.isArray(exports)) {
+    return { '.': exports };
+  }
+
+  return Object.keys(exports).every(key => key.startsWith('.'))
+    ? (exports as Record<string, unknown>)
+    : { '.': exports };
+}
+
+/**
+ * Returns entry points of a package based on "exports" (or "module" & "main" if "exports" are not defined) in its
+ * "package.json". Subpath patterns (i.e. "./*") and non-JS files are skipped. Throws if a file of an entry point does
+ * not exist as a package should be built first.
+ */
+export function getPackageEntryPoints(packageRoot: string, packageJson: PackageJson): PackageEntryPoint[] {
+  return Object.entries(getExportsMap(packageJson)).reduce<PackageEntryPoint[]>((acc, [subpath, target]) => {
+    const resolvedTarget = resolveTarget(target);
+
+    if (subpath.includes('*') || !resolvedTarget || !JS_EXTENSIONS.has(path.extname(resolvedTarget))) {
+      return acc;
+    }
+
+    const filePath = path.resolve(packageRoot, resolvedTarget);
+
+    if (!fs.existsSync(filePath)) {
+      throw new Error(
+        `A file "${resolvedTarget}" of the "${subpath}" entry point does not exist, make sure that the package is built`,
+      );
+    }
+
+    acc.push({
+      subpath,
+      specifier: subpath === '.' ? packageJson.name : `${packageJson.name}/${subpath.slice(2)}`,
+      filePath,
+    });
+
+    return acc;
+  }, []);
+}
@@ -0,0 +1,69 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import tmp from 'tmp';
+import { describe, expect, it } from 'vitest';
+
+import { getPackageEntryPoints } from './getPackageEntryPoints.mjs';
+
+function setup(files: string[]) {
+  const packageDir = tmp.dirSync({ prefix: 'getPackageEntryPoints', unsafeCleanup: true });
+
+  for (const file of files) {
+    fs.mkdirSync(path.dirname(path.resolve(packageDir.name, file)), { recursive: true });
+    fs.writeFileSync(path.resolve(packageDir.name, file), '');
+  }
+
+  return packageDir.name;
+}
+
+describe('getPackageEntryPoints', () => {
+  it('returns entry points from "exports"', () => {
+    const packageRoot = setup(['lib/index.js', 'lib/utils.mjs']);
+    const entryPoints = getPackageEntryPoints(packageRoot, {
+      name: '@scope/pkg',
+      exports: {
+        '.': { types: './lib/index.d.ts', import: './lib/index.js', require: './lib-commonjs/index.js' },
+        './utils': { node: './lib-node/utils.js', default: './lib/utils.mjs' },
+        './package.json': './package.json',
+        './*': './lib/*.js',
+      },
+    });
+
+    expect(entryPoints).toEqual([
+      { subpath: '.', specifier: '@scope/pkg', filePath: path.resolve(packageRoot, 'lib/index.js') },
+      { subpath: './utils', specifier: '@scope/pkg/utils', filePath: path.resolve(packageRoot, 'lib/utils.mjs') },
+    ]);
+  });
+
+  it('handles "exports" without subpaths', () => {
+    const packageRoot = setup(['lib/index.js']);
+
+    expect(getPackageEntryPoints(packageRoot, { name: 'pkg', exports: './lib/index.js' })).toEqual([
+      { subpath: '.', specifier: 'pkg', filePath: path.resolve(packageRoot, 'lib/index.js') },
+    ]);
+    expect(getPackageEntryPoints(packageRoot, { name: 'pkg', exports: { import: './lib/index.js' } })).toEqual([
+      { subpath: '.', specifier: 'pkg', filePath: path.resolve(packageRoot, 'lib/index.js') },
+    ]);
+  });
+
+  it('falls back to "module" & "main"', () => {
+    const packageRoot = setup(['lib/index.js', 'lib-commonjs/index.js']);
+
+    expect(
+      getPackageEntryPoints(packageRoot, { name: 'pkg', module: './lib/index.js', main: './lib-commonjs/index.js' }),
+    ).toEqual([{ subpath: '.', specifier: 'pkg', filePath: path.resolve(packageRoot, 'lib/index.js') }]);
+    expect(getPackageEntryPoints(packageRoot, { name: 'pkg', main: './lib-commonjs/index.js' })).toEqual([
+      { subpath: '.', specifier: 'pkg', filePath: path.resolve(packageRoot, 'lib-commonjs/index.js') },
+    ]);
+  });
+
+  it('throws if a file of an entry point does not exist', () => {
+    const packageRoot = setup([]);
+
+    expect(() =>
+      getPackageEntryPoints(packageRoot, { name: 'pkg', exports: { '.': './lib/index.js' } }),
+    ).toThrowErrorMatchingInlineSnapshot(
+      `[Error: A file "./lib/index.js" of the "." entry point does not exist, make sure that the package is built]`,
+    );
+  });
+});
@@ -0,0 +1,110 @@
+import { calculateDiffByMetric, type DiffByMetric } from './calculateDiff.mjs';
+import type { ComparedReport, ComparedReportEntry } from './compareResultsInReports.mjs';
+import type { MetricDefinition } from './metrics.mjs';
+
+export type SizeTotal = {
+  /** A sum of sizes in a remote report in bytes. */
+  before: number;
+  /** A sum of sizes in a local report in bytes. */
+  after: number;
+  diff: DiffByMetric;
+};
+
+/**
+ * Sums of sizes of initial chunks keyed by metric names.
+ */
+export type SizeTotals = Record<string, SizeTotal>;
+
+export type EntryStatus = 'increased' | 'decreased' | 'new' | 'removed' | 'unchanged';
+
+export type ReportSummary = {
+  /** Numbers of entries by statuses, "increased" & "decreased" are based on the first metric. */
+  counts: Record<EntryStatus, number>;
+  /** Totals of packages sorted by names. */
+  packages: Array<{ packageName: string; totals: SizeTotals }>;
+  /** Totals of all entries in a report. */
+  totals: SizeTotals;
+};
+
+function getEntryStatus(entry: ComparedReportEntry, metrics: MetricDefinition[]): EntryStatus {
+  if (entry.diff.empty) {
+    return 'new';
+  }
+
+  if (entry.diff.removed) {
+    return 'removed';
+  }
+
+  const diff = entry.diff.metrics[metrics[0].name];
+  const delta = diff && !diff.belowNoiseFloor ? diff.delta : 0;
+
+  return delta > 0 ? 'increased' : delta < 0 ? 'decreased' : 'unchanged';
+}
+
+/**
+ * Returns sizes of an entry before & after changes for a metric. New entries have no size before changes & removed
+ * entries have no size after them. Returns `undefined` if a metric is missing in one of compared entries.
+ */
+function getEntrySizes(
+  entry: ComparedReportEntry,
+  metric: MetricDefinition,
+): { before: number; after: number } | undefined {
+  const size = entry[metric.reportKey];
+  const diff = entry.diff.metrics[metric.name];
+
+  if (typeof size !== 'number') {
+    return undefined;
+  }
+
+  if (entry.diff.empty) {
+    return { before: 0, after: size };
+  }
+
+  if (entry.diff.removed) {
+    return { before: size, after: 0 };
+  }
+
+  return diff ? { before: size - diff.delta, after: size } : undefined;
+}
+
+function sumSizes(entries: ComparedReportEntry[], metrics: MetricDefinition[]): SizeTotals {
+  return metrics.reduce<SizeTotals>((acc, metric) => {
+    const sizes = entries
+      .map(entry => getEntrySizes(entry, metric))
+      .filter((value): value is { before: number; after: number } => value !== undefined);
+
+    if (sizes.length === 0) {
+      return acc;
+    }
+
+    const before = sizes.reduce((sum, value) => sum + value.before, 0);
+    const after = sizes.reduce((sum, value) => sum + value.after, 0);
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { fraction, ...diff } = calculateDiffByMetric(after, before);
+
+    acc[metric.name] = { before, after, diff };
+
+    return acc;
+  }, {});
+}
+
+/**
+ * Aggregates a compared report: counts entries by statuses & sums sizes per package and for the whole report.
+ */
+export function getReportSummary(report: ComparedReport, metrics: MetricDefinition[]): ReportSummary {
+  const counts: Record<EntryStatus, number> = { increased: 0, decreased: 0, new: 0, removed: 0, unchanged: 0 };
+  const entriesByPackage = new Map<string, ComparedReportEntry[]>();
+
+  report.forEach(entry => {
+    counts[getEntryStatus(entry, metrics)]++;
+    entriesByPackage.set(entry.packageName, [...(entriesByPackage.get(entry.packageName) ?? []), entry]);
+  });
+
+  return {
+    counts,
+    packages: [...entriesByPackage.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([packageName, entries]) => ({ packageName, totals: sumSizes(entries, metrics) })),
+    totals: sumSizes(report, metrics),
+  };
+}
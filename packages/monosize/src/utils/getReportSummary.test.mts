@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+
+import { EMPTY_DIFF } from './calculateDiff.mjs';
+import type { ComparedReport } from './compareResultsInReports.mjs';
+import { getReportSummary } from './getReportSummary.mjs';
+import { resolveMetrics } from './metrics.mjs';
+
+const metrics = resolveMetrics(['minified', 'gzip']);
+
+describe('getReportSummary', () => {
+  it('counts entries by statuses & sums sizes by packages', () => {
+    const report: ComparedReport = [
+      {
+        packageName: 'abc',
+        name: 'abc-a',
+        path: 'abc-a.js',
+        minifiedSize: 1200,
+        gzippedSize: 300,
+        diff: {
+          empty: false,
+          exceedsThreshold: false,
+          metrics: { minified: { delta: 200, percent: '20%' }, gzip: { delta: 50, percent: '20%' } },
+        },
+      },
+      {
+        packageName: 'abc',
+        name: 'abc-b',
+        path: 'abc-b.js',
+        minifiedSize: 900,
+        gzippedSize: 200,
+        diff: {
+          empty: false,
+          exceedsThreshold: false,
+          metrics: { minified: { delta: -100, percent: '-10%' }, gzip: { delta: 0, percent: '0%' } },
+        },
+      },
+      { packageName: 'abc', name: 'abc-c', path: 'abc-c.js', minifiedSize: 500, gzippedSize: 100, diff: EMPTY_DIFF },
+      {
+        packageName: 'xyz',
+        name: 'xyz',
+        path: 'xyz.js',
+        minifiedSize: 1000,
+        gzippedSize: 250,
+        diff: { ...EMPTY_DIFF, empty: false, removed: true },
+      },
+      {
+        packageName: 'def',
+        name: 'def',
+        path: 'def.js',
+        minifiedSize: 1000,
+        gzippedSize: 250,
+        diff: {
+          empty: false,
+          exceedsThreshold: false,
+          metrics: { minified: { delta: 0, percent: '0%' }, gzip: { delta: 0, percent: '0%' } },
+        },
+      },
+    ];
+
+    expect(getReportSummary(report, metrics)).toEqual({
+      counts: { increased: 1, decreased: 1, new: 1, removed: 1, unchanged: 1 },
+      packages: [
+        {
+          packageName: 'abc',
+          totals: {
+            minified: { before: 2000, after: 2600, diff: { delta: 600, percent: '30%' } },
+            gzip: { before: 450, after: 600, diff: { delta: 150, percent: '33%' } },
+          },
+        },
+        {
+          packageName: 'def',
+          totals: {
+            minified: { before: 1000, after: 1000, diff: { delta: 0, percent: '0%' } },
+            gzip: { before: 250, after: 250, diff: { delta: 0, percent: '0%' } },
+          },
+        },
+        {
+          packageName: 'xyz',
+          totals: {
+            minified: { before: 1000, after: 0, diff: { delta: -1000, percent: '-100%' } },
+            gzip: { before: 250, after: 0, diff: { delta: -250, percent: '-100%' } },
+          },
+        },
+      ],
+      totals: {
+        minified: { before: 4000, after: 3600, diff: { delta: -400, percent: '-10%' } },
+        gzip: { before: 950, after: 850, diff: { delta: -100, percent: '-10.5%' } },
+      },
+    });
+  });
+
+  it('skips sizes of metrics that are missing in a remote report', () => {
+    const report: ComparedReport = [
+      {
+        packageName: 'abc',
+        name: 'abc',
+        path: 'abc.js',
+        minifiedSize: 1200,
+        gzippedSize: 300,
+        diff: { empty: false, exceedsThreshold: false, metrics: { minified: { delta: 200, percent: '20%' } } },
+      },
+    ];
+
+    expect(getReportSummary(report, metrics).totals).toEqual({
+      minified: { before: 1000, after: 1200, diff: { delta: 200, percent: '20%' } },
+    });
+  });
+});
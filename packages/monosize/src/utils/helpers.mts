@@ -1,6 +1,7 @@
 import prettyBytes from 'pretty-bytes';
+import path from 'node:path';
 import process from 'node:process';
-import type { ThresholdValue } from '../types.mjs';
+import type { AssetType, ThresholdValue } from '../types.mjs';
 
 /**
  * Formats a number of bytes into a human-readable string.
@@ -11,6 +12,40 @@ export function formatBytes(value: number): string {
   return prettyBytes(value, { maximumFractionDigits: 3 });
 }
 
+export const ASSET_TYPES: AssetType[] = ['js', 'css', 'other'];
+
+/**
+ * Returns a type of an emitted file based on its extension.
+ */
+export function getAssetType(filePath: string): AssetType {
+  const extension = path.extname(filePath).toLowerCase();
+
+  if (['.js', '.mjs', '.cjs'].includes(extension)) {
+    return 'js';
+  }
+
+  if (extension === '.css') {
+    return 'css';
+  }
+
+  return 'other';
+}
+
+// Matches the last "node_modules" in a path to handle nested dependencies
+const NODE_MODULES_REGEX = /^((?:.*\/)?node_modules\/((?:@[^/]+\/)?[^/]+))\//;
+
+/**
+ * Returns a name & a root directory of a package that contains a module. Returns `undefined` for modules that are not
+ * located in "node_modules".
+ *
+ * @param modulePath - A path of a module with forward slashes as separators.
+ */
+export function getPackageOfModule(modulePath: string): { name: string; root: string } | undefined {
+  const match = NODE_MODULES_REGEX.exec(modulePath);
+
+  return match ? { name: match[2], root: match[1] } : undefined;
+}
+
 export function formatHrTime(hrtime: ReturnType<typeof process.hrtime>): string {
   const number = hrtime[0] * 1e9 + hrtime[1];
 
@@ -21,30 +56,40 @@ export function formatHrTime(hrtime: ReturnType<typeof process.hrtime>): string
   return (number / 1e6).toFixed(0) + 'ms';
 }
 
+const SIZE_UNITS: Record<string, number> = {
+  B: 1,
+  kB: 1024,
+  KiB: 1024,
+  MB: 1024 * 1024,
+  MiB: 1024 * 1024,
+};
+
 /**
  * Parses a limit value from a string.
  *
- * @param value - The limit value to parse (10kB, 10%, 10
+ * @param value - The limit value to parse: a size (500 B, 10kB, 1.5 KiB, 1 MB) or a percentage (10%, 2.5%, 150%). Sizes in kB
+ * and MB are treated as KiB and MiB, i.e. 1 kB is 1024 bytes.
  */
 export function parseThreshold(value: string): ThresholdValue {
-  if (value.match(/^(\d+\.)?\d+\s?kB$/)) {
-    const size = parseFloat(value.slice(0, -2).trimEnd()) * 1024;
+  const match = value.match(/^((?:\d+\.)?\d+)\s?([a-zA-Z]+|%)$/);
 
-    if (isNaN(size)) {
-      throw new Error(`Invalid threshold value: ${value}`);
-    }
+  if (match) {
+    const [, number, unit] = match;
+    const size = parseFloat(number);
 
-    return { size, type: 'size' };
-  }
+    if (unit === '%') {
+      // Percentages above 100% are valid, e.g. a rule for a fixture that is expected to grow a lot
+      if (size <= 0) {
+        throw new Error(`Invalid threshold value: ${value}`);
+      }
 
-  if (value.match(/^\d+\s?%$/)) {
-    const size = parseFloat(value.slice(0, -1));
-
-    if (isNaN(size) || size > 100 || size <= 0) {
-      throw new Error(`Invalid threshold value: ${value}`);
+      return { size, type: 'percent' };
     }
 
-    return { size, type: 'percent' };
+    // Keys of Object.prototype (e.g. "constructor") are not units
+    if (Object.prototype.hasOwnProperty.call(SIZE_UNITS, unit)) {
+      return { size: size * SIZE_UNITS[unit], type: 'size' };
+    }
   }
 
   throw new Error(`Invalid threshold value: ${value}`);
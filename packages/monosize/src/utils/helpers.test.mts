@@ -1,5 +1,5 @@
 import { describe, expect, test } from 'vitest';
-import { formatBytes, formatHrTime, parseThreshold } from './helpers.mjs';
+import { formatBytes, formatHrTime, getAssetType, getPackageOfModule, parseThreshold } from './helpers.mjs';
 
 describe('formatBytes', () => {
   test('formats bytes to human-readable string', () => {
@@ -9,6 +9,30 @@ describe('formatBytes', () => {
   });
 });
 
+describe('getPackageOfModule', () => {
+  test('returns a package that contains a module', () => {
+    expect(getPackageOfModule('../../node_modules/react/index.js')).toEqual({
+      name: 'react',
+      root: '../../node_modules/react',
+    });
+    expect(getPackageOfModule('node_modules/@scope/pkg/node_modules/@floating-ui/dom/dist/index.js')).toEqual({
+      name: '@floating-ui/dom',
+      root: 'node_modules/@scope/pkg/node_modules/@floating-ui/dom',
+    });
+    expect(getPackageOfModule('src/index.js')).toBeUndefined();
+  });
+});
+
+describe('getAssetType', () => {
+  test('returns a type of a file by its extension', () => {
+    expect(getAssetType('/dist/foo.output.js')).toBe('js');
+    expect(getAssetType('/dist/async/123.mjs')).toBe('js');
+    expect(getAssetType('/dist/foo.output.css')).toBe('css');
+    expect(getAssetType('/dist/static/font/foo.woff2')).toBe('other');
+    expect(getAssetType('/dist/logo.SVG')).toBe('other');
+  });
+});
+
 describe('formatHrTime', () => {
   test('formats hrtime to seconds', () => {
     const hrtime = [1, 500000000] satisfies [number, number]; // 1.5 seconds
@@ -27,7 +51,23 @@ describe('parseThreshold', () => {
     expect(parseThreshold('1.5 kB')).toEqual({ size: 1536, type: 'size' });
   });
 
+  test('parse sizes in other units', () => {
+    expect(parseThreshold('500 B')).toEqual({ size: 500, type: 'size' });
+    expect(parseThreshold('2KiB')).toEqual({ size: 2048, type: 'size' });
+    expect(parseThreshold('1 MB')).toEqual({ size: 1048576, type: 'size' });
+    expect(parseThreshold('0.5 MiB')).toEqual({ size: 524288, type: 'size' });
+  });
+
   test('parse percentages', () => {
     expect(parseThreshold('10%')).toEqual({ size: 10, type: 'percent' });
+    expect(parseThreshold('1.5 %')).toEqual({ size: 1.5, type: 'percent' });
+    expect(parseThreshold('200%')).toEqual({ size: 200, type: 'percent' });
+  });
+
+  test('throws on invalid values', () => {
+    expect(() => parseThreshold('10')).toThrow('Invalid threshold value: 10');
+    expect(() => parseThreshold('5 GB')).toThrow('Invalid threshold value: 5 GB');
+    expect(() => parseThreshold('0%')).toThrow('Invalid threshold value: 0%');
+    expect(() => parseThreshold('1 constructor')).toThrow('Invalid threshold value: 1 constructor');
   });
 });
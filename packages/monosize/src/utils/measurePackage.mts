@@ -0,0 +1,304 @@
+import { glob } from 'glob';
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { checkExpectations } from './checkExpectations.mjs';
+import { createTreemap } from './createTreemap.mjs';
+import { findDuplicatePackages } from './findDuplicatePackages.mjs';
+import { ASSET_TYPES, getAssetType } from './helpers.mjs';
+import { measureContent, sumSizes, type MetricDefinition } from './metrics.mjs';
+import { prepareFixture, type PreparedFixture } from './prepareFixture.mjs';
+import type { BuildOutputChunk, BuildOutputModule, BuildResult, ModuleSizes, MonoSizeConfig } from '../types.mjs';
+import { logger } from '../logger.mjs';
+
+export const DEFAULT_FIXTURES_GLOB = '*.fixture.{js,ts,tsx}';
+
+export type Measurement = {
+  /** An entry of a report. */
+  result: BuildResult;
+  modules?: ModuleSizes;
+  /** Messages for expectations from metadata of a fixture that are not met. */
+  expectationErrors: string[];
+};
+
+/**
+ * Sums sizes of modules by their paths, paths of source files are made relative to a package root to be stable between
+ * builds.
+ */
+function getModuleSizes(modules: BuildOutputModule[], cwd: string): ModuleSizes {
+  return modules.reduce<ModuleSizes>((acc, module) => {
+    const modulePath = path.isAbsolute(module.path)
+      ? path.relative(cwd, module.path).replaceAll(path.sep, '/')
+      : module.path;
+
+    acc[modulePath] = (acc[modulePath] ?? 0) + module.size;
+    return acc;
+  }, {});
+}
+
+/**
+ * Measures the size of a single built fixture output.
+ */
+async function measureFixtureSize(
+  output: { outputPath: string; chunks?: BuildOutputChunk[]; modules?: BuildOutputModule[] },
+  fixture: Omit<PreparedFixture, 'artifactPath'> & { originalPath: string },
+  metrics: MetricDefinition[],
+  cwd: string,
+): Promise<Measurement> {
+  const { budgets, expectations, name, originalPath, threshold } = fixture;
+
+  // Adapters that don't report chunks produce a single file
+  const { chunks = [{ path: output.outputPath, type: 'initial' }] } = output;
+
+  // Each file is measured separately as files are loaded separately
+  const measuredChunks = await Promise.all(
+    chunks.map(async chunk => {
+      const content = await fs.promises.readFile(chunk.path);
+
+      return {
+        ...chunk,
+        assetType: getAssetType(chunk.path),
+        byteLength: content.byteLength,
+        sizes: await measureContent(content, metrics),
+      };
+    }),
+  );
+  const initialChunks = measuredChunks.filter(chunk => chunk.type === 'initial');
+
+  const sizes = sumSizes(
+    initialChunks.map(chunk => chunk.sizes),
+    metrics,
+  );
+  const result: BuildResult = {
+    name,
+    path: path.relative(cwd, originalPath).replaceAll(path.sep, '/'),
+    ...(threshold && { threshold }),
+    ...(budgets && { budgets }),
+    ...sizes,
+  };
+  const expectationErrors = checkExpectations({
+    name,
+    expectations,
+    sizes,
+    empty: initialChunks.every(chunk => chunk.byteLength === 0),
+    metrics,
+  });
+
+  if (initialChunks.some(chunk => chunk.assetType !== 'js')) {
+    result.assetSizes = {};
+
+    for (const assetType of ASSET_TYPES) {
+      const assetChunks = initialChunks.filter(chunk => chunk.assetType === assetType);
+
+      if (assetChunks.length > 0) {
+        result.assetSizes[assetType] = sumSizes(
+          assetChunks.map(chunk => chunk.sizes),
+          metrics,
+        );
+      }
+    }
+  }
+
+  if (measuredChunks.some(chunk => chunk.type === 'async')) {
+    result.totalSizes = sumSizes(
+      measuredChunks.map(chunk => chunk.sizes),
+      metrics,
+    );
+  }
+
+  if (!output.modules) {
+    return { result, expectationErrors };
+  }
+
+  const modules = getModuleSizes(output.modules, cwd);
+  result.duplicatePackages = await findDuplicatePackages(modules, cwd);
+
+  return { result, modules, expectationErrors };
+}
+
+/**
+ * Builds fixtures using batch mode (all at once with multi-entry).
+ */
+async function buildFixturesInBatchMode(
+  config: MonoSizeConfig,
+  fixtures: string[],
+  artifactsDir: string,
+  metrics: MetricDefinition[],
+  debug: boolean,
+  quiet: boolean,
+  cwd: string,
+): Promise<Measurement[]> {
+  const buildStartTime = process.hrtime();
+
+  // Prepare all fixtures first
+  const preparedFixtures = await Promise.all(
+    fixtures.map(async fixturePath => {
+      const { artifactPath, ...metadata } = await prepareFixture(artifactsDir, fixturePath);
+      return { ...metadata, fixturePath: artifactPath, originalPath: fixturePath };
+    }),
+  );
+
+  // Build all fixtures at once
+  const buildResults = await config.bundler.buildFixtures({
+    fixtures: preparedFixtures.map(f => ({ fixturePath: f.fixturePath, name: f.name })),
+    debug,
+    quiet,
+  });
+
+  // Measure sizes for each output
+  const measurements = await Promise.all(
+    buildResults.map((result, i) => measureFixtureSize(result, preparedFixtures[i], metrics, cwd)),
+  );
+
+  if (!quiet) {
+    logger.info(`All ${fixtures.length} fixture(s) built in batch mode`, buildStartTime);
+  }
+
+  return measurements;
+}
+
+/**
+ * Builds fixtures using sequential mode (one at a time).
+ */
+async function buildFixturesInSequentialMode(
+  config: MonoSizeConfig,
+  fixtures: string[],
+  artifactsDir: string,
+  metrics: MetricDefinition[],
+  debug: boolean,
+  quiet: boolean,
+  cwd: string,
+): Promise<Measurement[]> {
+  const measurements: Measurement[] = [];
+
+  for (const fixturePath of fixtures) {
+    const fixtureStartTime = process.hrtime();
+
+    const { artifactPath, ...metadata } = await prepareFixture(artifactsDir, fixturePath);
+    const output = await config.bundler.buildFixture({
+      debug,
+      fixturePath: artifactPath,
+      quiet,
+    });
+
+    const measurement = await measureFixtureSize(output, { ...metadata, originalPath: fixturePath }, metrics, cwd);
+    measurements.push(measurement);
+
+    if (!quiet) {
+      logger.info(`Fixture "${path.basename(fixturePath)}" built`, fixtureStartTime);
+    }
+  }
+
+  return measurements;
+}
+
+/**
+ * Writes HTML treemaps of modules for fixtures, fixtures without sizes of modules are skipped.
+ */
+async function writeTreemaps(
+  measurements: Measurement[],
+  metrics: MetricDefinition[],
+  artifactsDir: string,
+  quiet: boolean,
+): Promise<void> {
+  const measurementsWithModules = measurements.flatMap(({ modules, result }) => (modules ? [{ modules, result }] : []));
+
+  if (measurementsWithModules.length === 0) {
+    if (!quiet) {
+      logger.info('Treemaps are not created as the bundler adapter does not report modules');
+    }
+
+    return;
+  }
+
+  await Promise.all(
+    measurementsWithModules.map(({ modules, result }) =>
+      fs.promises.writeFile(
+        path.resolve(artifactsDir, path.basename(result.path).replace(/\.fixture\.(js|ts|tsx)$/, '.treemap.html')),
+        createTreemap({ name: result.name, modules, sizes: result, metrics }),
+      ),
+    ),
+  );
+}
+
+export type MeasurePackageOptions = {
+  config: MonoSizeConfig;
+  metrics: MetricDefinition[];
+  /** A package root, fixtures are searched in its "bundle-size" directory. */
+  cwd: string;
+  artifactsLocation: string;
+  fixturesGlob: string;
+  buildMode: 'batch' | 'sequential';
+  debug: boolean;
+  quiet: boolean;
+};
+
+/**
+ * Builds & measures fixtures of a package, writes a report to an artifacts directory. Is used by "measure" and to build
+ * a baseline report in "compare-reports".
+ */
+export async function measurePackage(options: MeasurePackageOptions): Promise<Measurement[]> {
+  const { config, metrics, cwd, artifactsLocation, fixturesGlob, buildMode, debug, quiet } = options;
+  const artifactsDir = path.resolve(cwd, artifactsLocation);
+
+  // thrown error if cwd is set as artifactsLocation is set to '.' since next step is to rm everything
+  if (artifactsDir === cwd) {
+    throw new Error("'--artifacts-location' cannot be the same as current working directory");
+  }
+
+  await fs.promises.rm(artifactsDir, { recursive: true, force: true });
+  await fs.promises.mkdir(artifactsDir, { recursive: true });
+
+  if (!quiet) {
+    if (debug) {
+      logger.info('Running in debug mode...');
+    }
+    logger.info('Artifacts dir is cleared');
+  }
+
+  const fixtures = await glob(`bundle-size/${fixturesGlob}`, {
+    absolute: true,
+    cwd,
+  });
+
+  if (!fixtures.length && fixturesGlob) {
+    throw new Error(`No matching fixtures found for globbing pattern '${fixturesGlob}'`);
+  }
+
+  if (!quiet) {
+    logger.info(`Measuring bundle size for ${fixtures.length} fixture(s)...`);
+    logger.raw(fixtures.map(fixture => `  - ${fixture}`).join('\n'));
+    logger.info(`Using ${config.bundler.name} as a bundler...`);
+    logger.info(`Build mode: ${buildMode}`);
+  }
+
+  // Build fixtures using the appropriate mode
+  const measurements =
+    buildMode === 'batch'
+      ? await buildFixturesInBatchMode(config, fixtures, artifactsDir, metrics, debug, quiet, cwd)
+      : await buildFixturesInSequentialMode(config, fixtures, artifactsDir, metrics, debug, quiet, cwd);
+
+  measurements.sort((a, b) => a.result.path.localeCompare(b.result.path, 'en'));
+
+  const report: BuildResult[] = measurements.map(({ result }) => result);
+  const moduleSizes = measurements.reduce<Record<string, ModuleSizes>>((acc, { modules, result }) => {
+    if (modules) {
+      acc[result.path] = modules;
+    }
+
+    return acc;
+  }, {});
+
+  await fs.promises.writeFile(path.resolve(artifactsDir, 'monosize.json'), JSON.stringify(report));
+
+  // Sizes of modules are stored separately as they are not needed to compare sizes & can be large
+  if (Object.keys(moduleSizes).length > 0) {
+    await fs.promises.writeFile(path.resolve(artifactsDir, 'monosize.modules.json'), JSON.stringify(moduleSizes));
+  }
+
+  if (debug) {
+    await writeTreemaps(measurements, metrics, artifactsDir, quiet);
+  }
+
+  return measurements;
+}
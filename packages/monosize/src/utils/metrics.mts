@@ -0,0 +1,191 @@
+import { gzipSize } from 'gzip-size';
+import type { Buffer } from 'node:buffer';
+import process from 'node:process';
+import { promisify } from 'node:util';
+import zlib from 'node:zlib';
+
+import type {
+  BuiltInMetricName,
+  MetricMeasureFunction,
+  MetricSizes,
+  MonoSizeConfig,
+  ReportSizeKey,
+} from '../types.mjs';
+
+export type MetricDefinition = {
+  /** A unique name of a metric, is used in configuration and in diffs. */
+  name: string;
+  /** A human-readable name of a metric, is used by reporters. */
+  title: string;
+  /** A key that is used to store a value of a metric in reports. */
+  reportKey: ReportSizeKey;
+
+  measure: MetricMeasureFunction;
+};
+
+const brotliCompress = promisify(zlib.brotliCompress);
+
+// "zlib.zstdCompress()" is available only in Node.js 22.15+
+const zstdCompress = (zlib as { zstdCompress?: typeof zlib.brotliCompress }).zstdCompress;
+
+export const BUILT_IN_METRICS: Record<BuiltInMetricName, MetricDefinition> = {
+  minified: {
+    name: 'minified',
+    title: 'minified',
+    reportKey: 'minifiedSize',
+    measure: content => content.length,
+  },
+  gzip: {
+    name: 'gzip',
+    title: 'GZIP',
+    reportKey: 'gzippedSize',
+    measure: content => gzipSize(content),
+  },
+  brotli: {
+    name: 'brotli',
+    title: 'Brotli',
+    reportKey: 'brotliSize',
+    measure: async content => {
+      // Uses the maximum quality level as CDNs do for static assets
+      const compressed = await brotliCompress(content, {
+        params: {
+          [zlib.constants.BROTLI_PARAM_QUALITY]: zlib.constants.BROTLI_MAX_QUALITY,
+          [zlib.constants.BROTLI_PARAM_SIZE_HINT]: content.length,
+        },
+      });
+
+      return compressed.length;
+    },
+  },
+  zstd: {
+    name: 'zstd',
+    title: 'zstd',
+    reportKey: 'zstdSize',
+    measure: async content => {
+      if (!zstdCompress) {
+        throw new Error(`"zstd" metric requires Node.js 22.15 or newer, current version is ${process.version}`);
+      }
+
+      const compressed = await promisify(zstdCompress)(content);
+
+      return compressed.length;
+    },
+  },
+};
+
+export const DEFAULT_METRICS: BuiltInMetricName[] = ['minified', 'gzip', 'brotli'];
+
+const METRIC_NAME_REGEX = /^[a-zA-Z][a-zA-Z0-9]*$/;
+
+function resolveMetric(metric: NonNullable<MonoSizeConfig['metrics']>[number]): MetricDefinition {
+  if (typeof metric === 'string') {
+    if (!Object.prototype.hasOwnProperty.call(BUILT_IN_METRICS, metric)) {
+      throw new Error(
+        [
+          `Unknown metric "${metric}".`,
+          `Use one of built-in metrics (${Object.keys(BUILT_IN_METRICS).join(', ')}) or provide a custom metric.`,
+        ].join('\n'),
+      );
+    }
+
+    return BUILT_IN_METRICS[metric];
+  }
+
+  const {
+    name,
+    title = name,
+    measure,
+  } = typeof metric === 'function' ? { name: metric.name, measure: metric } : metric;
+
+  if (!METRIC_NAME_REGEX.test(name)) {
+    throw new Error(
+      [
+        `Invalid name of a custom metric: "${name}".`,
+        'A name should start with a letter and contain only letters & digits, for example: "lines".',
+        'Tip: use a named function or an object with "name" & "measure" properties.',
+      ].join('\n'),
+    );
+  }
+
+  const reportKey: ReportSizeKey = `${name}Size`;
+  // Values of metrics are stored by report keys, they should not collide with keys of built-in metrics
+  const builtInMetric = Object.values(BUILT_IN_METRICS).find(
+    metric => metric.name === name || metric.reportKey === reportKey,
+  );
+
+  if (builtInMetric) {
+    throw new Error(
+      `Custom metric "${name}" collides with built-in metric "${builtInMetric.name}" (stored as "${builtInMetric.reportKey}"), use a different name.`,
+    );
+  }
+
+  return { name, title, reportKey, measure };
+}
+
+/**
+ * Resolves metrics defined in a config to their definitions. Falls back to default metrics if none are defined.
+ */
+export function resolveMetrics(metrics: MonoSizeConfig['metrics'] = DEFAULT_METRICS): MetricDefinition[] {
+  if (metrics.length === 0) {
+    throw new Error('At least one metric should be defined in "metrics" option.');
+  }
+
+  const definitions = metrics.map(resolveMetric);
+
+  definitions.forEach((definition, index) => {
+    if (definitions.findIndex(({ name }) => name === definition.name) !== index) {
+      throw new Error(`Metric "${definition.name}" is defined more than once.`);
+    }
+  });
+
+  return definitions;
+}
+
+/**
+ * Measures a content with every metric.
+ */
+export async function measureContent(content: Buffer, metrics: MetricDefinition[]): Promise<MetricSizes> {
+  const values = await Promise.all(metrics.map(metric => metric.measure(content)));
+
+  return metrics.reduce<MetricSizes>((acc, metric, index) => {
+    acc[metric.reportKey] = values[index];
+    return acc;
+  }, {});
+}
+
+/**
+ * Sums sizes by every metric. Metrics that are missing in any of sizes are omitted.
+ */
+export function sumSizes(sizes: MetricSizes[], metrics: MetricDefinition[]): MetricSizes {
+  return metrics.reduce<MetricSizes>((acc, metric) => {
+    if (sizes.every(size => typeof size[metric.reportKey] === 'number')) {
+      acc[metric.reportKey] = sizes.reduce((sum, size) => sum + size[metric.reportKey], 0);
+    }
+
+    return acc;
+  }, {});
+}
+
+/**
+ * Returns metrics that a threshold is checked against: a metric with a given name, all metrics for "any" or the first
+ * metric if a name is not defined.
+ */
+export function resolveThresholdMetrics(metrics: MetricDefinition[], thresholdMetric?: string): MetricDefinition[] {
+  if (thresholdMetric === undefined) {
+    return metrics.slice(0, 1);
+  }
+
+  if (thresholdMetric === 'any') {
+    return metrics;
+  }
+
+  const metric = metrics.find(({ name }) => name === thresholdMetric);
+
+  if (!metric) {
+    throw new Error(
+      `Unknown threshold metric "${thresholdMetric}", use "any" or one of measured metrics: ${metrics.map(({ name }) => name).join(', ')}.`,
+    );
+  }
+
+  return [metric];
+}
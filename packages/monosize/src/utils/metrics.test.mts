@@ -0,0 +1,111 @@
+import { Buffer } from 'node:buffer';
+import zlib from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+
+import { BUILT_IN_METRICS, measureContent, resolveMetrics, resolveThresholdMetrics, sumSizes } from './metrics.mjs';
+
+describe('resolveMetrics', () => {
+  it('returns default metrics', () => {
+    expect(resolveMetrics().map(metric => metric.name)).toEqual(['minified', 'gzip', 'brotli']);
+  });
+
+  it('resolves built-in & custom metrics', () => {
+    const countLines = (content: Buffer) => content.toString().split('\n').length;
+
+    expect(
+      resolveMetrics(['gzip', countLines, { name: 'chars', title: 'Characters', measure: content => content.length }]),
+    ).toEqual([
+      BUILT_IN_METRICS.gzip,
+      { name: 'countLines', title: 'countLines', reportKey: 'countLinesSize', measure: countLines },
+      { name: 'chars', title: 'Characters', reportKey: 'charsSize', measure: expect.any(Function) },
+    ]);
+  });
+
+  it('throws on unknown metrics', () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    expect(() => resolveMetrics(['deflate' as any])).toThrowErrorMatchingInlineSnapshot(`
+      [Error: Unknown metric "deflate".
+      Use one of built-in metrics (minified, gzip, brotli, zstd) or provide a custom metric.]
+    `);
+  });
+
+  it('throws on invalid names of custom metrics', () => {
+    expect(() => resolveMetrics([() => 1])).toThrow(/Invalid name of a custom metric: ""/);
+    expect(() => resolveMetrics([{ name: 'foo-bar', measure: () => 1 }])).toThrow(
+      /Invalid name of a custom metric: "foo-bar"/,
+    );
+  });
+
+  it('throws on duplicate metrics', () => {
+    expect(() => resolveMetrics(['gzip', 'gzip'])).toThrow('Metric "gzip" is defined more than once.');
+  });
+
+  it('throws on custom metrics that collide with built-in metrics', () => {
+    const measure = (content: Buffer) => content.length;
+
+    expect(() => resolveMetrics(['gzip', { name: 'gzipped', measure }])).toThrow(
+      'Custom metric "gzipped" collides with built-in metric "gzip" (stored as "gzippedSize"), use a different name.',
+    );
+    expect(() => resolveMetrics([{ name: 'brotli', measure }])).toThrow(
+      'Custom metric "brotli" collides with built-in metric "brotli" (stored as "brotliSize"), use a different name.',
+    );
+  });
+
+  it('throws on empty metrics', () => {
+    expect(() => resolveMetrics([])).toThrow('At least one metric should be defined in "metrics" option.');
+  });
+});
+
+describe('measureContent', () => {
+  it('measures content with every metric', async () => {
+    const content = Buffer.from('console.log("Hello world");'.repeat(100));
+
+    expect(await measureContent(content, resolveMetrics())).toEqual({
+      minifiedSize: content.length,
+      gzippedSize: zlib.gzipSync(content, { level: 9 }).length,
+      brotliSize: zlib.brotliCompressSync(content).length,
+    });
+  });
+
+  it('supports async custom metrics', async () => {
+    const content = Buffer.from('foo\nbar');
+    const metrics = resolveMetrics([{ name: 'lines', measure: async buffer => buffer.toString().split('\n').length }]);
+
+    expect(await measureContent(content, metrics)).toEqual({ linesSize: 2 });
+  });
+});
+
+describe('sumSizes', () => {
+  it('sums sizes by every metric', () => {
+    const metrics = resolveMetrics(['minified', 'gzip', 'brotli']);
+
+    expect(
+      sumSizes(
+        [
+          { minifiedSize: 100, gzippedSize: 50, brotliSize: 40 },
+          { minifiedSize: 20, gzippedSize: 10 },
+        ],
+        metrics,
+      ),
+    ).toEqual({ minifiedSize: 120, gzippedSize: 60 });
+  });
+});
+
+describe('resolveThresholdMetrics', () => {
+  const metrics = resolveMetrics(['minified', 'gzip']);
+
+  it('returns the first metric by default', () => {
+    expect(resolveThresholdMetrics(metrics).map(metric => metric.name)).toEqual(['minified']);
+  });
+
+  it('returns a metric by its name or all metrics for "any"', () => {
+    expect(resolveThresholdMetrics(metrics, 'gzip').map(metric => metric.name)).toEqual(['gzip']);
+    expect(resolveThresholdMetrics(metrics, 'any').map(metric => metric.name)).toEqual(['minified', 'gzip']);
+  });
+
+  it('throws on unknown metrics', () => {
+    expect(() => resolveThresholdMetrics(metrics, 'brotli')).toThrowErrorMatchingInlineSnapshot(
+      `[Error: Unknown threshold metric "brotli", use "any" or one of measured metrics: minified, gzip.]`,
+    );
+  });
+});
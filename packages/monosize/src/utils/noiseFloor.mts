@@ -0,0 +1,53 @@
+import type { MonoSizeConfig, ThresholdValue } from '../types.mjs';
+import { parseThreshold } from './helpers.mjs';
+import type { ThresholdMetricDiff } from './thresholdRules.mjs';
+
+/**
+ * Parsed values of a noise floor keyed by metric names.
+ */
+export type NoiseFloor = Record<string, ThresholdValue[]>;
+
+/**
+ * Parses `MonoSizeConfig.noiseFloor`, throws on unknown metrics & invalid values.
+ */
+export function parseNoiseFloor(noiseFloor: MonoSizeConfig['noiseFloor'], knownMetrics: string[]): NoiseFloor {
+  return Object.fromEntries(
+    Object.entries(noiseFloor ?? {}).map(([metric, value]) => {
+      if (!knownMetrics.includes(metric)) {
+        throw new Error(
+          `Invalid noise floor: unknown metric "${metric}", use one of measured metrics: ${knownMetrics.join(', ')}.`,
+        );
+      }
+
+      const values = (Array.isArray(value) ? value : [value]).map(item => {
+        try {
+          return parseThreshold(item);
+        } catch {
+          throw new Error(
+            `Invalid noise floor of "${metric}": "${item}" is not a valid size or percentage (e.g. "8 B", "0.1%").`,
+          );
+        }
+      });
+
+      return [metric, values];
+    }),
+  );
+}
+
+/**
+ * Checks if a change is smaller than any of values of a noise floor. Unchanged sizes & changes from an empty baseline
+ * (e.g. a new asset type) are not considered as noise, percentages of a zero size are meaningless.
+ */
+export function isBelowNoiseFloor(
+  diff: ThresholdMetricDiff,
+  remoteSize: number,
+  values: ThresholdValue[] | undefined,
+): boolean {
+  if (!values || diff.delta === 0 || remoteSize === 0) {
+    return false;
+  }
+
+  return values.some(value =>
+    value.type === 'size' ? Math.abs(diff.delta) < value.size : Math.abs(diff.fraction) < value.size / 100,
+  );
+}
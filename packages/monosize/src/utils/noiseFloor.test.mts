@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+
+import { isBelowNoiseFloor, parseNoiseFloor } from './noiseFloor.mjs';
+
+const KNOWN_METRICS = ['minified', 'gzip', 'brotli'];
+
+describe('parseNoiseFloor', () => {
+  it('parses values keyed by metrics', () => {
+    expect(parseNoiseFloor({ gzip: '8 B', minified: ['16 B', '0.1%'] }, KNOWN_METRICS)).toEqual({
+      gzip: [{ size: 8, type: 'size' }],
+      minified: [
+        { size: 16, type: 'size' },
+        { size: 0.1, type: 'percent' },
+      ],
+    });
+    expect(parseNoiseFloor(undefined, KNOWN_METRICS)).toEqual({});
+  });
+
+  it('throws on unknown metrics', () => {
+    expect(() => parseNoiseFloor({ zstd: '8 B' }, KNOWN_METRICS)).toThrow(
+      'Invalid noise floor: unknown metric "zstd", use one of measured metrics: minified, gzip, brotli.',
+    );
+  });
+
+  it('throws on invalid values', () => {
+    expect(() => parseNoiseFloor({ gzip: ['8 B', '8 bytes'] }, KNOWN_METRICS)).toThrow(
+      'Invalid noise floor of "gzip": "8 bytes" is not a valid size or percentage (e.g. "8 B", "0.1%").',
+    );
+  });
+});
+
+describe('isBelowNoiseFloor', () => {
+  it('checks absolute values of changes', () => {
+    const values = [{ size: 8, type: 'size' as const }];
+
+    expect(isBelowNoiseFloor({ delta: 3, fraction: 0.03 }, 100, values)).toBe(true);
+    expect(isBelowNoiseFloor({ delta: -7, fraction: -0.07 }, 100, values)).toBe(true);
+    expect(isBelowNoiseFloor({ delta: 8, fraction: 0.08 }, 100, values)).toBe(false);
+  });
+
+  it('checks relative values of changes', () => {
+    const values = [{ size: 0.1, type: 'percent' as const }];
+
+    expect(isBelowNoiseFloor({ delta: 50, fraction: 0.0005 }, 100000, values)).toBe(true);
+    expect(isBelowNoiseFloor({ delta: 50, fraction: 0.001 }, 50000, values)).toBe(false);
+  });
+
+  it('ignores a change smaller than any of values', () => {
+    const values = [
+      { size: 8, type: 'size' as const },
+      { size: 0.1, type: 'percent' as const },
+    ];
+
+    expect(isBelowNoiseFloor({ delta: 50, fraction: 0.0005 }, 100000, values)).toBe(true);
+    expect(isBelowNoiseFloor({ delta: 3, fraction: 0.5 }, 6, values)).toBe(true);
+    expect(isBelowNoiseFloor({ delta: 50, fraction: 0.5 }, 100, values)).toBe(false);
+  });
+
+  it('does not treat unchanged sizes & metrics without a noise floor as noise', () => {
+    expect(isBelowNoiseFloor({ delta: 0, fraction: 0 }, 100, [{ size: 8, type: 'size' }])).toBe(false);
+    expect(isBelowNoiseFloor({ delta: 3, fraction: 0.03 }, 100, undefined)).toBe(false);
+  });
+
+  it('does not treat changes from an empty baseline as noise', () => {
+    const values = [
+      { size: 8, type: 'size' as const },
+      { size: 0.1, type: 'percent' as const },
+    ];
+
+    expect(isBelowNoiseFloor({ delta: 3, fraction: 0 }, 0, values)).toBe(false);
+    expect(isBelowNoiseFloor({ delta: 5000, fraction: 0 }, 0, values)).toBe(false);
+  });
+});
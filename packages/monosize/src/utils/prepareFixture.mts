@@ -1,70 +1,303 @@
-import { parse } from 'acorn';
+import { tsPlugin } from '@sveltejs/acorn-typescript';
+import { Parser } from 'acorn';
 import type ES from 'acorn';
 import fs from 'node:fs';
 import path from 'node:path';
 
+import type { SizeBudgets, ThresholdValue } from '../types.mjs';
+import { parseThreshold } from './helpers.mjs';
+import { parseThresholdRule } from './thresholdRules.mjs';
+
+/**
+ * Expectations declared in metadata of a fixture, they are checked by `measure` without comparing to a baseline.
+ */
+export type FixtureExpectations = {
+  /** A maximum size of a fixture in bytes, it is checked against the first metric. */
+  expectedMaxSize?: number;
+  /** If true, a fixture should be fully tree-shaken, i.e. produce an empty output. */
+  expectEmpty?: boolean;
+};
+
 export type PreparedFixture = {
   artifactPath: string;
   name: string;
+  /** A threshold that overrides a threshold from a config for a fixture, see `MonoSizeConfig.threshold`. */
+  threshold?: string;
+  /** Budgets that override budgets from a config for a fixture, see `MonoSizeConfig.budgets`. */
+  budgets?: SizeBudgets;
+  expectations: FixtureExpectations;
+};
+
+const parsers = {
+  js: Parser,
+  ts: Parser.extend(tsPlugin()),
+  tsx: Parser.extend(tsPlugin({ jsx: true })),
 };
 
 /**
- * Prepares a fixture file to be compiled with a bundler, grabs data from a default export and removes it.
+ * An error in a fixture. A location of a problem is stored in `loc` in the same way as acorn does for syntax errors.
  */
-export async function prepareFixture(artifactDir: string, sourcePath: string): Promise<PreparedFixture> {
-  const sourceFixtureCode = fs.readFileSync(sourcePath, 'utf8');
+export type FixtureError = Error & { loc?: ES.Position };
 
-  // A transform that:
-  // - reads metadata (name, threshold, etc.)
-  // - removes a default export with metadata
+function createFixtureError(lines: string[], node: ES.Node): FixtureError {
+  return Object.assign(new Error(lines.join('\n')), { loc: node.loc?.start });
+}
 
-  const program = parse(sourceFixtureCode, {
-    ecmaVersion: 2020,
+/**
+ * Parses a fixture with a parser that matches its extension, TypeScript & JSX syntax is supported in ".ts" & ".tsx"
+ * files.
+ */
+export function parseFixture(code: string, sourcePath: string): ES.Program {
+  const extension = path.extname(sourcePath).slice(1);
+  const parser = extension === 'ts' || extension === 'tsx' ? parsers[extension] : parsers.js;
+
+  return parser.parse(code, {
+    ecmaVersion: 'latest',
     sourceType: 'module',
+    locations: true,
   });
+}
+
+// TypeScript nodes are not a part of ESTree types provided by acorn
+type TypeAssertion = { type: 'TSAsExpression' | 'TSSatisfiesExpression'; expression: ES.Expression | TypeAssertion };
+type DefaultExportExpression = ES.ExportDefaultDeclaration['declaration'];
+
+function isTypeAssertion(node: DefaultExportExpression | TypeAssertion): node is TypeAssertion {
+  return node.type === 'TSAsExpression' || node.type === 'TSSatisfiesExpression';
+}
+
+/**
+ * Returns an expression of a default export, type assertions (i.e. `as` & `satisfies` in TypeScript) are unwrapped.
+ */
+function getDefaultExportExpression(defaultExport: ES.ExportDefaultDeclaration): DefaultExportExpression {
+  let node = defaultExport.declaration as DefaultExportExpression | TypeAssertion;
+
+  while (isTypeAssertion(node)) {
+    node = node.expression;
+  }
+
+  return node;
+}
+
+function findProperty(properties: ES.ObjectExpression['properties'], name: string): ES.Property | undefined {
+  return properties.find(
+    property => property.type === 'Property' && property.key.type === 'Identifier' && property.key.name === name,
+  ) as ES.Property | undefined;
+}
+
+/**
+ * Parses a value of a property with a threshold, returns `undefined` if it's not a string literal with a valid threshold.
+ */
+function parseThresholdProperty(property: ES.Property): ThresholdValue | undefined {
+  if (property.value.type !== 'Literal' || typeof property.value.value !== 'string') {
+    return undefined;
+  }
+
+  try {
+    return parseThreshold(property.value.value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Checks only a syntax of a rule as metrics are not known before a config is read.
+ */
+function isThresholdRule(value: string): boolean {
+  try {
+    parseThresholdRule(value, { defaultMetrics: [] });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function readThreshold(properties: ES.ObjectExpression['properties']): string | undefined {
+  const threshold = findProperty(properties, 'threshold');
+
+  if (!threshold) {
+    return undefined;
+  }
+
+  const value = threshold.value.type === 'Literal' ? threshold.value.value : undefined;
+
+  if (typeof value !== 'string' || !isThresholdRule(value)) {
+    throw createFixtureError(
+      [
+        'A property "threshold" should be a string literal with a size, a percentage or a threshold rule.',
+        "For example: export default { name: 'Test fixture', threshold: '5%' }",
+      ],
+      threshold,
+    );
+  }
+
+  return value;
+}
+
+const BUDGET_KEY_REGEX = /^max[A-Z]/;
+
+/**
+ * Reads budgets, i.e. properties like `maxGzip: '50 kB'`. Returns `undefined` if there are no budgets.
+ */
+function readBudgets(properties: ES.ObjectExpression['properties']): SizeBudgets | undefined {
+  const budgetProperties = properties.filter(
+    (property): property is ES.Property =>
+      property.type === 'Property' && property.key.type === 'Identifier' && BUDGET_KEY_REGEX.test(property.key.name),
+  );
+
+  if (budgetProperties.length === 0) {
+    return undefined;
+  }
+
+  return budgetProperties.reduce<SizeBudgets>((acc, property) => {
+    const key = (property.key as ES.Identifier).name as keyof SizeBudgets;
+
+    if (parseThresholdProperty(property)?.type !== 'size') {
+      throw createFixtureError(
+        [
+          `A property "${key}" should be a string literal with a size in kB.`,
+          "For example: export default { name: 'Test fixture', maxGzip: '50 kB' }",
+        ],
+        property,
+      );
+    }
+
+    acc[key] = (property.value as ES.Literal).value as string;
+
+    return acc;
+  }, {});
+}
+
+function readExpectations(properties: ES.ObjectExpression['properties']): FixtureExpectations {
+  const expectations: FixtureExpectations = {};
+
+  const expectedMaxSize = findProperty(properties, 'expectedMaxSize');
+  const expectEmpty = findProperty(properties, 'expectEmpty');
+
+  if (expectedMaxSize) {
+    const threshold = parseThresholdProperty(expectedMaxSize);
+
+    if (threshold?.type !== 'size') {
+      throw createFixtureError(
+        [
+          'A property "expectedMaxSize" should be a string literal with a size in kB.',
+          "For example: export default { name: 'Test fixture', expectedMaxSize: '2 kB' }",
+        ],
+        expectedMaxSize,
+      );
+    }
+
+    expectations.expectedMaxSize = threshold.size;
+  }
+
+  if (expectEmpty) {
+    if (expectEmpty.value.type !== 'Literal' || typeof expectEmpty.value.value !== 'boolean') {
+      throw createFixtureError(
+        [
+          'A property "expectEmpty" should be a boolean literal.',
+          "For example: export default { name: 'Test fixture', expectEmpty: true }",
+        ],
+        expectEmpty,
+      );
+    }
+
+    expectations.expectEmpty = expectEmpty.value.value;
+  }
+
+  return expectations;
+}
+
+export type FixtureMetadata = Omit<PreparedFixture, 'artifactPath'>;
+
+/**
+ * Reads & validates metadata of a fixture from its default export. Throws `FixtureError` if metadata is not valid.
+ */
+export function readFixtureMetadata(program: ES.Program): {
+  metadata: FixtureMetadata;
+  defaultExport: ES.ExportDefaultDeclaration;
+  properties: ES.ObjectExpression['properties'];
+} {
   const defaultExport = program.body.find(node => node.type === 'ExportDefaultDeclaration') as
     | ES.ExportDefaultDeclaration
     | undefined;
 
   if (!defaultExport) {
-    throw new Error(
+    throw createFixtureError(
       [
         'A fixture file should contain a default export with metadata.',
         "For example: export default { name: 'Test fixture' }",
-      ].join('\n'),
+      ],
+      program,
     );
   }
 
-  if (defaultExport.declaration.type !== 'ObjectExpression') {
-    throw new Error(
-      ['A default export should be an object expression.', "For example: export default { name: 'Test fixture' }"].join(
-        '\n',
-      ),
+  const metadata = getDefaultExportExpression(defaultExport);
+
+  if (metadata.type !== 'ObjectExpression') {
+    throw createFixtureError(
+      ['A default export should be an object expression.', "For example: export default { name: 'Test fixture' }"],
+      metadata,
     );
   }
 
-  const exportProperties = defaultExport.declaration.properties;
-  const name = exportProperties.find(
-    property => property.type === 'Property' && property.key.type === 'Identifier' && property.key.name === 'name',
-  ) as ES.Property | undefined;
+  const exportProperties = metadata.properties;
+  const name = findProperty(exportProperties, 'name');
 
   if (!name) {
-    throw new Error(
-      [
-        'A default export should contain a property "name".',
-        "For example: export default { name: 'Test fixture' }",
-      ].join('\n'),
+    throw createFixtureError(
+      ['A default export should contain a property "name".', "For example: export default { name: 'Test fixture' }"],
+      metadata,
     );
   }
 
   if (name.value.type !== 'Literal' || typeof name.value.value !== 'string') {
-    throw new Error(
-      ['A property "name" should be a string literal.', "For example: export default { name: 'Test fixture' }"].join(
-        '\n',
-      ),
+    throw createFixtureError(
+      ['A property "name" should be a string literal.', "For example: export default { name: 'Test fixture' }"],
+      name,
     );
   }
 
+  const threshold = readThreshold(exportProperties);
+  const budgets = readBudgets(exportProperties);
+  const expectations = readExpectations(exportProperties);
+
+  return {
+    metadata: {
+      name: name.value.value,
+      ...(threshold && { threshold }),
+      ...(budgets && { budgets }),
+      expectations,
+    },
+    defaultExport,
+    properties: exportProperties,
+  };
+}
+
+const METADATA_KEYS = new Set(['name', 'threshold', 'expectedMaxSize', 'expectEmpty']);
+
+/**
+ * Checks if a property of metadata is supported, i.e. it's one of known properties or a budget.
+ */
+export function isKnownMetadataProperty(property: ES.ObjectExpression['properties'][number]): boolean {
+  if (property.type !== 'Property' || property.computed || property.key.type !== 'Identifier') {
+    return false;
+  }
+
+  return METADATA_KEYS.has(property.key.name) || BUDGET_KEY_REGEX.test(property.key.name);
+}
+
+/**
+ * Prepares a fixture file to be compiled with a bundler, grabs data from a default export and removes it.
+ */
+export async function prepareFixture(artifactDir: string, sourcePath: string): Promise<PreparedFixture> {
+  const sourceFixtureCode = fs.readFileSync(sourcePath, 'utf8');
+
+  // A transform that:
+  // - reads metadata (name, threshold, etc.)
+  // - removes a default export with metadata
+
+  const { defaultExport, metadata } = readFixtureMetadata(parseFixture(sourceFixtureCode, sourcePath));
+
   const modifiedCode = sourceFixtureCode.slice(0, defaultExport.start) + sourceFixtureCode.slice(defaultExport.end);
   const outputFixturePath = path.resolve(artifactDir, path.basename(sourcePath));
 
@@ -73,6 +306,6 @@ export async function prepareFixture(artifactDir: string, sourcePath: string): P
 
   return {
     artifactPath: outputFixturePath,
-    name: name.value.value,
+    ...metadata,
   };
 }
@@ -5,7 +5,7 @@ import { beforeEach, describe, expect, it, vitest } from 'vitest';
 
 import { prepareFixture } from './prepareFixture.mjs';
 
-async function setup(fixtureContent: string) {
+async function setup(fixtureContent: string, fixtureName = 'test-fixture.js') {
   const packageDir = tmp.dirSync({
     prefix: 'prepareFixture',
     unsafeCleanup: true,
@@ -25,7 +25,7 @@ async function setup(fixtureContent: string) {
   });
   const fixture = tmp.fileSync({
     dir: fixtureDir.name,
-    name: 'test-fixture.js',
+    name: fixtureName,
   });
 
   await fs.promises.writeFile(fixture.name, fixtureContent);
@@ -80,4 +80,109 @@ export default { foo: 'bar' }
       For example: export default { name: 'Test fixture' }]
     `);
   });
+
+  it('reads expectations from metadata', async () => {
+    const { artifactsDir, fixturePath } = await setup(`import Component from '@react-component';
+export default { name: 'Test fixture', expectedMaxSize: '2 kB', expectEmpty: false }
+`);
+    const fixtureData = await prepareFixture(artifactsDir, fixturePath);
+
+    expect(fixtureData.expectations).toEqual({ expectedMaxSize: 2048, expectEmpty: false });
+  });
+
+  it('throws when expectations are not valid', async () => {
+    const { artifactsDir, fixturePath } = await setup(`import Component from '@react-component';
+export default { name: 'Test fixture', expectedMaxSize: '10%' }
+`);
+
+    await expect(prepareFixture(artifactsDir, fixturePath)).rejects.toMatchInlineSnapshot(`
+      [Error: A property "expectedMaxSize" should be a string literal with a size in kB.
+      For example: export default { name: 'Test fixture', expectedMaxSize: '2 kB' }]
+    `);
+  });
+
+  it('reads a threshold from metadata', async () => {
+    const { artifactsDir, fixturePath } = await setup(`import Component from '@react-component';
+export default { name: 'Test fixture', threshold: '5%' }
+`);
+    const fixtureData = await prepareFixture(artifactsDir, fixturePath);
+
+    expect(fixtureData.threshold).toBe('5%');
+  });
+
+  it('throws when a threshold is not valid', async () => {
+    const { artifactsDir, fixturePath } = await setup(`import Component from '@react-component';
+export default { name: 'Test fixture', threshold: '5 GB' }
+`);
+
+    await expect(prepareFixture(artifactsDir, fixturePath)).rejects.toMatchInlineSnapshot(`
+      [Error: A property "threshold" should be a string literal with a size, a percentage or a threshold rule.
+      For example: export default { name: 'Test fixture', threshold: '5%' }]
+    `);
+  });
+
+  it('reads budgets from metadata', async () => {
+    const { artifactsDir, fixturePath } = await setup(`import Component from '@react-component';
+export default { name: 'Test fixture', maxGzip: '50 kB', maxMinified: '150 kB' }
+`);
+    const fixtureData = await prepareFixture(artifactsDir, fixturePath);
+
+    expect(fixtureData.budgets).toEqual({ maxGzip: '50 kB', maxMinified: '150 kB' });
+  });
+
+  it('throws when a budget is not valid', async () => {
+    const { artifactsDir, fixturePath } = await setup(`import Component from '@react-component';
+export default { name: 'Test fixture', maxGzip: '5%' }
+`);
+
+    await expect(prepareFixture(artifactsDir, fixturePath)).rejects.toMatchInlineSnapshot(`
+      [Error: A property "maxGzip" should be a string literal with a size in kB.
+      For example: export default { name: 'Test fixture', maxGzip: '50 kB' }]
+    `);
+  });
+
+  it('supports import attributes', async () => {
+    const { artifactsDir, fixturePath } = await setup(`import data from './data.json' with { type: 'json' };
+export default { name: 'Test fixture' }
+`);
+    const fixtureData = await prepareFixture(artifactsDir, fixturePath);
+
+    expect(fixtureData.name).toBe('Test fixture');
+  });
+
+  it('supports TypeScript fixtures', async () => {
+    const { artifactsDir, fixturePath } = await setup(
+      `import { type Props, Component } from '@react-component';
+const props: Props = {};
+export default { name: 'Test fixture', threshold: '5%' } satisfies { name: string; threshold: string };
+`,
+      'test-fixture.ts',
+    );
+    const fixtureData = await prepareFixture(artifactsDir, fixturePath);
+
+    expect(fixtureData.artifactPath).toBe(path.resolve(artifactsDir, 'test-fixture.ts'));
+    expect(fixtureData.name).toBe('Test fixture');
+    expect(fixtureData.threshold).toBe('5%');
+
+    expect(fs.readFileSync(fixtureData.artifactPath, 'utf8')).toMatchInlineSnapshot(`
+      "import { type Props, Component } from '@react-component';
+      const props: Props = {};
+
+      "
+    `);
+  });
+
+  it('supports TSX fixtures', async () => {
+    const { artifactsDir, fixturePath } = await setup(
+      `import { Component } from '@react-component';
+export const element = <Component<string> value="foo" />;
+export default { name: 'Test fixture' } as const;
+`,
+      'test-fixture.tsx',
+    );
+    const fixtureData = await prepareFixture(artifactsDir, fixturePath);
+
+    expect(fixtureData.artifactPath).toBe(path.resolve(artifactsDir, 'test-fixture.tsx'));
+    expect(fixtureData.name).toBe('Test fixture');
+  });
 });
@@ -0,0 +1,47 @@
+import { glob, hasMagic } from 'glob';
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { collectLocalReport, readJSON } from './collectLocalReport.mjs';
+import type { BundleSizeReport, MonoSizeConfig } from '../types.mjs';
+
+function isCollectedReport(report: unknown): report is BundleSizeReport {
+  return (
+    Array.isArray(report) &&
+    report.length > 0 &&
+    report.every(entry => typeof entry === 'object' && entry !== null && typeof entry.packageName === 'string')
+  );
+}
+
+/**
+ * Reads a baseline report from disk, used instead of a remote report from a storage adapter.
+ *
+ * `baseline` is a path to a collected report (entries with package names) or a path/glob to reports of packages
+ * (`monosize.json` files written by "measure"), they are aggregated in the same way as a local report.
+ */
+export async function readBaselineReport(
+  baseline: string,
+  options: Pick<MonoSizeConfig, 'reportResolvers'> & { root?: string },
+): Promise<BundleSizeReport> {
+  const { reportResolvers, root = process.cwd() } = options;
+
+  if (!hasMagic(baseline)) {
+    const baselinePath = path.resolve(root, baseline);
+
+    if (!fs.existsSync(baselinePath)) {
+      throw new Error(`Baseline report "${baselinePath}" does not exist`);
+    }
+
+    const report = readJSON<unknown>(baselinePath);
+
+    if (isCollectedReport(report)) {
+      return report;
+    }
+  }
+
+  if ((await glob(baseline, { cwd: root })).length === 0) {
+    throw new Error(`No baseline reports match "${baseline}"`);
+  }
+
+  return collectLocalReport({ reportResolvers, reportFilesGlob: baseline, root });
+}
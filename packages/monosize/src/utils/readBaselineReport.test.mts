@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+
+import fs from 'node:fs';
+import path from 'node:path';
+import tmp from 'tmp';
+
+import { readBaselineReport } from './readBaselineReport.mjs';
+import type { BuildResult, BundleSizeReport } from '../types.mjs';
+
+function mkBaselineDir() {
+  return tmp.dirSync({ prefix: 'readBaselineReport', unsafeCleanup: true }).name;
+}
+
+function writePackageReport(rootDir: string, packageName: string, report: BuildResult[]) {
+  const reportDir = path.join(rootDir, 'packages', packageName, 'dist', 'bundle-size');
+
+  fs.mkdirSync(reportDir, { recursive: true });
+  fs.writeFileSync(path.join(rootDir, 'packages', packageName, 'package.json'), JSON.stringify({ name: packageName }));
+  fs.writeFileSync(path.join(reportDir, 'monosize.json'), JSON.stringify(report));
+
+  return path.join(reportDir, 'monosize.json');
+}
+
+describe('readBaselineReport', () => {
+  it('reads a collected report from a file', async () => {
+    const rootDir = mkBaselineDir();
+    const report: BundleSizeReport = [
+      { packageName: 'package-a', name: 'fixtureA', path: 'path/fixtureA.js', minifiedSize: 100, gzippedSize: 50 },
+    ];
+
+    fs.writeFileSync(path.join(rootDir, 'baseline.json'), JSON.stringify(report));
+
+    expect(await readBaselineReport('baseline.json', { root: rootDir })).toEqual(report);
+    expect(await readBaselineReport(path.join(rootDir, 'baseline.json'), {})).toEqual(report);
+  });
+
+  it('collects reports of packages matching a glob', async () => {
+    const rootDir = mkBaselineDir();
+
+    writePackageReport(rootDir, 'package-a', [
+      { name: 'fixtureA', path: 'path/fixtureA.js', minifiedSize: 100, gzippedSize: 50 },
+    ]);
+    writePackageReport(rootDir, 'package-b', [
+      { name: 'fixtureB', path: 'path/fixtureB.js', minifiedSize: 10, gzippedSize: 5 },
+    ]);
+
+    expect(await readBaselineReport('packages/*/dist/bundle-size/monosize.json', { root: rootDir })).toEqual([
+      { packageName: 'package-a', name: 'fixtureA', path: 'path/fixtureA.js', minifiedSize: 100, gzippedSize: 50 },
+      { packageName: 'package-b', name: 'fixtureB', path: 'path/fixtureB.js', minifiedSize: 10, gzippedSize: 5 },
+    ]);
+  });
+
+  it('reads a report of a single package from a file', async () => {
+    const rootDir = mkBaselineDir();
+    const reportPath = writePackageReport(rootDir, 'package-a', [
+      { name: 'fixtureA', path: 'path/fixtureA.js', minifiedSize: 100, gzippedSize: 50 },
+    ]);
+
+    expect(await readBaselineReport(reportPath, {})).toEqual([
+      { packageName: 'package-a', name: 'fixtureA', path: 'path/fixtureA.js', minifiedSize: 100, gzippedSize: 50 },
+    ]);
+  });
+
+  it('throws if a baseline report does not exist', async () => {
+    const rootDir = mkBaselineDir();
+
+    await expect(readBaselineReport('baseline.json', { root: rootDir })).rejects.toThrow(
+      `Baseline report "${path.join(rootDir, 'baseline.json')}" does not exist`,
+    );
+  });
+
+  it('throws if a glob does not match any reports', async () => {
+    const rootDir = mkBaselineDir();
+
+    await expect(readBaselineReport('packages/**/monosize.json', { root: rootDir })).rejects.toThrow(
+      'No baseline reports match "packages/**/monosize.json"',
+    );
+  });
+});
@@ -0,0 +1,210 @@
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs';
+import { findUp } from 'find-up';
+
+import type { BundleSizeReportEntry, SizeOverrideConfig, ThresholdValue } from '../types.mjs';
+import { parseThreshold } from './helpers.mjs';
+import type { MetricDefinition } from './metrics.mjs';
+
+export const SIZE_OVERRIDES_FILE_NAME = 'monosize.overrides.json';
+
+/**
+ * A parsed override from "monosize.overrides.json", limits are keyed by metric names.
+ */
+export type SizeOverride = Omit<SizeOverrideConfig, 'maxSize' | 'maxDelta'> & {
+  /** Maximum sizes in bytes. */
+  maxSize: Record<string, number>;
+  maxDelta: Record<string, ThresholdValue>;
+};
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const COMMIT_SHA_REGEX = /^[0-9a-f]{7,40}$/i;
+
+function parseLimits(
+  limits: Record<string, string> | undefined,
+  options: { label: string; knownMetrics: string[]; allowPercent: boolean },
+): Record<string, ThresholdValue> {
+  const { allowPercent, knownMetrics, label } = options;
+
+  return Object.fromEntries(
+    Object.entries(limits ?? {}).map(([metric, value]) => {
+      if (!knownMetrics.includes(metric)) {
+        throw new Error(
+          `${label}: unknown metric "${metric}", use one of measured metrics: ${knownMetrics.join(', ')}.`,
+        );
+      }
+
+      const expected = allowPercent ? 'size or percentage (e.g. "2 kB", "15%")' : 'size (e.g. "12 kB")';
+      const error = new Error(`${label}: "${value}" of "${metric}" is not a valid ${expected}.`);
+      let parsedValue: ThresholdValue;
+
+      try {
+        parsedValue = parseThreshold(value);
+      } catch {
+        throw error;
+      }
+
+      if (parsedValue.type === 'percent' && !allowPercent) {
+        throw error;
+      }
+
+      return [metric, parsedValue];
+    }),
+  );
+}
+
+/**
+ * Parses contents of "monosize.overrides.json", throws on invalid overrides & on unknown metrics.
+ */
+export function parseSizeOverrides(file: unknown, knownMetrics: string[]): SizeOverride[] {
+  const overrides = (file as { overrides?: unknown } | null)?.overrides;
+
+  if (!Array.isArray(overrides)) {
+    throw new Error(`Invalid size overrides: expected an object with an "overrides" array.`);
+  }
+
+  return overrides.map((override: SizeOverrideConfig, index) => {
+    const label = `Invalid size override #${index + 1}`;
+
+    if (typeof override?.packageName !== 'string' || override.packageName === '') {
+      throw new Error(`${label}: "packageName" is required.`);
+    }
+
+    if (override.path !== undefined && typeof override.path !== 'string') {
+      throw new Error(`${label}: "path" should be a string.`);
+    }
+
+    if (typeof override.reason !== 'string' || override.reason.trim() === '') {
+      throw new Error(`${label}: "reason" is required.`);
+    }
+
+    if (!override.maxSize && !override.maxDelta) {
+      throw new Error(`${label}: "maxSize" or "maxDelta" is required.`);
+    }
+
+    if (
+      override.expires !== undefined &&
+      !(DATE_REGEX.test(override.expires) || COMMIT_SHA_REGEX.test(override.expires))
+    ) {
+      throw new Error(`${label}: "expires" should be a date (YYYY-MM-DD) or a commit SHA, got "${override.expires}".`);
+    }
+
+    const maxSize = parseLimits(override.maxSize, { label, knownMetrics, allowPercent: false });
+    const maxDelta = parseLimits(override.maxDelta, { label, knownMetrics, allowPercent: true });
+
+    return {
+      ...override,
+      maxSize: Object.fromEntries(Object.entries(maxSize).map(([metric, value]) => [metric, value.size])),
+      maxDelta,
+    };
+  });
+}
+
+/**
+ * Finds "monosize.overrides.json" in a directory or in its parents and parses it. Returns an empty array if there is
+ * no such file.
+ */
+export async function readSizeOverrides(options: { knownMetrics: string[]; cwd?: string }): Promise<SizeOverride[]> {
+  const { cwd = process.cwd(), knownMetrics } = options;
+  const filePath = await findUp(SIZE_OVERRIDES_FILE_NAME, { cwd });
+
+  if (!filePath) {
+    return [];
+  }
+
+  const content = await fs.promises.readFile(filePath, 'utf-8');
+
+  return parseSizeOverrides(JSON.parse(content), knownMetrics);
+}
+
+/**
+ * Checks if an override is expired: its date has come or its commit is an ancestor of a baseline commit. Commits are
+ * not checked if a baseline commit is unknown (e.g. a local report is used) or if git fails to resolve them.
+ */
+export function isSizeOverrideExpired(
+  override: SizeOverride,
+  options: { baselineCommitSHA: string; now?: Date; cwd?: string },
+): boolean {
+  const { baselineCommitSHA, now = new Date(), cwd = process.cwd() } = options;
+
+  if (!override.expires) {
+    return false;
+  }
+
+  if (DATE_REGEX.test(override.expires)) {
+    return now.toISOString().slice(0, 10) >= override.expires;
+  }
+
+  if (baselineCommitSHA === '') {
+    return false;
+  }
+
+  try {
+    // Exits with 0 if the first commit is an ancestor of the second one (or is the same commit)
+    execFileSync('git', ['merge-base', '--is-ancestor', override.expires, baselineCommitSHA], { cwd, stdio: 'ignore' });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns an override for an entry, overrides of fixtures take precedence over overrides of whole packages.
+ */
+export function findSizeOverride(
+  overrides: SizeOverride[],
+  entry: Pick<BundleSizeReportEntry, 'packageName' | 'path'>,
+): SizeOverride | undefined {
+  const matches = overrides.filter(
+    override =>
+      override.packageName === entry.packageName && (override.path === undefined || override.path === entry.path),
+  );
+
+  return matches.find(override => override.path !== undefined) ?? matches[0];
+}
+
+/**
+ * Checks if sizes of a local entry are within limits of an override. Limits of metrics that are missing in compared
+ * entries are not satisfied, `maxDelta` limits are not satisfied for new entries (without a remote entry).
+ */
+export function isWithinSizeOverride(
+  override: SizeOverride,
+  options: {
+    localEntry: BundleSizeReportEntry;
+    remoteEntry: BundleSizeReportEntry | undefined;
+    metrics: MetricDefinition[];
+  },
+): boolean {
+  const { localEntry, metrics, remoteEntry } = options;
+
+  function getSize(entry: BundleSizeReportEntry | undefined, metricName: string): number | undefined {
+    const metric = metrics.find(metric => metric.name === metricName);
+    const size = metric && entry?.[metric.reportKey];
+
+    return typeof size === 'number' ? size : undefined;
+  }
+
+  const withinMaxSize = Object.entries(override.maxSize).every(([metric, maxSize]) => {
+    const local = getSize(localEntry, metric);
+
+    return local !== undefined && local <= maxSize;
+  });
+  const withinMaxDelta = Object.entries(override.maxDelta).every(([metric, maxDelta]) => {
+    const local = getSize(localEntry, metric);
+    const remote = getSize(remoteEntry, metric);
+
+    if (local === undefined || remote === undefined) {
+      return false;
+    }
+
+    const delta = local - remote;
+
+    if (delta <= 0) {
+      return true;
+    }
+
+    return maxDelta.type === 'size' ? delta <= maxDelta.size : remote > 0 && delta / remote <= maxDelta.size / 100;
+  });
+
+  return withinMaxSize && withinMaxDelta;
+}
@@ -0,0 +1,209 @@
+import { describe, expect, it } from 'vitest';
+
+import { execSync } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+import tmp from 'tmp';
+
+import { resolveMetrics } from './metrics.mjs';
+import {
+  findSizeOverride,
+  isSizeOverrideExpired,
+  isWithinSizeOverride,
+  parseSizeOverrides,
+  readSizeOverrides,
+  SIZE_OVERRIDES_FILE_NAME,
+  type SizeOverride,
+} from './sizeOverrides.mjs';
+import type { BundleSizeReportEntry } from '../types.mjs';
+
+const KNOWN_METRICS = ['minified', 'gzip'];
+
+function git(args: string, cwd: string): string {
+  return execSync(`git -c user.name=test -c user.email=test@example.com ${args}`, { cwd, stdio: 'pipe' })
+    .toString()
+    .trim();
+}
+
+function createOverride(override: Partial<SizeOverride>): SizeOverride {
+  return { packageName: 'abc', reason: 'A new feature', maxSize: {}, maxDelta: {}, ...override };
+}
+
+describe('parseSizeOverrides', () => {
+  it('parses limits of overrides', () => {
+    expect(
+      parseSizeOverrides(
+        {
+          overrides: [
+            {
+              packageName: 'abc',
+              path: 'bundle-size/Button.fixture.js',
+              maxSize: { gzip: '1 kB' },
+              maxDelta: { gzip: '100 B', minified: '150%' },
+              reason: 'A new feature',
+              expires: '2030-01-31',
+            },
+          ],
+        },
+        KNOWN_METRICS,
+      ),
+    ).toEqual([
+      {
+        packageName: 'abc',
+        path: 'bundle-size/Button.fixture.js',
+        maxSize: { gzip: 1024 },
+        maxDelta: { gzip: { size: 100, type: 'size' }, minified: { size: 150, type: 'percent' } },
+        reason: 'A new feature',
+        expires: '2030-01-31',
+      },
+    ]);
+  });
+
+  it('throws on invalid overrides', () => {
+    expect(() => parseSizeOverrides([], KNOWN_METRICS)).toThrow(
+      'Invalid size overrides: expected an object with an "overrides" array.',
+    );
+    expect(() =>
+      parseSizeOverrides({ overrides: [{ packageName: 'abc', maxSize: { gzip: '1 kB' } }] }, KNOWN_METRICS),
+    ).toThrow('Invalid size override #1: "reason" is required.');
+    expect(() => parseSizeOverrides({ overrides: [{ packageName: 'abc', reason: 'test' }] }, KNOWN_METRICS)).toThrow(
+      'Invalid size override #1: "maxSize" or "maxDelta" is required.',
+    );
+    expect(() =>
+      parseSizeOverrides(
+        { overrides: [{ packageName: 'abc', reason: 'test', maxSize: { gzip: '1 kB' }, expires: 'next week' }] },
+        KNOWN_METRICS,
+      ),
+    ).toThrow('Invalid size override #1: "expires" should be a date (YYYY-MM-DD) or a commit SHA, got "next week".');
+  });
+
+  it('throws on unknown metrics & invalid limits', () => {
+    expect(() =>
+      parseSizeOverrides(
+        { overrides: [{ packageName: 'abc', reason: 'test', maxSize: { zstd: '1 kB' } }] },
+        KNOWN_METRICS,
+      ),
+    ).toThrow('Invalid size override #1: unknown metric "zstd", use one of measured metrics: minified, gzip.');
+    expect(() =>
+      parseSizeOverrides(
+        { overrides: [{ packageName: 'abc', reason: 'test', maxSize: { gzip: '10%' } }] },
+        KNOWN_METRICS,
+      ),
+    ).toThrow('Invalid size override #1: "10%" of "gzip" is not a valid size (e.g. "12 kB").');
+    expect(() =>
+      parseSizeOverrides(
+        { overrides: [{ packageName: 'abc', reason: 'test', maxDelta: { gzip: '1 byte' } }] },
+        KNOWN_METRICS,
+      ),
+    ).toThrow('Invalid size override #1: "1 byte" of "gzip" is not a valid size or percentage (e.g. "2 kB", "15%").');
+  });
+});
+
+describe('readSizeOverrides', () => {
+  it('reads overrides from a parent directory', async () => {
+    const root = tmp.dirSync({ prefix: 'readSizeOverrides', unsafeCleanup: true }).name;
+    const cwd = path.join(root, 'packages', 'abc');
+
+    fs.mkdirSync(cwd, { recursive: true });
+    fs.writeFileSync(
+      path.join(root, SIZE_OVERRIDES_FILE_NAME),
+      JSON.stringify({ overrides: [{ packageName: 'abc', maxSize: { gzip: '1 kB' }, reason: 'A new feature' }] }),
+    );
+
+    expect(await readSizeOverrides({ knownMetrics: KNOWN_METRICS, cwd })).toEqual([
+      { packageName: 'abc', maxSize: { gzip: 1024 }, maxDelta: {}, reason: 'A new feature' },
+    ]);
+  });
+
+  it('returns an empty array if there is no file', async () => {
+    const cwd = tmp.dirSync({ prefix: 'readSizeOverrides', unsafeCleanup: true }).name;
+
+    expect(await readSizeOverrides({ knownMetrics: KNOWN_METRICS, cwd })).toEqual([]);
+  });
+});
+
+describe('isSizeOverrideExpired', () => {
+  const now = new Date('2030-01-31T12:00:00Z');
+
+  it('checks dates', () => {
+    expect(isSizeOverrideExpired(createOverride({}), { baselineCommitSHA: '', now })).toBe(false);
+    expect(isSizeOverrideExpired(createOverride({ expires: '2030-02-01' }), { baselineCommitSHA: '', now })).toBe(
+      false,
+    );
+    expect(isSizeOverrideExpired(createOverride({ expires: '2030-01-31' }), { baselineCommitSHA: '', now })).toBe(true);
+  });
+
+  it('checks if a commit is included in a baseline', () => {
+    const cwd = tmp.dirSync({ prefix: 'isSizeOverrideExpired', unsafeCleanup: true }).name;
+
+    git('init --quiet', cwd);
+    const [first, second] = ['first', 'second'].map(message => {
+      git(`commit --quiet --allow-empty -m ${message}`, cwd);
+      return git('rev-parse HEAD', cwd);
+    });
+
+    expect(isSizeOverrideExpired(createOverride({ expires: second }), { baselineCommitSHA: first, cwd })).toBe(false);
+    expect(isSizeOverrideExpired(createOverride({ expires: first }), { baselineCommitSHA: second, cwd })).toBe(true);
+    expect(isSizeOverrideExpired(createOverride({ expires: second }), { baselineCommitSHA: second, cwd })).toBe(true);
+    expect(isSizeOverrideExpired(createOverride({ expires: first }), { baselineCommitSHA: '', cwd })).toBe(false);
+    expect(isSizeOverrideExpired(createOverride({ expires: 'abcdef1' }), { baselineCommitSHA: second, cwd })).toBe(
+      false,
+    );
+    // A baseline commit comes from a storage adapter, it's passed to git as is
+    expect(
+      isSizeOverrideExpired(createOverride({ expires: second }), { baselineCommitSHA: `${first}; exit 0`, cwd }),
+    ).toBe(false);
+  });
+});
+
+describe('findSizeOverride', () => {
+  it('prefers overrides of fixtures over overrides of packages', () => {
+    const packageOverride = createOverride({});
+    const fixtureOverride = createOverride({ path: 'b.js' });
+    const overrides = [packageOverride, fixtureOverride, createOverride({ packageName: 'xyz' })];
+
+    expect(findSizeOverride(overrides, { packageName: 'abc', path: 'a.js' })).toBe(packageOverride);
+    expect(findSizeOverride(overrides, { packageName: 'abc', path: 'b.js' })).toBe(fixtureOverride);
+    expect(findSizeOverride(overrides, { packageName: 'foo', path: 'a.js' })).toBeUndefined();
+  });
+});
+
+describe('isWithinSizeOverride', () => {
+  const metrics = resolveMetrics();
+  const remoteEntry: BundleSizeReportEntry = {
+    packageName: 'abc',
+    name: 'a',
+    path: 'a.js',
+    minifiedSize: 1000,
+    gzippedSize: 500,
+  };
+  const localEntry: BundleSizeReportEntry = { ...remoteEntry, minifiedSize: 1200, gzippedSize: 600 };
+
+  it('checks sizes against limits', () => {
+    const options = { localEntry, remoteEntry, metrics };
+
+    expect(isWithinSizeOverride(createOverride({ maxSize: { minified: 1200, gzip: 600 } }), options)).toBe(true);
+    expect(isWithinSizeOverride(createOverride({ maxSize: { minified: 1100 } }), options)).toBe(false);
+    expect(
+      isWithinSizeOverride(createOverride({ maxDelta: { minified: { size: 20, type: 'percent' } } }), options),
+    ).toBe(true);
+    expect(isWithinSizeOverride(createOverride({ maxDelta: { gzip: { size: 99, type: 'size' } } }), options)).toBe(
+      false,
+    );
+  });
+
+  it('does not satisfy limits of missing metrics', () => {
+    expect(
+      isWithinSizeOverride(createOverride({ maxSize: { brotli: 1000 } }), { localEntry, remoteEntry, metrics }),
+    ).toBe(false);
+  });
+
+  it('does not satisfy limits of deltas for new entries', () => {
+    const options = { localEntry, remoteEntry: undefined, metrics };
+
+    expect(isWithinSizeOverride(createOverride({ maxSize: { minified: 1200 } }), options)).toBe(true);
+    expect(
+      isWithinSizeOverride(createOverride({ maxDelta: { minified: { size: 20, type: 'percent' } } }), options),
+    ).toBe(false);
+  });
+});
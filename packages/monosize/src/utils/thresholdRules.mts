@@ -0,0 +1,264 @@
+import { minimatch } from 'minimatch';
+
+import type { MonoSizeConfig, ThresholdConfig, ThresholdSeverity, ThresholdValue } from '../types.mjs';
+import { parseThreshold } from './helpers.mjs';
+
+export type ThresholdRule =
+  | {
+      type: 'comparison';
+      /** A name of a metric, e.g. "gzip". */
+      metric: string;
+      operator: '>' | '>=';
+      value: ThresholdValue;
+    }
+  | {
+      type: 'and' | 'or';
+      rules: ThresholdRule[];
+    };
+
+/**
+ * Parsed threshold rules keyed by severity, a missing severity is not checked.
+ */
+export type ThresholdRules = Partial<Record<ThresholdSeverity, ThresholdRule>>;
+
+/**
+ * A change of a metric, `fraction` is a change relative to a baseline (i.e. 0.1 is 10%).
+ */
+export type ThresholdMetricDiff = {
+  delta: number;
+  fraction: number;
+};
+
+type Token = {
+  type: 'operator' | 'metric' | 'value';
+  text: string;
+  /** A 0-based position of a token in an expression. */
+  position: number;
+};
+
+const TOKEN_REGEX = /\s*(?:(&&|\|\||>=|>|\(|\))|([a-zA-Z][a-zA-Z0-9]*)|((?:\d+\.)?\d+\s?(?:[a-zA-Z]+|%)))/y;
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+
+  TOKEN_REGEX.lastIndex = 0;
+
+  while (expression.slice(TOKEN_REGEX.lastIndex).trim() !== '') {
+    const position = TOKEN_REGEX.lastIndex;
+    const match = TOKEN_REGEX.exec(expression);
+
+    if (!match) {
+      throw new Error(`Invalid threshold rule "${expression}": unexpected character at position ${position + 1}.`);
+    }
+
+    const [text, operator, metric, value] = match;
+
+    tokens.push({
+      type: operator ? 'operator' : metric ? 'metric' : 'value',
+      text: operator ?? metric ?? value,
+      position: position + text.length - text.trimStart().length,
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * A recursive descent parser, "&&" has a higher precedence than "||":
+ *
+ *   rule       := and ( "||" and )*
+ *   and        := primary ( "&&" primary )*
+ *   primary    := comparison | "(" rule ")"
+ *   comparison := metric ( ">" | ">=" ) value
+ */
+function createParser(expression: string, tokens: Token[], knownMetrics: string[] | undefined) {
+  let index = 0;
+
+  function fail(expected: string): never {
+    const token = tokens[index];
+    const found = token ? `"${token.text}" at position ${token.position + 1}` : 'the end of the rule';
+
+    throw new Error(`Invalid threshold rule "${expression}": expected ${expected}, got ${found}.`);
+  }
+
+  function consume(type: Token['type'], text?: string): Token | undefined {
+    const token = tokens[index];
+
+    if (token && token.type === type && (text === undefined || token.text === text)) {
+      index++;
+      return token;
+    }
+
+    return undefined;
+  }
+
+  function parseComparison(): ThresholdRule {
+    const metric = consume('metric') ?? fail('a metric name');
+
+    if (knownMetrics && !knownMetrics.includes(metric.text)) {
+      throw new Error(
+        `Invalid threshold rule "${expression}": unknown metric "${metric.text}", use one of measured metrics: ${knownMetrics.join(', ')}.`,
+      );
+    }
+
+    const operator = consume('operator', '>=') ?? consume('operator', '>') ?? fail('">" or ">="');
+    const value = consume('value') ?? fail('a size or a percentage');
+
+    try {
+      return {
+        type: 'comparison',
+        metric: metric.text,
+        operator: operator.text as '>' | '>=',
+        value: parseThreshold(value.text),
+      };
+    } catch {
+      throw new Error(
+        `Invalid threshold rule "${expression}": "${value.text}" is not a valid size or percentage (e.g. "500 B", "1.5 kB", "2%").`,
+      );
+    }
+  }
+
+  function parsePrimary(): ThresholdRule {
+    if (consume('operator', '(')) {
+      const rule = parseRule();
+
+      consume('operator', ')') ?? fail('")"');
+
+      return rule;
+    }
+
+    return parseComparison();
+  }
+
+  function parseGroup(type: 'and' | 'or', separator: string, parseItem: () => ThresholdRule): ThresholdRule {
+    const rules = [parseItem()];
+
+    while (consume('operator', separator)) {
+      rules.push(parseItem());
+    }
+
+    return rules.length === 1 ? rules[0] : { type, rules };
+  }
+
+  function parseRule(): ThresholdRule {
+    return parseGroup('or', '||', () => parseGroup('and', '&&', parsePrimary));
+  }
+
+  return {
+    parse(): ThresholdRule {
+      const rule = parseRule();
+
+      if (index < tokens.length) {
+        fail('"&&" or "||"');
+      }
+
+      return rule;
+    },
+  };
+}
+
+/**
+ * Parses a threshold rule, e.g. `gzip > 1kB && gzip > 2%`. A plain value (e.g. `10%`) is a shorthand that is checked
+ * against `defaultMetrics`: it's exceeded if any of them grows by the value or more.
+ *
+ * @param options.knownMetrics - names of measured metrics, other metrics are rejected. Not checked if omitted.
+ */
+export function parseThresholdRule(
+  expression: string,
+  options: { defaultMetrics: string[]; knownMetrics?: string[] },
+): ThresholdRule {
+  const tokens = tokenize(expression);
+
+  if (tokens.length === 1 && tokens[0].type === 'value') {
+    const value = parseThreshold(tokens[0].text);
+    const rules = options.defaultMetrics.map<ThresholdRule>(metric => ({
+      type: 'comparison',
+      metric,
+      operator: '>=',
+      value,
+    }));
+
+    return rules.length === 1 ? rules[0] : { type: 'or', rules };
+  }
+
+  return createParser(expression, tokens, options.knownMetrics).parse();
+}
+
+/**
+ * Returns rules of a threshold from a config keyed by severities: a string is a rule for the "error" severity.
+ */
+export function getThresholdExpressions(threshold: ThresholdConfig): Partial<Record<ThresholdSeverity, string>> {
+  return typeof threshold === 'string' ? { error: threshold } : threshold;
+}
+
+/**
+ * Parses a threshold from a config: a string is a rule for the "error" severity, an object contains rules keyed by
+ * severities.
+ */
+export function parseThresholdRules(
+  threshold: ThresholdConfig,
+  options: { defaultMetrics: string[]; knownMetrics?: string[] },
+): ThresholdRules {
+  return Object.fromEntries(
+    Object.entries(getThresholdExpressions(threshold))
+      .filter((entry): entry is [string, string] => entry[1] !== undefined)
+      .map(([severity, expression]) => {
+        if (severity !== 'warn' && severity !== 'error') {
+          throw new Error(`Unknown threshold severity "${severity}", use "warn" or "error".`);
+        }
+
+        return [severity, parseThresholdRule(expression, options)];
+      }),
+  );
+}
+
+// A glob with more literal characters matches fewer packages, an exact name is the most specific glob
+function getGlobSpecificity(glob: string): number {
+  return glob.replace(/[*?[\]{}!]/g, '').length;
+}
+
+/**
+ * Returns a threshold for a package from `MonoSizeConfig.thresholds`, the most specific glob matching a package name
+ * wins. Globs with the same specificity are resolved in the order of declaration.
+ */
+export function resolvePackageThreshold(
+  thresholds: MonoSizeConfig['thresholds'],
+  packageName: string,
+): ThresholdConfig | undefined {
+  const [match] = Object.entries(thresholds ?? {})
+    .filter(([glob]) => minimatch(packageName, glob))
+    .sort(([a], [b]) => getGlobSpecificity(b) - getGlobSpecificity(a));
+
+  return match?.[1];
+}
+
+/**
+ * Checks diffs of metrics against a rule. Returns names of metrics that exceed the rule or `undefined` if the rule is
+ * not exceeded. Comparisons check only increases and are never exceeded by metrics missing in diffs.
+ */
+export function evaluateThresholdRule(
+  rule: ThresholdRule,
+  metricsDiff: Record<string, ThresholdMetricDiff>,
+): string[] | undefined {
+  if (rule.type === 'comparison') {
+    const diff = metricsDiff[rule.metric];
+
+    if (!diff || diff.delta <= 0) {
+      return undefined;
+    }
+
+    const actual = rule.value.type === 'size' ? diff.delta : diff.fraction;
+    const expected = rule.value.type === 'size' ? rule.value.size : rule.value.size / 100;
+    const exceeds = rule.operator === '>' ? actual > expected : actual >= expected;
+
+    return exceeds ? [rule.metric] : undefined;
+  }
+
+  const results = rule.rules.map(childRule => evaluateThresholdRule(childRule, metricsDiff));
+
+  if (rule.type === 'and' ? results.some(result => !result) : results.every(result => !result)) {
+    return undefined;
+  }
+
+  return [...new Set(results.flatMap(result => result ?? []))];
+}
@@ -0,0 +1,159 @@
+import { describe, expect, test } from 'vitest';
+
+import {
+  evaluateThresholdRule,
+  parseThresholdRule,
+  parseThresholdRules,
+  resolvePackageThreshold,
+} from './thresholdRules.mjs';
+
+const OPTIONS = { defaultMetrics: ['minified'], knownMetrics: ['minified', 'gzip'] };
+
+describe('parseThresholdRule', () => {
+  test('parses plain values as comparisons of default metrics', () => {
+    expect(parseThresholdRule('10%', OPTIONS)).toEqual({
+      type: 'comparison',
+      metric: 'minified',
+      operator: '>=',
+      value: { size: 10, type: 'percent' },
+    });
+    expect(parseThresholdRule('1 kB', { defaultMetrics: ['minified', 'gzip'] })).toEqual({
+      type: 'or',
+      rules: [
+        { type: 'comparison', metric: 'minified', operator: '>=', value: { size: 1024, type: 'size' } },
+        { type: 'comparison', metric: 'gzip', operator: '>=', value: { size: 1024, type: 'size' } },
+      ],
+    });
+  });
+
+  test('parses percentages above 100%', () => {
+    expect(parseThresholdRule('gzip > 200%', OPTIONS)).toEqual({
+      type: 'comparison',
+      metric: 'gzip',
+      operator: '>',
+      value: { size: 200, type: 'percent' },
+    });
+  });
+
+  test('parses rules with "&&" having a higher precedence than "||"', () => {
+    expect(parseThresholdRule('gzip > 1kB && gzip > 2% || minified >= 500 B', OPTIONS)).toEqual({
+      type: 'or',
+      rules: [
+        {
+          type: 'and',
+          rules: [
+            { type: 'comparison', metric: 'gzip', operator: '>', value: { size: 1024, type: 'size' } },
+            { type: 'comparison', metric: 'gzip', operator: '>', value: { size: 2, type: 'percent' } },
+          ],
+        },
+        { type: 'comparison', metric: 'minified', operator: '>=', value: { size: 500, type: 'size' } },
+      ],
+    });
+  });
+
+  test('parses rules with parentheses', () => {
+    expect(parseThresholdRule('gzip>1kB&&(gzip>2%||minified>5%)', OPTIONS)).toEqual({
+      type: 'and',
+      rules: [
+        { type: 'comparison', metric: 'gzip', operator: '>', value: { size: 1024, type: 'size' } },
+        {
+          type: 'or',
+          rules: [
+            { type: 'comparison', metric: 'gzip', operator: '>', value: { size: 2, type: 'percent' } },
+            { type: 'comparison', metric: 'minified', operator: '>', value: { size: 5, type: 'percent' } },
+          ],
+        },
+      ],
+    });
+  });
+
+  test('throws on invalid rules', () => {
+    expect(() => parseThresholdRule('gzip > ', OPTIONS)).toThrowErrorMatchingInlineSnapshot(
+      `[Error: Invalid threshold rule "gzip > ": expected a size or a percentage, got the end of the rule.]`,
+    );
+    expect(() => parseThresholdRule('gzip > 1kB &&', OPTIONS)).toThrowErrorMatchingInlineSnapshot(
+      `[Error: Invalid threshold rule "gzip > 1kB &&": expected a metric name, got the end of the rule.]`,
+    );
+    expect(() => parseThresholdRule('gzip > 1kB minified', OPTIONS)).toThrowErrorMatchingInlineSnapshot(
+      `[Error: Invalid threshold rule "gzip > 1kB minified": expected "&&" or "||", got "minified" at position 12.]`,
+    );
+    expect(() => parseThresholdRule('(gzip > 1kB', OPTIONS)).toThrowErrorMatchingInlineSnapshot(
+      `[Error: Invalid threshold rule "(gzip > 1kB": expected ")", got the end of the rule.]`,
+    );
+    expect(() => parseThresholdRule('gzip > 1 GB', OPTIONS)).toThrowErrorMatchingInlineSnapshot(
+      `[Error: Invalid threshold rule "gzip > 1 GB": "1 GB" is not a valid size or percentage (e.g. "500 B", "1.5 kB", "2%").]`,
+    );
+    expect(() => parseThresholdRule('gzip = 1kB', OPTIONS)).toThrowErrorMatchingInlineSnapshot(
+      `[Error: Invalid threshold rule "gzip = 1kB": unexpected character at position 5.]`,
+    );
+    expect(() => parseThresholdRule('brotli > 1kB', OPTIONS)).toThrowErrorMatchingInlineSnapshot(
+      `[Error: Invalid threshold rule "brotli > 1kB": unknown metric "brotli", use one of measured metrics: minified, gzip.]`,
+    );
+  });
+});
+
+describe('parseThresholdRules', () => {
+  test('parses a string as an "error" rule', () => {
+    expect(parseThresholdRules('10%', OPTIONS)).toEqual({
+      error: { type: 'comparison', metric: 'minified', operator: '>=', value: { size: 10, type: 'percent' } },
+    });
+  });
+
+  test('parses rules keyed by severities', () => {
+    expect(parseThresholdRules({ warn: 'gzip > 1%' }, OPTIONS)).toEqual({
+      warn: { type: 'comparison', metric: 'gzip', operator: '>', value: { size: 1, type: 'percent' } },
+    });
+    expect(() =>
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      parseThresholdRules({ fatal: '10%' } as any, OPTIONS),
+    ).toThrow('Unknown threshold severity "fatal", use "warn" or "error".');
+  });
+});
+
+describe('evaluateThresholdRule', () => {
+  const rule = parseThresholdRule('gzip > 1kB && gzip > 2% || minified >= 50%', OPTIONS);
+
+  test('returns metrics that exceed a rule', () => {
+    expect(
+      evaluateThresholdRule(rule, { minified: { delta: 100, fraction: 0.01 }, gzip: { delta: 2000, fraction: 0.05 } }),
+    ).toEqual(['gzip']);
+    expect(
+      evaluateThresholdRule(rule, { minified: { delta: 5000, fraction: 0.5 }, gzip: { delta: 2000, fraction: 0.05 } }),
+    ).toEqual(['gzip', 'minified']);
+  });
+
+  test('returns "undefined" if a rule is not exceeded', () => {
+    expect(
+      evaluateThresholdRule(rule, { minified: { delta: 100, fraction: 0.01 }, gzip: { delta: 2000, fraction: 0.01 } }),
+    ).toBeUndefined();
+    expect(evaluateThresholdRule(rule, { minified: { delta: 100, fraction: 0.01 } })).toBeUndefined();
+  });
+
+  test('checks only increases', () => {
+    const sizeRule = parseThresholdRule('gzip >= 0 B', { defaultMetrics: [] });
+
+    expect(evaluateThresholdRule(sizeRule, { gzip: { delta: 0, fraction: 0 } })).toBeUndefined();
+    expect(evaluateThresholdRule(sizeRule, { gzip: { delta: -10, fraction: -0.1 } })).toBeUndefined();
+  });
+});
+
+describe('resolvePackageThreshold', () => {
+  test('returns a threshold of the most specific glob', () => {
+    const thresholds = {
+      '**': '10%',
+      '@scope/*': '5%',
+      '@scope/react-*': '2%',
+      '@scope/react-button': { error: '1%' },
+    };
+
+    expect(resolvePackageThreshold(thresholds, '@scope/react-button')).toEqual({ error: '1%' });
+    expect(resolvePackageThreshold(thresholds, '@scope/react-menu')).toBe('2%');
+    expect(resolvePackageThreshold(thresholds, '@scope/utils')).toBe('5%');
+    expect(resolvePackageThreshold(thresholds, 'lodash')).toBe('10%');
+  });
+
+  test('returns "undefined" if there are no matching globs', () => {
+    expect(resolvePackageThreshold({ '@scope/*': '5%' }, 'lodash')).toBeUndefined();
+    expect(resolvePackageThreshold(undefined, 'lodash')).toBeUndefined();
+  });
+});
@@ -0,0 +1,113 @@
+import type ES from 'acorn';
+import fs from 'node:fs';
+
+import { canResolveImport } from './canResolveImport.mjs';
+import { isKnownMetadataProperty, parseFixture, readFixtureMetadata, type FixtureError } from './prepareFixture.mjs';
+
+export type FixtureProblem = {
+  message: string;
+  /** A 1-based line of a problem. */
+  line: number;
+  /** A 0-based column of a problem, the same as in acorn. */
+  column: number;
+};
+
+type ImportSource = ES.Literal & { value: string };
+
+/**
+ * Returns sources of all static & dynamic imports and re-exports with string literals as specifiers. Type-only imports
+ * of TypeScript are skipped as they are removed from the output.
+ */
+function collectImportSources(node: unknown, sources: ImportSource[] = []): ImportSource[] {
+  if (Array.isArray(node)) {
+    node.forEach(child => collectImportSources(child, sources));
+    return sources;
+  }
+
+  if (!node || typeof node !== 'object' || !('type' in node)) {
+    return sources;
+  }
+
+  const esNode = node as ES.AnyNode & { importKind?: string; exportKind?: string };
+
+  if (esNode.importKind === 'type' || esNode.exportKind === 'type') {
+    return sources;
+  }
+
+  if (
+    esNode.type === 'ImportDeclaration' ||
+    esNode.type === 'ImportExpression' ||
+    esNode.type === 'ExportAllDeclaration' ||
+    esNode.type === 'ExportNamedDeclaration'
+  ) {
+    const { source } = esNode;
+
+    if (source?.type === 'Literal' && typeof source.value === 'string') {
+      sources.push(source as ImportSource);
+    }
+  }
+
+  for (const [key, value] of Object.entries(esNode)) {
+    if (key !== 'loc') {
+      collectImportSources(value, sources);
+    }
+  }
+
+  return sources;
+}
+
+function toProblem(message: string, loc: ES.Position | undefined): FixtureProblem {
+  return { message, line: loc?.line ?? 1, column: loc?.column ?? 0 };
+}
+
+/**
+ * Validates a fixture without building it: checks syntax, metadata & that imports can be resolved. Returns a name of a
+ * fixture (if metadata is valid) & all found problems.
+ */
+export async function validateFixture(sourcePath: string): Promise<{ name?: string; problems: FixtureProblem[] }> {
+  const code = await fs.promises.readFile(sourcePath, 'utf8');
+  const problems: FixtureProblem[] = [];
+
+  let program: ES.Program;
+
+  try {
+    program = parseFixture(code, sourcePath);
+  } catch (err) {
+    const { loc, message } = err as FixtureError;
+
+    // Acorn adds a location to a message of a syntax error, e.g. "Unexpected token (1:5)"
+    return { problems: [toProblem(message.replace(/ \(\d+:\d+\)$/, ''), loc)] };
+  }
+
+  let name: string | undefined;
+
+  try {
+    const { metadata, properties } = readFixtureMetadata(program);
+
+    name = metadata.name;
+    properties
+      .filter(property => !isKnownMetadataProperty(property))
+      .forEach(property => {
+        const key = property.type === 'Property' && property.key.type === 'Identifier' ? property.key.name : undefined;
+
+        problems.push(
+          toProblem(
+            key ? `An unknown property "${key}" in metadata.` : 'Metadata should contain only plain properties.',
+            property.loc?.start,
+          ),
+        );
+      });
+  } catch (err) {
+    const { loc, message } = err as FixtureError;
+
+    problems.push(toProblem(message, loc));
+  }
+
+  collectImportSources(program.body)
+    .filter(source => !canResolveImport(source.value, sourcePath))
+    .forEach(source => {
+      problems.push(toProblem(`An import "${source.value}" cannot be resolved.`, source.loc?.start));
+    });
+
+  return { name, problems };
+}
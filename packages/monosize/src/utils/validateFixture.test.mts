@@ -0,0 +1,110 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import tmp from 'tmp';
+import { describe, expect, it } from 'vitest';
+
+import { validateFixture } from './validateFixture.mjs';
+
+function setup(fixtureContent: string, fixtureName = 'Foo.fixture.js') {
+  const packageDir = tmp.dirSync({ prefix: 'validateFixture', unsafeCleanup: true });
+  const fixturePath = path.resolve(packageDir.name, 'bundle-size', fixtureName);
+
+  fs.mkdirSync(path.resolve(packageDir.name, 'node_modules/react'), { recursive: true });
+  fs.writeFileSync(path.resolve(packageDir.name, 'node_modules/react/package.json'), '{}');
+
+  fs.mkdirSync(path.dirname(fixturePath));
+  fs.writeFileSync(fixturePath, fixtureContent);
+
+  return fixturePath;
+}
+
+describe('validateFixture', () => {
+  it('returns a name of a valid fixture', async () => {
+    const fixturePath = setup(
+      `
+import * as React from 'react';
+import type { Props } from 'types-only-package';
+console.log(React);
+export default { name: 'Foo', threshold: '5%', maxGzip: '10 kB' };
+`,
+      'Foo.fixture.ts',
+    );
+
+    expect(await validateFixture(fixturePath)).toEqual({ name: 'Foo', problems: [] });
+  });
+
+  it('returns all problems with locations', async () => {
+    const fixturePath = setup(`import * as React from 'react';
+import { Button } from 'missing-package';
+const Input = await import('./Input.js');
+
+export default { name: 'Foo', treshold: '5%', ...extra };
+`);
+
+    expect(await validateFixture(fixturePath)).toMatchInlineSnapshot(`
+      {
+        "name": "Foo",
+        "problems": [
+          {
+            "column": 30,
+            "line": 5,
+            "message": "An unknown property "treshold" in metadata.",
+          },
+          {
+            "column": 46,
+            "line": 5,
+            "message": "Metadata should contain only plain properties.",
+          },
+          {
+            "column": 23,
+            "line": 2,
+            "message": "An import "missing-package" cannot be resolved.",
+          },
+          {
+            "column": 27,
+            "line": 3,
+            "message": "An import "./Input.js" cannot be resolved.",
+          },
+        ],
+      }
+    `);
+  });
+
+  it('returns problems in metadata', async () => {
+    const fixturePath = setup(`export default {
+  name: 'Foo',
+  threshold: '5 GB',
+};
+`);
+
+    expect(await validateFixture(fixturePath)).toMatchInlineSnapshot(`
+      {
+        "name": undefined,
+        "problems": [
+          {
+            "column": 2,
+            "line": 3,
+            "message": "A property "threshold" should be a string literal with a size, a percentage or a threshold rule.
+      For example: export default { name: 'Test fixture', threshold: '5%' }",
+          },
+        ],
+      }
+    `);
+  });
+
+  it('returns syntax errors', async () => {
+    const fixturePath = setup(`export default { name: 'Foo' `);
+
+    expect(await validateFixture(fixturePath)).toMatchInlineSnapshot(`
+      {
+        "problems": [
+          {
+            "column": 29,
+            "line": 1,
+            "message": "Unexpected token",
+          },
+        ],
+      }
+    `);
+  });
+});